@@ -19,7 +19,7 @@ module.exports = {
  },
  env: {
  node: true,
- es6: true,
+ es2020: true,
  jest: true,
  },
 };
\ No newline at end of file
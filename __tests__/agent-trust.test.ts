@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync } from 'crypto';
+import { AgentTrustVerifier, createAgentTrustMiddleware, AGENT_KEY_DIRECTORY_PATH } from '../src/agent-trust';
+import { HttpMessageSigner, createSigningInterceptor } from '../src/http-signatures';
+import { ShoraConfigurationError } from '../src/error-handling';
+
+describe('AgentTrustVerifier', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const agentUrl = 'https://agent.example.com';
+  const signer = new HttpMessageSigner({ keyId: 'agent-key-1', privateKey, signatureAgent: agentUrl });
+
+  const signedRequest = (body?: string) => {
+    const url = 'https://shop.example.com/checkout';
+    const headers = { host: 'shop.example.com', ...signer.sign({ method: 'POST', url, body }) };
+    const lowered = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+    return { method: 'POST', url: '/checkout', headers: lowered, rawBody: body, socket: { encrypted: true } } as unknown as IncomingMessage;
+  };
+
+  const trustResponse = { valid: true, agent_name: 'Shopping Agent', fraud_reduction: 0.42, message: 'ok', correlation_id: 'corr_1' };
+
+  test('verifies locally and enriches the result with verifyTrust', async () => {
+    const verifyTrust = jest.fn().mockResolvedValue(trustResponse);
+    const verifier = new AgentTrustVerifier({ keys: { 'agent-key-1': publicKey }, verifyTrust });
+
+    const result = await verifier.verify(signedRequest('{"amount":100}'));
+
+    expect(result).toMatchObject({ verified: true, keyId: 'agent-key-1', agent_name: 'Shopping Agent', fraud_reduction: 0.42 });
+    expect(verifyTrust).toHaveBeenCalledWith(expect.objectContaining({ signature_agent: agentUrl }));
+  });
+
+  test('caches verifyTrust per agent key', async () => {
+    const verifyTrust = jest.fn().mockResolvedValue(trustResponse);
+    const verifier = new AgentTrustVerifier({ keys: { 'agent-key-1': publicKey }, verifyTrust });
+
+    await verifier.verify(signedRequest());
+    await verifier.verify(signedRequest());
+
+    expect(verifyTrust).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects replayed signatures and tampered bodies', async () => {
+    const verifier = new AgentTrustVerifier({ keys: { 'agent-key-1': publicKey } });
+    const req = signedRequest('{"amount":100}');
+
+    expect((await verifier.verify(req)).verified).toBe(true);
+    expect(await verifier.verify(req)).toMatchObject({ verified: false, reason: 'replayed' });
+    expect(await verifier.verify({ ...signedRequest('{"amount":100}'), rawBody: '{"amount":1}' } as any))
+      .toMatchObject({ verified: false, reason: 'digest_mismatch' });
+  });
+
+  test('loads and caches agent key directories', async () => {
+    const get = jest.fn().mockResolvedValue({ data: { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'agent-key-1' }] } });
+    const verifier = new AgentTrustVerifier({ allowedAgents: [agentUrl], httpClient: { get } as any });
+
+    expect((await verifier.verify(signedRequest())).verified).toBe(true);
+    expect((await verifier.verify(signedRequest())).verified).toBe(true);
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(get.mock.calls[0][0]).toBe(`${agentUrl}${AGENT_KEY_DIRECTORY_PATH}`);
+  });
+
+  test('does not fetch directories for agents outside the allow list', async () => {
+    const get = jest.fn();
+    const verifier = new AgentTrustVerifier({ allowedAgents: ['https://other.example.com'], httpClient: { get } as any });
+
+    expect(await verifier.verify(signedRequest())).toMatchObject({ verified: false, reason: 'agent_not_allowed' });
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  test('requires keys or allowedAgents', () => {
+    expect(() => new AgentTrustVerifier({})).toThrow(ShoraConfigurationError);
+    expect(() => createAgentTrustMiddleware({ verifyTrust: jest.fn(), allowedAgents: [] })).toThrow(ShoraConfigurationError);
+  });
+
+  test('never fetches a directory when only static keys are configured', async () => {
+    const get = jest.fn();
+    const attacker = generateKeyPairSync('ed25519');
+    const forged = new HttpMessageSigner({ keyId: 'attacker-key', privateKey: attacker.privateKey, signatureAgent: 'https://attacker.example.com' });
+    const url = 'https://shop.example.com/checkout';
+    const headers = Object.fromEntries(
+      Object.entries({ host: 'shop.example.com', ...forged.sign({ method: 'POST', url }) }).map(([k, v]) => [k.toLowerCase(), v])
+    );
+    const verifier = new AgentTrustVerifier({ keys: { 'agent-key-1': publicKey }, httpClient: { get } as any });
+
+    expect(await verifier.verify({ method: 'POST', url: '/checkout', headers, socket: { encrypted: true } } as any))
+      .toMatchObject({ verified: false, reason: 'unknown_key' });
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  test('fails closed when the body was parsed before the digest could be checked', async () => {
+    const verifier = new AgentTrustVerifier({ keys: { 'agent-key-1': publicKey } });
+    const req = { ...signedRequest('{"amount":100}'), rawBody: undefined, body: { amount: 1 } };
+
+    expect(await verifier.verify(req as any)).toMatchObject({ verified: false, reason: 'digest_mismatch' });
+  });
+
+  test('requires Signature-Agent to be signed when it is sent', async () => {
+    const unsigned = new HttpMessageSigner({ keyId: 'agent-key-1', privateKey });
+    const url = 'https://shop.example.com/checkout';
+    const headers = Object.fromEntries(
+      Object.entries({ host: 'shop.example.com', ...unsigned.sign({ method: 'POST', url }) }).map(([k, v]) => [k.toLowerCase(), v])
+    );
+    const verifier = new AgentTrustVerifier({ keys: { 'agent-key-1': publicKey } });
+
+    expect(await verifier.verify({ method: 'POST', url: '/checkout', headers: { ...headers, 'signature-agent': agentUrl }, socket: { encrypted: true } } as any))
+      .toMatchObject({ verified: false, reason: 'missing_component' });
+  });
+
+  test('reports untrusted agents from verifyTrust', async () => {
+    const verifyTrust = jest.fn().mockResolvedValue({ valid: false, message: 'Agent blocked', correlation_id: 'corr_2' });
+    const verifier = new AgentTrustVerifier({ keys: { 'agent-key-1': publicKey }, verifyTrust });
+
+    expect(await verifier.verify(signedRequest())).toMatchObject({ verified: false, reason: 'untrusted', error: 'Agent blocked' });
+  });
+});
+
+describe('createAgentTrustMiddleware', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  let server: Server;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    const middleware = createAgentTrustMiddleware({ keys: { 'agent-key-1': publicKey } });
+    server = createServer((req, res) =>
+      middleware(req, res, () => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(req.shoraAgent));
+      })
+    );
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  test('sets req.shoraAgent for signed requests', async () => {
+    const client = axios.create({ baseURL });
+    client.interceptors.request.use(createSigningInterceptor(new HttpMessageSigner({ keyId: 'agent-key-1', privateKey })));
+
+    const response = await client.get('/products?sku=123');
+    expect(response.data).toMatchObject({ verified: true, keyId: 'agent-key-1' });
+  });
+
+  test('responds 401 to unsigned requests', async () => {
+    const response = await axios.get(`${baseURL}/products`, { validateStatus: () => true });
+    expect(response.status).toBe(401);
+    expect(response.data.code).toBe('missing_signature');
+  });
+});
@@ -0,0 +1,76 @@
+import { verifyAuditChain, AuditChain, AUDIT_CHAIN_GENESIS } from '../src/audit-chain';
+import { createSecurityEnhancement, AuditLogEntry } from '../src/security_enhance';
+
+describe('audit hash chain', () => {
+  const createLog = (count: number, auditChainKey?: string) => {
+    const sec = createSecurityEnhancement({
+      encryptionKey: 'test-key',
+      tenantId: 'tenant-test',
+      enableAuditLogging: true,
+      auditChainKey,
+    });
+    for (let i = 1; i <= count; i++) sec.logAudit(`action_${i}`, `entry ${i}`);
+    return { sec, entries: [...sec.getAuditLogs()].reverse() as AuditLogEntry[] };
+  };
+
+  test('links each entry to the previous one', () => {
+    const { sec, entries } = createLog(3);
+
+    expect(entries.map((e) => e.sequence)).toEqual([1, 2, 3]);
+    expect(entries[0].previousHash).toBe(AUDIT_CHAIN_GENESIS);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    expect(sec.getAuditChainHead()).toEqual({ sequence: 3, hash: entries[2].hash });
+  });
+
+  test('survives a JSON export round trip', () => {
+    const { entries } = createLog(3);
+    const exported = JSON.parse(JSON.stringify(entries));
+    expect(verifyAuditChain(exported)).toMatchObject({ valid: true, checked: 3 });
+  });
+
+  test('detects modified entries', () => {
+    const { entries } = createLog(3);
+    const tampered = entries.map((e) => ({ ...e }));
+    tampered[1].amount = 1000000;
+
+    const result = verifyAuditChain(tampered);
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ index: 1, type: 'modified' })]);
+  });
+
+  test('detects deleted and reordered entries', () => {
+    const { entries } = createLog(4);
+
+    expect(verifyAuditChain([entries[0], entries[2], entries[3]]).issues[0].type).toBe('gap');
+    expect(verifyAuditChain([entries[0], entries[2], entries[1], entries[3]]).issues.map((i) => i.type))
+      .toEqual(['gap', 'reordered', 'gap']);
+  });
+
+  test('requires the tenant key for HMAC-signed chains', () => {
+    const { entries } = createLog(2, 'tenant-secret');
+
+    expect(verifyAuditChain(entries, { key: 'tenant-secret' }).valid).toBe(true);
+    expect(verifyAuditChain(entries).valid).toBe(false);
+
+    // Re-hashing a forged entry without the key does not produce a valid chain
+    const forged = { ...entries[1], action: 'forged' };
+    forged.hash = new AuditChain(undefined, { sequence: 1, hash: entries[0].hash! }).append({ ...forged }).hash;
+    expect(verifyAuditChain([entries[0], forged], { key: 'tenant-secret' }).valid).toBe(false);
+  });
+
+  test('continues a chain from a persisted head', () => {
+    const first = createLog(2);
+    const resumed = createSecurityEnhancement({
+      encryptionKey: 'test-key',
+      tenantId: 'tenant-test',
+      enableAuditLogging: true,
+      auditChainHead: first.sec.getAuditChainHead(),
+    });
+    resumed.logAudit('after_restart', 'resumed');
+
+    const combined = [...first.entries, ...resumed.getAuditLogs()];
+    expect(verifyAuditChain(combined).valid).toBe(true);
+    expect(verifyAuditChain(resumed.getAuditLogs(), { anchor: { sequence: 1, hash: first.entries[0].hash! } }).issues[0].type)
+      .toBe('gap');
+  });
+});
@@ -0,0 +1,218 @@
+import { mkdtempSync, readFileSync, existsSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AxiosInstance } from 'axios';
+import {
+  MemoryAuditSink,
+  ConsoleAuditSink,
+  JsonlFileAuditSink,
+  HttpAuditSink,
+  FileAuditRetryQueue,
+} from '../src/audit-sinks';
+import { createSecurityEnhancement, AuditLogEntry } from '../src/security_enhance';
+
+const entry = (action: string): AuditLogEntry => ({
+  timestamp: new Date().toISOString(),
+  tenantId: 'tenant-test',
+  action,
+  status: 'success',
+});
+
+describe('audit sinks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shora-audit-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('MemoryAuditSink keeps only the newest maxSize entries', () => {
+    const sink = new MemoryAuditSink(2);
+    ['a', 'b', 'c'].forEach((action) => sink.write(entry(action)));
+    expect(sink.entries().map((e) => e.action)).toEqual(['b', 'c']);
+  });
+
+  test('JsonlFileAuditSink appends lines and rotates by size', async () => {
+    const path = join(dir, 'audit.jsonl');
+    const sink = new JsonlFileAuditSink({ path, maxBytes: 200, maxFiles: 2 });
+
+    for (let i = 0; i < 6; i++) sink.write(entry(`action_${i}`));
+    await sink.flush();
+
+    expect(existsSync(`${path}.1`)).toBe(true);
+    const lines = readFileSync(path, 'utf8').trim().split('\n');
+    expect(JSON.parse(lines[lines.length - 1]).action).toBe('action_5');
+  });
+
+  test('HttpAuditSink sends batches with a stable idempotency key', async () => {
+    const client = { post: jest.fn().mockResolvedValue({ data: {} }) } as unknown as jest.Mocked<AxiosInstance>;
+    const sink = new HttpAuditSink({ endpoint: 'https://audit.example.com', batchSize: 10, flushInterval: 0, client });
+
+    sink.write(entry('a'));
+    sink.write(entry('b'));
+    await sink.close();
+
+    expect(client.post).toHaveBeenCalledTimes(1);
+    const [url, body, config] = client.post.mock.calls[0];
+    expect(url).toBe('https://audit.example.com');
+    expect((body as AuditLogEntry[]).map((e) => e.action)).toEqual(['a', 'b']);
+    expect(config?.headers?.['Idempotency-Key']).toBeTruthy();
+  });
+
+  test('HttpAuditSink parks failed batches in a disk-backed queue for redelivery', async () => {
+    const queuePath = join(dir, 'audit-retry.jsonl');
+    const failing = { post: jest.fn().mockRejectedValue({ response: { status: 503, data: {} } }) } as any;
+    const first = new HttpAuditSink({
+      endpoint: 'https://audit.example.com',
+      flushInterval: 0,
+      client: failing,
+      retry: { maxAttempts: 1 },
+      retryQueue: new FileAuditRetryQueue(queuePath),
+    });
+    first.write(entry('compliance_event'));
+    await expect(first.flush()).rejects.toBeDefined();
+    expect(existsSync(queuePath)).toBe(true);
+
+    const working = { post: jest.fn().mockResolvedValue({ data: {} }) } as any;
+    const restarted = new HttpAuditSink({
+      endpoint: 'https://audit.example.com',
+      flushInterval: 0,
+      client: working,
+      retryQueue: new FileAuditRetryQueue(queuePath),
+    });
+    await restarted.flush();
+
+    expect(working.post).toHaveBeenCalledTimes(1);
+    expect(working.post.mock.calls[0][1][0].action).toBe('compliance_event');
+    expect(working.post.mock.calls[0][2].headers['Idempotency-Key'])
+      .toBe(failing.post.mock.calls[0][2].headers['Idempotency-Key']);
+    expect(existsSync(queuePath)).toBe(false);
+  });
+
+  test('HttpAuditSink persists a batch before sending it', async () => {
+    const queuePath = join(dir, 'audit-retry.jsonl');
+    const onDisk: string[] = [];
+    const client = {
+      post: jest.fn().mockImplementation(async () => {
+        onDisk.push(readFileSync(queuePath, 'utf8'));
+        return { data: {} };
+      }),
+    } as any;
+    const sink = new HttpAuditSink({
+      endpoint: 'https://audit.example.com',
+      flushInterval: 0,
+      client,
+      retryQueue: new FileAuditRetryQueue(queuePath),
+    });
+    sink.write(entry('settlement'));
+    await sink.flush();
+
+    expect(JSON.parse(onDisk[0]).entries[0].action).toBe('settlement');
+    expect(existsSync(queuePath)).toBe(false);
+  });
+
+  test('FileAuditRetryQueue keeps batches until they are acknowledged', async () => {
+    const queuePath = join(dir, 'audit-retry.jsonl');
+    const queue = new FileAuditRetryQueue(queuePath);
+    await queue.enqueue({ id: 'b1', entries: [entry('a')] });
+    await queue.enqueue({ id: 'b2', entries: [entry('b')] });
+
+    // A second process reading the same file sees the same batches until one is acknowledged
+    expect((await new FileAuditRetryQueue(queuePath).pending()).map((batch) => batch.id)).toEqual(['b1', 'b2']);
+    await queue.acknowledge(['b1']);
+    expect((await queue.pending()).map((batch) => batch.id)).toEqual(['b2']);
+  });
+
+  test('ConsoleAuditSink writes one line per entry to the given logger', () => {
+    const log = jest.fn();
+    new ConsoleAuditSink(log).write(entry('a'));
+    expect(log).toHaveBeenCalledWith(expect.stringMatching(/^\[Shora-SDK\] audit \{.*"action":"a"/));
+  });
+
+  test('HttpAuditSink reports background flush failures to onError instead of the console', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const onError = jest.fn();
+    const failing = { post: jest.fn().mockRejectedValue({ response: { status: 503, data: {} } }) } as any;
+    const sink = new HttpAuditSink({
+      endpoint: 'https://audit.example.com',
+      batchSize: 1,
+      flushInterval: 0,
+      client: failing,
+      retry: { maxAttempts: 1 },
+      onError,
+    });
+
+    sink.write(entry('a'));
+    await sink.flush().catch(() => undefined);
+
+    expect(onError).toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test('HttpAuditSink reports batches evicted from the default queue', async () => {
+    const onError = jest.fn();
+    const failing = { post: jest.fn().mockRejectedValue({ response: { status: 503, data: {} } }) } as any;
+    const sink = new HttpAuditSink({
+      endpoint: 'https://audit.example.com',
+      batchSize: 1,
+      flushInterval: 0,
+      client: failing,
+      retry: { maxAttempts: 1 },
+      onError,
+    });
+
+    for (let i = 0; i < 102; i++) sink.write(entry(`a${i}`));
+    await sink.flush().catch(() => undefined);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'AUDIT_BATCH_DROPPED', message: expect.stringContaining('dropped 2') }));
+  });
+
+  test('SecurityEnhancement fans entries out to configured sinks and bounds memory', async () => {
+    const extra = new MemoryAuditSink();
+    const sec = createSecurityEnhancement({
+      encryptionKey: 'test-key',
+      tenantId: 'tenant-test',
+      enableAuditLogging: true,
+      auditLogMaxEntries: 2,
+      auditSinks: [extra],
+    });
+
+    sec.logAudit('one', 'first');
+    sec.logAudit('two', 'second');
+    sec.logAudit('three', 'third');
+    await sec.flushAuditLogs();
+
+    expect(sec.getAuditLogs()).toHaveLength(2);
+    expect(extra.entries()).toHaveLength(3);
+  });
+
+  test('SecurityEnhancement reports sink failures through onAuditError', async () => {
+    const onAuditError = jest.fn();
+    const sec = createSecurityEnhancement({
+      encryptionKey: 'test-key',
+      tenantId: 'tenant-test',
+      enableAuditLogging: true,
+      auditSinks: [{ write: () => Promise.reject(new Error('disk full')) }],
+      onAuditError,
+    });
+
+    sec.logAudit('one', 'first');
+    await sec.flushAuditLogs();
+
+    expect(onAuditError).toHaveBeenCalledWith(new Error('disk full'));
+  });
+
+  test('deprecated sendAuditLog writes to the configured sinks but not the local log', async () => {
+    const extra = new MemoryAuditSink();
+    const sec = createSecurityEnhancement({ encryptionKey: 'test-key', tenantId: 'tenant-test', auditSinks: [extra] });
+
+    await sec.sendAuditLog(entry('external'));
+
+    expect(extra.entries().map((item) => item.action)).toEqual(['external']);
+    expect(sec.getAuditLogs()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { AuthService } from '../src/auth';
+import { ShoraNotFoundError } from '../src/error-handling';
+import { AxiosInstance } from 'axios';
+
+describe('AuthService mandate lifecycle', () => {
+  let authService: AuthService;
+  let mockAxios: jest.Mocked<AxiosInstance>;
+
+  const mandate = {
+    id: 'mandate-123',
+    agent_id: 'agent-123',
+    max_amount: 1000,
+    currency: 'USD',
+    status: 'active',
+    spent_amount: 250,
+    expires_at: '2025-12-31T23:59:59Z',
+    created_at: '2025-01-30T00:00:00Z',
+  };
+
+  beforeEach(() => {
+    mockAxios = {
+      post: jest.fn(),
+      get: jest.fn(),
+      patch: jest.fn(),
+    } as any;
+    authService = new AuthService(mockAxios);
+  });
+
+  test('getMandate calls correct endpoint', async () => {
+    mockAxios.get = jest.fn().mockResolvedValue({ data: mandate });
+
+    const result = await authService.getMandate('mandate-123');
+
+    expect(mockAxios.get).toHaveBeenCalledWith('/v2/agents/mandates/mandate-123');
+    expect(result.id).toBe('mandate-123');
+  });
+
+  test('getMandate maps 404 to ShoraNotFoundError', async () => {
+    mockAxios.get = jest.fn().mockRejectedValue({ response: { status: 404, data: { error: 'Mandate not found' } } });
+
+    await expect(authService.getMandate('missing')).rejects.toBeInstanceOf(ShoraNotFoundError);
+  });
+
+  test('listMandates filters by agent and status with pagination', async () => {
+    mockAxios.get = jest.fn().mockResolvedValue({ data: { mandates: [mandate], total: 1, limit: 20, offset: 0 } });
+
+    const result = await authService.listMandates({ agent_id: 'agent-123', status: 'active', limit: 20 });
+
+    expect(mockAxios.get).toHaveBeenCalledWith('/v2/agents/mandates', {
+      params: { agent_id: 'agent-123', status: 'active', limit: 20 },
+    });
+    expect(result.mandates).toHaveLength(1);
+  });
+
+  test('revokeMandate posts the reason', async () => {
+    mockAxios.post = jest.fn().mockResolvedValue({ data: { ...mandate, status: 'revoked' } });
+
+    const result = await authService.revokeMandate('mandate-123', 'user_request');
+
+    expect(mockAxios.post).toHaveBeenCalledWith('/v2/agents/mandates/mandate-123/revoke', { reason: 'user_request' });
+    expect(result.status).toBe('revoked');
+  });
+
+  test('updateMandateLimit patches max_amount', async () => {
+    mockAxios.patch = jest.fn().mockResolvedValue({ data: { ...mandate, max_amount: 500 } });
+
+    const result = await authService.updateMandateLimit('mandate-123', 500);
+
+    expect(mockAxios.patch).toHaveBeenCalledWith('/v2/agents/mandates/mandate-123', { max_amount: 500 });
+    expect(result.max_amount).toBe(500);
+  });
+
+  test('renewMandate posts the new expiry', async () => {
+    mockAxios.post = jest.fn().mockResolvedValue({ data: { ...mandate, expires_at: '2099-12-31T23:59:59Z' } });
+
+    await authService.renewMandate('mandate-123', '2099-12-31T23:59:59Z');
+
+    expect(mockAxios.post).toHaveBeenCalledWith('/v2/agents/mandates/mandate-123/renew', {
+      expires_at: '2099-12-31T23:59:59Z',
+    });
+  });
+
+  test('getMandateBalance reports remaining spend', async () => {
+    mockAxios.get = jest.fn().mockResolvedValue({ data: mandate });
+
+    const balance = await authService.getMandateBalance('mandate-123');
+
+    expect(balance).toEqual({
+      mandate_id: 'mandate-123',
+      currency: 'USD',
+      max_amount: 1000,
+      spent_amount: 250,
+      remaining_amount: 750,
+      status: 'active',
+      expires_at: '2025-12-31T23:59:59Z',
+    });
+  });
+
+  test('getMandateBalance refuses to guess when spent_amount is missing', async () => {
+    mockAxios.get = jest.fn().mockResolvedValue({ data: { ...mandate, spent_amount: undefined } });
+
+    await expect(authService.getMandateBalance('mandate-123')).rejects.toMatchObject({
+      code: 'INVALID_RESPONSE',
+      details: { spent_amount: expect.any(String) },
+    });
+  });
+});
@@ -26,14 +26,14 @@ describe('AuthService error handling', () => {
       agent_id: 'test-agent',
       max_amount: 100,
       currency: 'TRY',
-      expires_at: '2025-12-31T00:00:00Z',
+      expires_at: '2099-12-31T00:00:00Z',
     })).rejects.toThrow();
 
     expect(mockAxios.post).toHaveBeenCalledWith('/v2/agents/mandates', {
       agent_id: 'test-agent',
       max_amount: 100,
       currency: 'TRY',
-      expires_at: '2025-12-31T00:00:00Z',
+      expires_at: '2099-12-31T00:00:00Z',
     });
   });
 
@@ -0,0 +1,141 @@
+import axios from 'axios';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import ShoraSDK from '../src/index';
+import { CassetteTransport } from '../src/cassette';
+import { FakeShoraServer } from '../src/fake-server';
+import { SANDBOX_CARD_TOKENS } from '../src/sandbox';
+import { ShoraCardDeclinedError, ShoraConfigurationError } from '../src/error-handling';
+import { ShoraTransport } from '../src/transport';
+
+const offline: ShoraTransport = {
+  request: async () => {
+    throw new Error('network must not be used in replay');
+  },
+};
+
+const respond = (status: number): ShoraTransport => ({
+  request: async () => ({ status, statusText: '', headers: {}, body: '{}' }),
+});
+
+describe('cassettes', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shora-cassette-'));
+    path = join(dir, 'payments.json');
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  async function recordSession(): Promise<string> {
+    const fake = new FakeShoraServer();
+    const sdk = new ShoraSDK({ apiKey: 'sk_live_secret', cassette: { path, mode: 'record', transport: fake } });
+    const session = await sdk.createPaymentSession({ amount: 20, currency: 'USD', customer: { email: 'jane@example.org' } });
+    await sdk.processPayment(session.id, 'card', 'tok_real_card_4242');
+    await sdk.getPaymentSession(session.id);
+    await sdk.shutdown();
+    return session.id;
+  }
+
+  test('records interactions with credentials, card tokens and emails redacted', async () => {
+    await recordSession();
+    const content = readFileSync(path, 'utf8');
+    const cassette = JSON.parse(content);
+
+    expect(cassette.interactions.map((interaction: any) => `${interaction.request.method} ${interaction.request.url}`)).toEqual([
+      'POST /v2/payments/sessions',
+      'POST /v2/payments/process',
+      expect.stringMatching(/^GET \/v2\/payments\/sessions\/ps_/),
+    ]);
+    expect(cassette.interactions[0].request.headers.authorization).toBe('[REDACTED]');
+    expect(cassette.interactions[0].request.body.customer.email).toBe('redacted@example.com');
+    expect(cassette.interactions[1].request.body.cardToken).toBe('[REDACTED]');
+    expect(content).not.toContain('sk_live_secret');
+    expect(content).not.toContain('jane@example.org');
+    expect(content).not.toContain('tok_real_card_4242');
+  });
+
+  test('replays recorded interactions without touching the network', async () => {
+    const sessionId = await recordSession();
+    const sdk = new ShoraSDK({ apiKey: 'sk_other', cassette: { path, mode: 'replay', transport: offline } });
+
+    const session = await sdk.createPaymentSession({ amount: 20, currency: 'USD', customer: { email: 'jane@example.org' } });
+    expect(session.id).toBe(sessionId);
+    await expect(sdk.processPayment(session.id, 'card', 'tok_real_card_4242')).resolves.toMatchObject({ status: 'completed' });
+    await expect(sdk.getPaymentSession(session.id)).resolves.toMatchObject({ status: 'completed' });
+    // Extra polls repeat the last matching interaction
+    await expect(sdk.getPaymentSession(session.id)).resolves.toMatchObject({ status: 'completed' });
+
+    const error = await sdk.createPaymentSession({ amount: 21, currency: 'USD' }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(ShoraConfigurationError);
+    expect(error.code).toBe('CASSETTE_NO_MATCH');
+  });
+
+  test('keeps sandbox magic tokens so declines replay faithfully', async () => {
+    const fake = new FakeShoraServer();
+    const recorder = new ShoraSDK({ apiKey: 'test-key', cassette: { path, mode: 'auto', transport: fake } });
+    const session = await recorder.createPaymentSession({ amount: 20, currency: 'USD' });
+    await recorder.processPayment(session.id, 'card', SANDBOX_CARD_TOKENS.insufficient_funds).catch(() => undefined);
+    await recorder.shutdown();
+
+    expect(new CassetteTransport({ path, mode: 'auto' }).mode).toBe('replay');
+    const sdk = new ShoraSDK({ apiKey: 'test-key', cassette: { path, mode: 'auto', transport: offline } });
+    await sdk.createPaymentSession({ amount: 20, currency: 'USD' });
+    await expect(sdk.processPayment(session.id, 'card', SANDBOX_CARD_TOKENS.insufficient_funds)).rejects.toMatchObject({
+      constructor: ShoraCardDeclinedError,
+      declineCode: 'insufficient_funds',
+    });
+  });
+
+  test('redacts issued agent tokens in responses and replays the agent flow', async () => {
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const agentFlow = async (sdk: ShoraSDK) => {
+      const mandate = await sdk.auth.createMandate({ agent_id: 'agent-1', max_amount: 100, currency: 'USD', expires_at: expiresAt });
+      const token = await sdk.auth.generateToken({ mandate_id: mandate.id, amount: 60, currency: 'USD' });
+      return { token, payment: await sdk.auth.pay({ token: token.value, amount: 60, currency: 'USD' }) };
+    };
+    const recorder = new ShoraSDK({ apiKey: 'test-key', cassette: { path, mode: 'record', transport: new FakeShoraServer() } });
+    const { token } = await agentFlow(recorder);
+    await recorder.shutdown();
+
+    expect(readFileSync(path, 'utf8')).not.toContain(token.value);
+    const sdk = new ShoraSDK({ apiKey: 'test-key', cassette: { path, mode: 'replay', transport: offline } });
+    await expect(agentFlow(sdk)).resolves.toMatchObject({ token: { value: '[REDACTED]' }, payment: { status: 'completed' } });
+  });
+
+  test('redacts credentials in query strings and still replays them', async () => {
+    const recorder = new CassetteTransport({ path, mode: 'record', transport: respond(200), secrets: ['sk_live_secret'] });
+    await recorder.request({ method: 'GET', url: 'https://api.example/v2/reports?api_key=abc123&page=2', headers: {} });
+    await recorder.request({ method: 'GET', url: '/v2/reports/sk_live_secret?key=xyz', headers: {} });
+
+    const content = readFileSync(path, 'utf8');
+    expect(content).not.toContain('abc123');
+    expect(content).not.toContain('xyz');
+    expect(content).not.toContain('sk_live_secret');
+    expect(JSON.parse(content).interactions[0].request.url).toBe('/v2/reports?api_key=%5BREDACTED%5D&page=2');
+
+    const player = new CassetteTransport({ path, mode: 'replay', transport: offline });
+    await expect(player.request({ method: 'GET', url: '/v2/reports?api_key=other&page=2', headers: {} })).resolves.toMatchObject({ status: 200 });
+  });
+
+  test('ignores time-dependent body fields when matching', async () => {
+    const body = (timestamp: string, reference: string) => JSON.stringify({ amount: 5, timestamp, meta: { nonce: timestamp, reference } });
+    const recorder = new CassetteTransport({ path, mode: 'record', transport: respond(201), ignoreFields: ['reference'] });
+    await recorder.request({ method: 'POST', url: '/v2/mandates', headers: {}, body: body('2026-01-01T00:00:00Z', 'a') });
+
+    const player = new CassetteTransport({ path, mode: 'replay', transport: offline, ignoreFields: ['reference'] });
+    await expect(player.request({ method: 'POST', url: '/v2/mandates', headers: {}, body: body('2026-10-19T12:00:00Z', 'b') }))
+      .resolves.toMatchObject({ status: 201 });
+    await expect(player.request({ method: 'POST', url: '/v2/mandates', headers: {}, body: JSON.stringify({ amount: 6 }) }))
+      .rejects.toMatchObject({ code: 'CASSETTE_NO_MATCH' });
+  });
+
+  test('refuses a cassette together with a custom httpClient', () => {
+    expect(() => new ShoraSDK({ apiKey: 'test-key', cassette: { path } }, axios.create())).toThrow(
+      expect.objectContaining({ code: 'CASSETTE_WITH_HTTP_CLIENT' })
+    );
+  });
+});
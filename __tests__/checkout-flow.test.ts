@@ -0,0 +1,194 @@
+import { CheckoutFlow } from '../src/checkout-flow';
+import { ShoraNetworkError, ShoraError } from '../src/error-handling';
+import { PaymentService, CheckoutIntentResponse } from '../src/payments';
+
+describe('CheckoutFlow', () => {
+  const request = { amount: 2500, currency: 'eur', description: 'Headphones' };
+
+  const intent = (id: string, expiresIn = 15 * 60 * 1000): CheckoutIntentResponse => ({
+    intent_id: id,
+    status: 'pending',
+    amount: 2500,
+    currency: 'EUR',
+    expires_at: new Date(Date.now() + expiresIn).toISOString(),
+    created_at: new Date().toISOString(),
+  });
+
+  const createPayments = () => ({
+    createCheckoutIntent: jest.fn().mockResolvedValue(intent('intent_1')),
+    getSupportedMethods: jest.fn().mockResolvedValue({
+      payment_methods: [
+        { type: 'card', name: 'Card', supported: true, currencies: ['USD', 'EUR'] },
+        { type: 'sepa', name: 'SEPA', supported: true, currencies: ['EUR'] },
+        { type: 'ideal', name: 'iDEAL', supported: false, currencies: ['EUR'] },
+      ],
+    }),
+    confirmCheckout: jest.fn().mockResolvedValue({
+      id: 'pay_1', status: 'completed', amount: 2500, currency: 'EUR', receipt_id: 'rcpt_1', created_at: '', updated_at: '',
+    }),
+    getPaymentSession: jest.fn(),
+    getReceipt: jest.fn().mockResolvedValue({
+      receipt_id: 'rcpt_1', payment_id: 'pay_1', amount: 2500, currency: 'EUR', status: 'completed', created_at: '',
+    }),
+  });
+
+  test('drives intent, method selection, confirmation and receipt', async () => {
+    const payments = createPayments();
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request, { preferredMethods: ['ideal', 'sepa'] });
+
+    const state = await flow.run();
+
+    expect(state.status).toBe('completed');
+    expect(state.payment_method).toBe('sepa');
+    expect(state.receipt?.receipt_id).toBe('rcpt_1');
+    expect(state.history.map((t) => t.to)).toEqual(['intent_created', 'method_selected', 'confirmed', 'completed']);
+    expect(payments.confirmCheckout).toHaveBeenCalledWith(
+      expect.objectContaining({ intent_id: 'intent_1', payment_method: 'sepa' }),
+      { idempotencyKey: state.confirm_idempotency_key }
+    );
+  });
+
+  test('waits for a pending payment before fetching the receipt', async () => {
+    const payments = createPayments();
+    const pending = { id: 'pay_1', status: 'pending', amount: 2500, currency: 'EUR', created_at: '', updated_at: '' };
+    payments.confirmCheckout.mockResolvedValueOnce(pending);
+    payments.getPaymentSession
+      .mockResolvedValueOnce(pending)
+      .mockResolvedValueOnce({ ...pending, status: 'completed', receipt_id: 'rcpt_1' });
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request, { wait: { interval: 1 } });
+
+    const state = await flow.run();
+
+    expect(state.status).toBe('completed');
+    expect(state.history.map((t) => t.to)).toEqual(['intent_created', 'method_selected', 'awaiting_payment', 'confirmed', 'completed']);
+    expect(payments.getReceipt).toHaveBeenCalledWith('rcpt_1');
+  });
+
+  test('stops in awaiting_payment when the wait times out and continues on the next run', async () => {
+    const payments = createPayments();
+    const pending = { id: 'pay_1', status: 'pending', amount: 2500, currency: 'EUR', created_at: '', updated_at: '' };
+    payments.confirmCheckout.mockResolvedValueOnce(pending);
+    payments.getPaymentSession.mockResolvedValue(pending);
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request, { wait: { timeout: 0 } });
+
+    expect((await flow.run()).status).toBe('awaiting_payment');
+    expect(payments.getReceipt).not.toHaveBeenCalled();
+
+    payments.getPaymentSession.mockResolvedValue({ ...pending, status: 'failed' });
+    expect(await flow.run()).toMatchObject({ status: 'failed', error: { code: 'PAYMENT_FAILED' } });
+    expect(payments.confirmCheckout).toHaveBeenCalledTimes(1);
+  });
+
+  test('stays confirmed with a retryable error while the receipt_id is missing', async () => {
+    const payments = createPayments();
+    const paid = { id: 'pay_1', status: 'completed', amount: 2500, currency: 'EUR', created_at: '', updated_at: '' };
+    payments.confirmCheckout.mockResolvedValueOnce(paid);
+    payments.getPaymentSession.mockResolvedValueOnce(paid).mockResolvedValueOnce({ ...paid, receipt_id: 'rcpt_1' });
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request);
+
+    await expect(flow.run()).rejects.toMatchObject({ code: 'RECEIPT_MISSING', retryable: true });
+    expect(flow.status).toBe('confirmed');
+    expect(payments.getReceipt).not.toHaveBeenCalled();
+
+    expect((await flow.run()).status).toBe('completed');
+    expect(payments.getReceipt).toHaveBeenCalledWith('rcpt_1');
+    expect(payments.confirmCheckout).toHaveBeenCalledTimes(1);
+  });
+
+  test('never reports failed after the payment settled', async () => {
+    const payments = createPayments();
+    payments.getReceipt.mockRejectedValueOnce(new ShoraError('Receipt not found', 404, 'NOT_FOUND'));
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request);
+
+    await expect(flow.run()).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(flow.status).toBe('confirmed');
+  });
+
+  test('cancels a pending payment through the API', async () => {
+    const payments = { ...createPayments(), cancelPaymentSession: jest.fn() };
+    const pending = { id: 'pay_1', status: 'pending', amount: 2500, currency: 'EUR', created_at: '', updated_at: '' };
+    payments.confirmCheckout.mockResolvedValueOnce(pending);
+    payments.getPaymentSession.mockResolvedValue(pending);
+    payments.cancelPaymentSession.mockResolvedValueOnce({ ...pending, status: 'cancelled' });
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request, { wait: { timeout: 0 } });
+    await flow.run();
+
+    expect(await flow.cancel()).toMatchObject({ status: 'cancelled', error: { code: 'PAYMENT_CANCELLED' } });
+    expect(payments.cancelPaymentSession).toHaveBeenCalledWith('pay_1');
+  });
+
+  test('leaves a paid flow alone on cancel', async () => {
+    const payments = createPayments();
+    payments.getReceipt.mockRejectedValueOnce(new ShoraNetworkError('socket hang up'));
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request);
+    await expect(flow.run()).rejects.toBeInstanceOf(ShoraNetworkError);
+
+    expect((await flow.cancel()).status).toBe('confirmed');
+  });
+
+  test('pauses for confirmation and resumes from serialized state', async () => {
+    const payments = createPayments();
+    const onTransition = jest.fn(({ to }) => to !== 'confirmed');
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request, { hooks: { onTransition } });
+
+    const paused = await flow.run();
+    expect(paused).toMatchObject({ status: 'method_selected', paused_before: 'confirmed' });
+    expect(payments.confirmCheckout).not.toHaveBeenCalled();
+
+    const resumed = CheckoutFlow.resume(payments as unknown as PaymentService, JSON.stringify(paused), { hooks: { onTransition } });
+    const state = await resumed.run({ approve: true });
+
+    expect(state.status).toBe('completed');
+    expect(payments.createCheckoutIntent).toHaveBeenCalledTimes(1);
+  });
+
+  test('re-creates the intent when it has expired', async () => {
+    const payments = createPayments();
+    payments.createCheckoutIntent
+      .mockResolvedValueOnce(intent('intent_old', -1000))
+      .mockResolvedValueOnce(intent('intent_new'));
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request);
+
+    const state = await flow.run();
+
+    expect(state.status).toBe('completed');
+    expect(state.intent?.intent_id).toBe('intent_new');
+    expect(state.intent_recreations).toBe(1);
+    const [firstKey, secondKey] = payments.createCheckoutIntent.mock.calls.map((call) => call[1].idempotencyKey);
+    expect(firstKey).not.toBe(secondKey);
+  });
+
+  test('re-creates the intent when confirmation reports it expired', async () => {
+    const payments = createPayments();
+    payments.createCheckoutIntent.mockResolvedValueOnce(intent('intent_old')).mockResolvedValueOnce(intent('intent_new'));
+    payments.confirmCheckout.mockRejectedValueOnce(new ShoraError('Intent expired', 410, 'INTENT_EXPIRED'));
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request);
+
+    expect((await flow.run()).status).toBe('completed');
+    expect(payments.confirmCheckout).toHaveBeenLastCalledWith(expect.objectContaining({ intent_id: 'intent_new' }), expect.anything());
+  });
+
+  test('fails when no method supports the currency', async () => {
+    const payments = createPayments();
+    payments.createCheckoutIntent.mockResolvedValueOnce({ ...intent('intent_1'), currency: 'JPY' });
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, { ...request, currency: 'JPY' });
+
+    const state = await flow.run();
+
+    expect(state.status).toBe('failed');
+    expect(state.error?.code).toBe('NO_PAYMENT_METHOD');
+  });
+
+  test('rethrows retryable errors and resumes with the same idempotency key', async () => {
+    const payments = createPayments();
+    payments.confirmCheckout.mockRejectedValueOnce(new ShoraNetworkError('socket hang up'));
+    const flow = new CheckoutFlow(payments as unknown as PaymentService, request);
+
+    await expect(flow.run()).rejects.toBeInstanceOf(ShoraNetworkError);
+    expect(flow.status).toBe('method_selected');
+
+    expect((await flow.run()).status).toBe('completed');
+    const keys = payments.confirmCheckout.mock.calls.map((call) => call[1].idempotencyKey);
+    expect(keys[0]).toBe(keys[1]);
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  parseError,
+  isRetryableError,
+  ShoraError,
+  ShoraAuthError,
+  ShoraValidationError,
+  ShoraNotFoundError,
+  ShoraCardDeclinedError,
+  ShoraAuthenticationRequiredError,
+  ShoraRateLimitError,
+  ShoraServerError,
+  ShoraNetworkError,
+  ShoraCircuitOpenError,
+} from '../src/error-handling';
+import { CircuitBreaker } from '../src/retry-logic';
+
+describe('parseError', () => {
+  const responseError = (status: number, data: Record<string, any> = {}, headers: Record<string, string> = {}) => ({
+    message: `Request failed with status code ${status}`,
+    response: { status, data, headers },
+  });
+
+  test('maps status codes onto error subclasses', () => {
+    expect(parseError(responseError(401))).toBeInstanceOf(ShoraAuthError);
+    expect(parseError(responseError(403))).toBeInstanceOf(ShoraAuthError);
+    expect(parseError(responseError(404))).toBeInstanceOf(ShoraNotFoundError);
+    expect(parseError(responseError(503))).toBeInstanceOf(ShoraServerError);
+    expect(parseError({ request: {} })).toBeInstanceOf(ShoraNetworkError);
+    expect(parseError(responseError(418))).toBeInstanceOf(ShoraError);
+  });
+
+  test('carries validation details from the error response', () => {
+    const error = parseError(
+      responseError(400, {
+        error: 'Invalid request',
+        code: 'VALIDATION_ERROR',
+        details: { currency: 'Unsupported currency' },
+      })
+    );
+
+    expect(error).toBeInstanceOf(ShoraValidationError);
+    expect(error.message).toBe('Invalid request');
+    expect((error as ShoraValidationError).details).toEqual({ currency: 'Unsupported currency' });
+  });
+
+  test('recognises card declines by status or code', () => {
+    const byStatus = parseError(responseError(402, { error: 'Card declined', decline_code: 'insufficient_funds' }));
+    const byCode = parseError(responseError(400, { error: 'Expired card', code: 'expired_card' }));
+
+    expect(byStatus).toBeInstanceOf(ShoraCardDeclinedError);
+    expect((byStatus as ShoraCardDeclinedError).declineCode).toBe('insufficient_funds');
+    expect(byCode).toBeInstanceOf(ShoraCardDeclinedError);
+    expect((byCode as ShoraCardDeclinedError).declineCode).toBe('expired_card');
+  });
+
+  test('separates 3-D Secure challenges from declines', () => {
+    const error = parseError(
+      responseError(402, {
+        message: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED',
+        next_action: { type: 'redirect_to_url', redirect_url: 'https://issuer.example/3ds' },
+      })
+    );
+
+    expect(error).toBeInstanceOf(ShoraAuthenticationRequiredError);
+    expect(error).not.toBeInstanceOf(ShoraCardDeclinedError);
+    expect((error as ShoraAuthenticationRequiredError).redirectUrl).toBe('https://issuer.example/3ds');
+  });
+
+  test('includes reset time and Retry-After on rate limit errors', () => {
+    const error = parseError(
+      responseError(429, { error: 'Too many requests' }, { 'retry-after': '5', 'x-ratelimit-reset': '1738195200' })
+    ) as ShoraRateLimitError;
+
+    expect(error).toBeInstanceOf(ShoraRateLimitError);
+    expect(error.retryAfter).toBe(5000);
+    expect(error.resetAt?.toISOString()).toBe('2025-01-30T00:00:00.000Z');
+  });
+
+  test('preserves request and correlation ids', () => {
+    const error = parseError(
+      responseError(500, { error: 'Boom', correlation_id: 'corr-123' }, { 'x-request-id': 'req-456' })
+    );
+
+    expect(error.requestId).toBe('req-456');
+    expect(error.correlationId).toBe('corr-123');
+  });
+
+  test('flags timeouts as network errors', () => {
+    const error = parseError({ request: {}, code: 'ECONNABORTED' });
+    expect(error).toBeInstanceOf(ShoraNetworkError);
+    expect(error.code).toBe('TIMEOUT');
+  });
+});
+
+describe('isRetryableError', () => {
+  test('is driven by the error class', () => {
+    expect(isRetryableError(new ShoraNetworkError('offline'))).toBe(true);
+    expect(isRetryableError(new ShoraServerError('boom'))).toBe(true);
+    expect(isRetryableError(new ShoraRateLimitError('slow down'))).toBe(true);
+    expect(isRetryableError(new ShoraValidationError('bad'))).toBe(false);
+    expect(isRetryableError(new ShoraCircuitOpenError('payments.sessions'))).toBe(false);
+    expect(isRetryableError({ response: { status: 502, data: {} } })).toBe(true);
+  });
+});
+
+describe('CircuitBreaker errors', () => {
+  test('throws ShoraCircuitOpenError when open', async () => {
+    const breaker = new CircuitBreaker('payments.process', { failureThreshold: 1 });
+    await breaker.execute(() => Promise.reject(new ShoraServerError('boom'))).catch(() => undefined);
+
+    const error = await breaker.execute(() => Promise.resolve('ok')).catch((e) => e);
+    expect(error).toBeInstanceOf(ShoraCircuitOpenError);
+    expect(error.circuit).toBe('payments.process');
+  });
+});
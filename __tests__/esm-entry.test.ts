@@ -0,0 +1,28 @@
+import { execFileSync } from 'child_process';
+import { rmSync } from 'fs';
+import { join } from 'path';
+
+// Builds the ES module entry the way `npm run build:esm` does and loads it in a separate Node ESM process
+describe('ES module entry', () => {
+  const root = join(__dirname, '..');
+  // Inside the package so the build resolves dependencies from its node_modules
+  const outDir = join(root, 'dist', 'esm-test');
+
+  beforeAll(() => {
+    execFileSync(process.execPath, [require.resolve('typescript/bin/tsc'), '-p', 'tsconfig.esm.json', '--outDir', outDir], { cwd: root });
+    execFileSync(process.execPath, ['scripts/esm-package.js', outDir], { cwd: root });
+  }, 120000);
+
+  afterAll(() => rmSync(outDir, { recursive: true, force: true }));
+
+  test('loads under node --input-type=module and uses Node crypto', () => {
+    const script = `
+      import ShoraSDK, { Money } from ${JSON.stringify(`file://${join(outDir, 'index.esm.js')}`)};
+      const sdk = new ShoraSDK({ apiKey: 'test-key', baseUrl: 'http://localhost:1', encryptionKey: 'a'.repeat(64) });
+      const token = sdk.encryptToken('tok_1');
+      console.log(JSON.stringify({ minor: Money.of(1.5, 'USD').minor, decrypted: sdk.decryptToken(token) }));
+    `;
+    const output = execFileSync(process.execPath, ['--input-type=module', '-e', script], { cwd: root, encoding: 'utf8' });
+    expect(JSON.parse(output)).toEqual({ minor: 150, decrypted: 'tok_1' });
+  });
+});
@@ -0,0 +1,128 @@
+import ShoraSDK from '../src/index';
+import { FakeShoraServer } from '../src/fake-server';
+import { ShoraAuthError, ShoraConflictError, ShoraValidationError } from '../src/error-handling';
+
+const FUTURE = '2099-01-01T00:00:00Z';
+
+describe('FakeShoraServer', () => {
+  let fake: FakeShoraServer;
+  let sdk: ShoraSDK;
+
+  beforeEach(() => {
+    fake = new FakeShoraServer({
+      apiKey: 'test-key',
+      webhookSecret: 'whsec_test',
+      onWebhook: ({ payload, headers }) => sdk.webhooks.handle(payload, headers['x-webhook-signature']),
+    });
+    sdk = new ShoraSDK({ apiKey: 'test-key', webhookSecret: 'whsec_test' }, fake.httpClient());
+  });
+
+  test('payment sessions move from pending to completed and can be refunded', async () => {
+    const session = await sdk.createPaymentSession({ amount: 25, currency: 'USD' });
+    expect(session).toMatchObject({ status: 'pending', amount: 25 });
+
+    const completed = jest.fn();
+    sdk.webhooks.on('payment.completed', completed);
+    fake.completePayment(session.id);
+    await fake.flushWebhooks();
+    expect(completed).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ payment_id: session.id }) }));
+
+    const paid = await sdk.getPaymentSession(session.id);
+    expect(paid.status).toBe('completed');
+    await expect(sdk.getReceipt(paid.receipt_id!)).resolves.toMatchObject({ status: 'completed', amount: 25 });
+
+    await sdk.refundPayment({ payment_id: session.id, amount: 10 });
+    await expect(sdk.refundPayment({ payment_id: session.id, amount: 20 })).rejects.toMatchObject({
+      code: 'REFUND_EXCEEDS_PAYMENT',
+      details: { amount: 'At most 15 can be refunded' },
+    });
+    await sdk.refundPayment({ payment_id: session.id });
+    await expect(sdk.getReceipt(paid.receipt_id!)).resolves.toMatchObject({ status: 'refunded' });
+    await expect(sdk.listRefunds({ payment_id: session.id })).resolves.toMatchObject({ total: 2 });
+    await expect(sdk.cancelPaymentSession(session.id)).rejects.toBeInstanceOf(ShoraConflictError);
+  });
+
+  test('a retried request whose response was lost is not applied twice', async () => {
+    fake.injectFailure({ path: '/v2/payments/process', timeout: true, applied: true });
+
+    const session = await sdk.createPaymentSession({ amount: 10, currency: 'USD' });
+    const payment = await sdk.processPayment(session.id, 'card', 'tok_visa', { idempotencyKey: 'order-1' });
+
+    const attempts = fake.requests.filter((request) => request.url.endsWith('/v2/payments/process'));
+    expect(attempts).toHaveLength(2);
+    expect(fake.webhooks.filter((delivery) => delivery.event.event === 'payment.completed')).toHaveLength(1);
+    await expect(sdk.getPaymentSession(payment.id)).resolves.toMatchObject({ status: 'completed' });
+    await expect(sdk.processPayment(session.id, 'wallet', undefined, { idempotencyKey: 'order-1' })).rejects.toMatchObject({
+      code: 'IDEMPOTENCY_KEY_REUSED',
+    });
+  });
+
+  test('retries injected 429 and 5xx responses', async () => {
+    fake.injectFailure({ path: '/v1/acp/checkout-intent', status: 429, retryAfter: 0 });
+    fake.injectFailure({ path: '/v1/acp/checkout-intent', status: 503 });
+
+    await expect(sdk.createCheckoutIntent({ amount: 5, currency: 'EUR' })).resolves.toMatchObject({ status: 'pending' });
+    expect(fake.requests).toHaveLength(3);
+  });
+
+  test('enforces mandate limits, single-use tokens and revocation', async () => {
+    const mandate = await sdk.auth.createMandate({ agent_id: 'agent-1', max_amount: 100, currency: 'USD', expires_at: FUTURE });
+    const token = await sdk.auth.generateToken({ mandate_id: mandate.id, amount: 60, currency: 'USD' });
+    await sdk.auth.pay({ token: token.value, amount: 60, currency: 'USD' });
+
+    await expect(sdk.auth.pay({ token: token.value, amount: 60, currency: 'USD' })).rejects.toBeInstanceOf(ShoraAuthError);
+    await expect(sdk.auth.generateToken({ mandate_id: mandate.id, amount: 50, currency: 'USD' })).rejects.toMatchObject({
+      code: 'MANDATE_LIMIT_EXCEEDED',
+    });
+    await expect(sdk.auth.getMandateBalance(mandate.id)).resolves.toMatchObject({ spent_amount: 60, remaining_amount: 40 });
+
+    const revoked = jest.fn();
+    sdk.webhooks.on('mandate.revoked', revoked);
+    await sdk.auth.revokeMandate(mandate.id);
+    await fake.flushWebhooks();
+    expect(revoked).toHaveBeenCalled();
+    await expect(sdk.auth.generateToken({ mandate_id: mandate.id, amount: 1, currency: 'USD' })).rejects.toMatchObject({
+      code: 'MANDATE_REVOKED',
+    });
+  });
+
+  test('expires checkout intents as its clock advances', async () => {
+    const intent = await sdk.createCheckoutIntent({ amount: 5, currency: 'USD' });
+    fake.advanceTime(31 * 60 * 1000);
+
+    await expect(sdk.confirmCheckout({ intent_id: intent.intent_id, payment_method: 'card' })).rejects.toMatchObject({
+      status: 410,
+      code: 'INTENT_EXPIRED',
+    });
+    expect(fake.webhooks.map((delivery) => delivery.event.event)).toEqual(['checkout.expired']);
+    // Stamped with the fake's clock, so it falls outside the SDK's default five minute tolerance
+    const [delivery] = fake.webhooks;
+    expect(Date.parse(delivery.event.timestamp) - Date.now()).toBeGreaterThan(30 * 60 * 1000);
+    await expect(sdk.webhooks.handle(delivery.payload, delivery.headers['x-webhook-signature'])).rejects.toMatchObject({
+      code: 'WEBHOOK_TIMESTAMP_INVALID',
+    });
+    await fake.flushWebhooks();
+  });
+
+  test('rejects invalid requests and API keys like the API', async () => {
+    const unchecked = new ShoraSDK({ apiKey: 'test-key', validateRequests: false }, fake.httpClient());
+    await expect(unchecked.createPaymentSession({ amount: -1, currency: 'USD' })).rejects.toMatchObject({
+      details: { amount: 'Must be greater than 0' },
+    });
+    await expect(unchecked.createPaymentSession({ amount: -1, currency: 'USD' })).rejects.toBeInstanceOf(ShoraValidationError);
+
+    const wrongKey = new ShoraSDK({ apiKey: 'other-key', transport: fake });
+    await expect(wrongKey.getSupportedMethods()).rejects.toBeInstanceOf(ShoraAuthError);
+  });
+
+  test('serves the same API over local HTTP', async () => {
+    const baseUrl = await fake.listen();
+    try {
+      const client = new ShoraSDK({ apiKey: 'test-key', baseUrl, transport: 'axios' });
+      const session = await client.createPaymentSession({ amount: 12, currency: 'EUR' });
+      await expect(client.getPaymentSession(session.id)).resolves.toMatchObject({ id: session.id, status: 'pending' });
+    } finally {
+      await fake.close();
+    }
+  });
+});
@@ -0,0 +1,154 @@
+import axios from 'axios';
+import { generateKeyPairSync } from 'crypto';
+import ShoraSDK from '../src/index';
+import { HttpMessageSigner, verifyHttpMessageSignature, SignableRequest } from '../src/http-signatures';
+import { ShoraConfigurationError } from '../src/error-handling';
+
+describe('HTTP message signatures', () => {
+  const ed25519 = generateKeyPairSync('ed25519');
+  const p256 = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const keys = { 'agent-ed25519': ed25519.publicKey, 'agent-p256': p256.publicKey };
+
+  const request: SignableRequest = {
+    method: 'post',
+    url: 'https://api.shora.cloud/v2/agents/pay?mode=live',
+    headers: { 'content-type': 'application/json' },
+    body: '{"amount":100}',
+  };
+
+  const signed = (signer: HttpMessageSigner, req: SignableRequest = request): SignableRequest => ({
+    ...req,
+    headers: { ...req.headers, ...signer.sign(req) },
+  });
+
+  test('verifies the RFC 9421 Ed25519 test vector', async () => {
+    const result = await verifyHttpMessageSignature(
+      {
+        method: 'POST',
+        url: 'https://example.com/foo?param=Value&Pet=dog',
+        headers: {
+          date: 'Tue, 20 Apr 2021 02:07:55 GMT',
+          'content-type': 'application/json',
+          'content-length': '18',
+          'signature-input': 'sig-b26=("date" "@method" "@path" "@authority" "content-type" "content-length");created=1618884473;keyid="test-key-ed25519"',
+          signature: 'sig-b26=:wqcAqbmYJ2ji2glfAMaRy4gruYYnx2nEFN2HN6jrnDnQCK1u02Gb04v9EDgwUPiu4A0w6vuQv5lIp5WPpBKRCw==:',
+        },
+      },
+      {
+        keys: {
+          'test-key-ed25519': '-----BEGIN PUBLIC KEY-----\nMCowBQYDK2VwAyEAJrQLj5P/89iXES9+vFgrIy29clF9CC/oPPsw3c5D0bs=\n-----END PUBLIC KEY-----\n',
+        },
+        requiredComponents: ['@method', '@path', '@authority'], // The vector does not cover its body
+        now: 1618884473000,
+      }
+    );
+    expect(result).toMatchObject({ valid: true, keyId: 'test-key-ed25519' });
+  });
+
+  test.each([
+    ['agent-ed25519', ed25519.privateKey, 'ed25519'],
+    ['agent-p256', p256.privateKey, 'ecdsa-p256-sha256'],
+  ])('signs and verifies with %s', async (keyId, privateKey, alg) => {
+    const signer = new HttpMessageSigner({ keyId, privateKey, signatureAgent: 'https://agent.example.com' });
+    const result = await verifyHttpMessageSignature(signed(signer), {
+      keys,
+      requiredComponents: ['@method', '@path', 'content-digest', 'signature-agent'],
+    });
+
+    expect(result).toMatchObject({ valid: true, keyId, params: { alg } });
+  });
+
+  test('rejects modified requests and bodies', async () => {
+    const signer = new HttpMessageSigner({ keyId: 'agent-ed25519', privateKey: ed25519.privateKey });
+    const original = signed(signer);
+
+    expect(await verifyHttpMessageSignature({ ...original, url: 'https://api.shora.cloud/v2/agents/refund' }, { keys }))
+      .toMatchObject({ valid: false, reason: 'invalid_signature' });
+    expect(await verifyHttpMessageSignature({ ...original, body: '{"amount":100000}' }, { keys }))
+      .toMatchObject({ valid: false, reason: 'digest_mismatch' });
+    expect(await verifyHttpMessageSignature({ ...original, body: undefined }, { keys }))
+      .toMatchObject({ valid: false, reason: 'digest_mismatch' });
+  });
+
+  test('requires the default components, including content-digest for requests with a body', async () => {
+    const signer = new HttpMessageSigner({ keyId: 'agent-ed25519', privateKey: ed25519.privateKey, components: ['@method', '@path'] });
+
+    expect(await verifyHttpMessageSignature(signed(signer), { keys }))
+      .toMatchObject({ valid: false, reason: 'missing_component', error: 'Signature does not cover @authority, content-digest' });
+  });
+
+  test('takes the algorithm from the key, not the alg parameter', async () => {
+    const signer = new HttpMessageSigner({ keyId: 'agent-ed25519', privateKey: ed25519.privateKey });
+    const req = signed(signer);
+    const headers = { ...req.headers, 'Signature-Input': req.headers!['Signature-Input'].replace('alg="ed25519"', 'alg="ecdsa-p256-sha256"') };
+
+    expect(await verifyHttpMessageSignature({ ...req, headers }, { keys }))
+      .toMatchObject({ valid: false, reason: 'invalid_signature', error: expect.stringContaining('does not match') });
+    expect(await verifyHttpMessageSignature(req, { keys: { 'agent-ed25519': p256.publicKey } }))
+      .toMatchObject({ valid: false, reason: 'invalid_signature', error: expect.stringContaining('does not match') });
+  });
+
+  test('keeps quoted parameter values that contain =', async () => {
+    const keyId = 'a2V5LWlkPQ=='; // Base64 key ids end in padding
+    const signer = new HttpMessageSigner({ keyId, privateKey: ed25519.privateKey });
+
+    expect(await verifyHttpMessageSignature(signed(signer), { keys: { [keyId]: ed25519.publicKey } }))
+      .toMatchObject({ valid: true, keyId });
+  });
+
+  test('rejects expired signatures and unknown keys', async () => {
+    const signer = new HttpMessageSigner({ keyId: 'agent-ed25519', privateKey: ed25519.privateKey, expiresIn: 60 });
+    const req = signed(signer);
+
+    expect(await verifyHttpMessageSignature(req, { keys, now: Date.now() + 120_000 }))
+      .toMatchObject({ valid: false, reason: 'expired' });
+    expect(await verifyHttpMessageSignature(req, { keys: {} })).toMatchObject({ valid: false, reason: 'unknown_key' });
+    expect(await verifyHttpMessageSignature(request, { keys })).toMatchObject({ valid: false, reason: 'missing_signature' });
+  });
+
+  test('builds verifyTrust requests from signed headers', () => {
+    const signer = new HttpMessageSigner({
+      keyId: 'agent-ed25519',
+      privateKey: ed25519.privateKey,
+      signatureAgent: 'https://agent.example.com',
+    });
+    const trust = signer.createTrustVerificationRequest(request, { session_id: 'sess_1' });
+
+    expect(trust.signature_agent).toBe('https://agent.example.com');
+    expect(trust.signature_input).toMatch(/^sig1=\("@method" "@authority" "@path" "content-digest" "signature-agent"\);created=\d+;keyid="agent-ed25519";alg="ed25519";nonce="/);
+    expect(trust.signature).toMatch(/^sig1=:.+:$/);
+    expect(trust.session_id).toBe('sess_1');
+  });
+});
+
+describe('ShoraSDK tapTrustEnabled', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+
+  test('signs every outgoing request', async () => {
+    const sent: SignableRequest[] = [];
+    const client = axios.create({
+      baseURL: 'https://api.shora.cloud',
+      adapter: async (config) => {
+        sent.push({ method: config.method!, url: axios.getUri(config), headers: config.headers.toJSON(), body: config.data });
+        return { data: { status: 'ok' }, status: 200, statusText: 'OK', headers: {}, config };
+      },
+    });
+    const sdk = new ShoraSDK(
+      { apiKey: 'test-key', baseUrl: 'https://api.shora.cloud', tapTrustEnabled: true, tapSigner: { keyId: 'agent-1', privateKey } },
+      client
+    );
+
+    await sdk.healthCheck();
+    await sdk.auth.pay({ token: 'tok_1', amount: 100, currency: 'USD' } as any);
+
+    expect(sent).toHaveLength(2);
+    for (const req of sent) {
+      expect(await verifyHttpMessageSignature(req, { keys: { 'agent-1': publicKey } })).toMatchObject({ valid: true });
+    }
+    expect(sent[1].headers?.['Content-Digest']).toMatch(/^sha-256=:/);
+  });
+
+  test('requires a signer when tapTrustEnabled is set', () => {
+    expect(() => new ShoraSDK({ apiKey: 'test-key', tapTrustEnabled: true })).toThrow(ShoraConfigurationError);
+  });
+});
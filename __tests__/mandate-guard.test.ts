@@ -0,0 +1,179 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthService } from '../src/auth';
+import { MandateGuard, FileMandateLedgerStore } from '../src/mandate-guard';
+import { ShoraMandateGuardError } from '../src/error-handling';
+import { AxiosInstance } from 'axios';
+
+describe('MandateGuard', () => {
+  let mockAxios: jest.Mocked<AxiosInstance>;
+  let guard: MandateGuard;
+  let authService: AuthService;
+
+  const mandate = {
+    id: 'mandate-123',
+    agent_id: 'agent-123',
+    max_amount: 100,
+    currency: 'USD',
+    status: 'active' as const,
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    created_at: '2025-01-30T00:00:00Z',
+  };
+
+  const issueToken = async (value: string, amount: number) => {
+    mockAxios.post.mockResolvedValueOnce({
+      data: { id: `id-${value}`, mandate_id: 'mandate-123', value, expires_at: mandate.expires_at, created_at: mandate.created_at },
+    });
+    return authService.generateToken({ mandate_id: 'mandate-123', amount, currency: 'USD' });
+  };
+
+  beforeEach(async () => {
+    mockAxios = { post: jest.fn(), get: jest.fn(), patch: jest.fn() } as any;
+    guard = new MandateGuard();
+    authService = new AuthService(mockAxios, { mandateGuard: guard });
+    await guard.trackMandate(mandate);
+  });
+
+  test('accumulates spend across tokens and payments', async () => {
+    await issueToken('tok-1', 60);
+    mockAxios.post.mockResolvedValueOnce({ data: { id: 'pay-1', status: 'completed', amount: 60, currency: 'USD' } });
+    await authService.pay({ token: 'tok-1', amount: 60, currency: 'USD' });
+
+    expect(await guard.getRemaining('mandate-123')).toBe(40);
+    await expect(authService.generateToken({ mandate_id: 'mandate-123', amount: 50, currency: 'USD' }))
+      .rejects.toMatchObject({ code: 'MANDATE_LIMIT_EXCEEDED' });
+    expect(mockAxios.post).toHaveBeenCalledTimes(2);
+  });
+
+  test('reserves the amount before the token request so concurrent calls cannot overspend', async () => {
+    const results = await Promise.allSettled([issueToken('tok-1', 100), issueToken('tok-2', 100), issueToken('tok-3', 100)]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ code: 'MANDATE_LIMIT_EXCEEDED' });
+    expect(mockAxios.post).toHaveBeenCalledTimes(1);
+    expect(await guard.getRemaining('mandate-123')).toBe(0);
+  });
+
+  test('releases the reservation when the token request fails', async () => {
+    mockAxios.post.mockRejectedValueOnce({ response: { status: 500, data: {} } });
+    await expect(authService.generateToken({ mandate_id: 'mandate-123', amount: 80, currency: 'USD' })).rejects.toMatchObject({ status: 500 });
+
+    expect(await guard.getRemaining('mandate-123')).toBe(100);
+  });
+
+  test('re-checks the mandate balance before paying', async () => {
+    await issueToken('tok-1', 60);
+    await guard.trackMandate({ ...mandate, spent_amount: 50 });
+
+    await expect(authService.pay({ token: 'tok-1', amount: 60, currency: 'USD' })).rejects.toMatchObject({ code: 'MANDATE_LIMIT_EXCEEDED' });
+    expect(mockAxios.post).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects wrong currency before hitting the network', async () => {
+    await expect(authService.generateToken({ mandate_id: 'mandate-123', amount: 10, currency: 'EUR' }))
+      .rejects.toBeInstanceOf(ShoraMandateGuardError);
+    expect(mockAxios.post).not.toHaveBeenCalled();
+  });
+
+  test('rejects reuse of a spent token and payments above the token amount', async () => {
+    await issueToken('tok-1', 30);
+
+    await expect(authService.pay({ token: 'tok-1', amount: 31, currency: 'USD' }))
+      .rejects.toMatchObject({ code: 'MANDATE_LIMIT_EXCEEDED' });
+
+    mockAxios.post.mockResolvedValueOnce({ data: { id: 'pay-1', status: 'completed', amount: 30, currency: 'USD' } });
+    await authService.pay({ token: 'tok-1', amount: 30, currency: 'USD' });
+    await expect(authService.pay({ token: 'tok-1', amount: 30, currency: 'USD' }))
+      .rejects.toMatchObject({ code: 'TOKEN_ALREADY_USED' });
+  });
+
+  test('rejects payments after expiry or revocation', async () => {
+    await issueToken('tok-1', 10);
+    await guard.trackMandate({ ...mandate, expires_at: new Date(Date.now() - 1000).toISOString() });
+    await expect(authService.pay({ token: 'tok-1', amount: 10, currency: 'USD' }))
+      .rejects.toMatchObject({ code: 'MANDATE_EXPIRED' });
+
+    await guard.trackMandate(mandate);
+    mockAxios.post.mockResolvedValueOnce({ data: { ...mandate, status: 'revoked' } });
+    await authService.revokeMandate('mandate-123');
+    await expect(authService.pay({ token: 'tok-1', amount: 10, currency: 'USD' }))
+      .rejects.toMatchObject({ code: 'MANDATE_REVOKED' });
+  });
+
+  test('books amounts in minor units without float drift', async () => {
+    for (const [value, amount] of [['tok-1', 0.1], ['tok-2', 0.2]] as const) {
+      await issueToken(value, amount);
+      mockAxios.post.mockResolvedValueOnce({ data: { id: `pay-${value}`, status: 'completed', amount, currency: 'USD' } });
+      await authService.pay({ token: value, amount, currency: 'USD' });
+    }
+
+    expect(await guard.getRemaining('mandate-123')).toBe(99.7);
+  });
+
+  test('releases the reservation of a token that expires unused', async () => {
+    jest.useFakeTimers({ now: Date.now() });
+    try {
+      mockAxios.post.mockResolvedValueOnce({
+        data: { id: 'id-tok-1', mandate_id: 'mandate-123', value: 'tok-1', expires_at: new Date(Date.now() + 60_000).toISOString(), created_at: mandate.created_at },
+      });
+      await authService.generateToken({ mandate_id: 'mandate-123', amount: 80, currency: 'USD' });
+      expect(await guard.getRemaining('mandate-123')).toBe(20);
+
+      jest.setSystemTime(Date.now() + 60_000);
+      expect(await guard.getRemaining('mandate-123')).toBe(100);
+      await expect(authService.pay({ token: 'tok-1', amount: 80, currency: 'USD' })).rejects.toMatchObject({ code: 'TOKEN_EXPIRED' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('keeps a token reserved while the payment outcome is unknown', async () => {
+    await issueToken('tok-1', 30);
+    mockAxios.post.mockRejectedValueOnce(Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ECONNABORTED', request: {} }));
+    await expect(authService.pay({ token: 'tok-1', amount: 30, currency: 'USD' })).rejects.toMatchObject({ code: 'TIMEOUT' });
+
+    expect(await guard.getRemaining('mandate-123')).toBe(70);
+    await expect(authService.pay({ token: 'tok-1', amount: 30, currency: 'USD' })).rejects.toMatchObject({ code: 'TOKEN_ALREADY_USED' });
+
+    await issueToken('tok-2', 20);
+    mockAxios.post.mockRejectedValueOnce({ response: { status: 402, data: { error: { code: 'CARD_DECLINED' } } } });
+    await expect(authService.pay({ token: 'tok-2', amount: 20, currency: 'USD' })).rejects.toMatchObject({ status: 402 });
+    mockAxios.post.mockResolvedValueOnce({ data: { id: 'pay-2', status: 'completed', amount: 20, currency: 'USD' } });
+    await expect(authService.pay({ token: 'tok-2', amount: 20, currency: 'USD' })).resolves.toMatchObject({ status: 'completed' });
+  });
+
+  test('books a completed payment once even when the ledger write fails', async () => {
+    await issueToken('tok-1', 30);
+    const afterPay = jest.spyOn(guard, 'afterPay').mockRejectedValueOnce(new Error('disk full'));
+    mockAxios.post.mockResolvedValueOnce({ data: { id: 'pay-1', status: 'completed', amount: 30, currency: 'USD' } });
+
+    await expect(authService.pay({ token: 'tok-1', amount: 30, currency: 'USD' })).rejects.toThrow('disk full');
+    expect(afterPay).toHaveBeenCalledTimes(1);
+    expect(afterPay).toHaveBeenCalledWith(expect.objectContaining({ token: 'tok-1' }), expect.objectContaining({ status: 'completed' }));
+  });
+
+  test('fetches untracked mandates before issuing tokens', async () => {
+    const fresh = new MandateGuard();
+    const service = new AuthService(mockAxios, { mandateGuard: fresh });
+    mockAxios.get.mockResolvedValueOnce({ data: mandate });
+
+    await expect(service.generateToken({ mandate_id: 'mandate-123', amount: 500, currency: 'USD' }))
+      .rejects.toMatchObject({ code: 'MANDATE_LIMIT_EXCEEDED' });
+    expect(mockAxios.get).toHaveBeenCalledWith('/v2/agents/mandates/mandate-123');
+  });
+
+  test('persists the ledger through a file store', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'shora-ledger-'));
+    try {
+      const path = join(dir, 'ledger.json');
+      const first = new MandateGuard({ store: new FileMandateLedgerStore(path) });
+      await first.trackMandate({ ...mandate, spent_amount: 25 });
+
+      const restarted = new MandateGuard({ store: new FileMandateLedgerStore(path) });
+      expect(await restarted.getRemaining('mandate-123')).toBe(75);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { Money, getCurrencyExponent, toWire } from '../src/money';
+import { PaymentService } from '../src/payments';
+import { AuthService } from '../src/auth';
+import { ShoraValidationError } from '../src/error-handling';
+import { AxiosInstance } from 'axios';
+
+describe('Money', () => {
+  test('uses ISO 4217 minor unit exponents', () => {
+    expect(getCurrencyExponent('USD')).toBe(2);
+    expect(getCurrencyExponent('jpy')).toBe(0);
+    expect(getCurrencyExponent('KWD')).toBe(3);
+    expect(() => getCurrencyExponent('US')).toThrow(ShoraValidationError);
+  });
+
+  test('parses major amounts into integer minor units', () => {
+    expect(Money.of('19.99', 'USD').minor).toBe(1999);
+    expect(Money.of(1000, 'JPY').minor).toBe(1000);
+    expect(Money.of('1.5', 'KWD').minor).toBe(1500);
+    expect(Money.of(1e-2, 'USD').minor).toBe(1);
+    expect(Money.of('-2.50', 'EUR').minor).toBe(-250);
+  });
+
+  test('rejects amounts with more decimals than the currency allows', () => {
+    expect(() => Money.of('10.5', 'JPY')).toThrow(ShoraValidationError);
+    expect(() => Money.of(19.999, 'USD')).toThrow(ShoraValidationError);
+    expect(() => Money.of(1.999999, 'USD')).toThrow(ShoraValidationError);
+    expect(() => Money.of(0.1 + 0.2, 'USD')).toThrow(ShoraValidationError);
+    expect(() => Money.of(1e-7, 'USD')).toThrow(ShoraValidationError);
+    expect(() => Money.of('abc', 'USD')).toThrow(ShoraValidationError);
+    expect(() => Money.of(NaN, 'USD')).toThrow(ShoraValidationError);
+    expect(() => Money.fromMinor(1.5, 'USD')).toThrow(ShoraValidationError);
+  });
+
+  test('renders exact major-unit strings and wire numbers', () => {
+    expect(Money.fromMinor(5, 'USD').toString()).toBe('0.05');
+    expect(Money.fromMinor(1500, 'KWD').toString()).toBe('1.500');
+    expect(Money.fromMinor(-1999, 'USD').toMajor()).toBe(-19.99);
+    expect(JSON.stringify({ amount: Money.of('99.99', 'USD') })).toBe('{"amount":99.99}');
+  });
+
+  test('adds without float drift and refuses mixed currencies', () => {
+    const total = Money.of('0.1', 'USD').add(Money.of('0.2', 'USD'));
+    expect(total.equals(Money.of('0.3', 'USD'))).toBe(true);
+    expect(() => total.add(Money.of(1, 'EUR'))).toThrow(expect.objectContaining({ code: 'CURRENCY_MISMATCH' }));
+  });
+
+  test('multiplies with explicit rounding', () => {
+    const price = Money.of('19.99', 'USD');
+    expect(price.multiply(0.15).minor).toBe(300);
+    expect(Money.fromMinor(5, 'USD').multiply(0.5, 'half_even').minor).toBe(2);
+    expect(Money.fromMinor(5, 'USD').multiply(0.5, 'half_up').minor).toBe(3);
+    expect(Money.fromMinor(5, 'USD').multiply(0.5, 'floor').minor).toBe(2);
+  });
+
+  test('multiplies by factors in exponent notation and by decimal strings', () => {
+    expect(Money.fromMinor(100_000_000, 'USD').multiply(1e-7).minor).toBe(10);
+    expect(Money.fromMinor(15_000_000, 'USD').multiply(1e-7).minor).toBe(2);
+    expect(Money.fromMinor(3, 'USD').multiply(1.5e3).minor).toBe(4500);
+    expect(Money.fromMinor(1999, 'USD').multiply('0.0725').minor).toBe(145);
+    expect(Money.fromMinor(-5, 'USD').multiply('0.5', 'floor').minor).toBe(-3);
+    expect(() => Money.of(1, 'USD').multiply(Number.NaN)).toThrow(expect.objectContaining({ code: 'INVALID_AMOUNT' }));
+    expect(() => Money.of(1, 'USD').multiply('1.2.3')).toThrow(expect.objectContaining({ code: 'INVALID_AMOUNT' }));
+  });
+
+  test('allocates without losing minor units', () => {
+    const parts = Money.of('100', 'USD').allocate([1, 1, 1]);
+    expect(parts.map((part) => part.minor)).toEqual([3334, 3333, 3333]);
+    expect(Money.of(10, 'JPY').allocate([0, 1, 1]).map((part) => part.minor)).toEqual([0, 5, 5]);
+  });
+
+  test('formats with the currency exponent', () => {
+    expect(Money.of(1000, 'JPY').format('en-US')).toBe('¥1,000');
+    expect(Money.of('1.5', 'KWD').format('en-US')).toContain('1.500');
+    expect(Money.of('1234.5', 'USD').format('en-US')).toBe('$1,234.50');
+  });
+
+  test('toWire serializes Money fields and checks the request currency', () => {
+    expect(toWire({ amount: Money.of('12.30', 'USD'), currency: 'usd' })).toEqual({ amount: 12.3, currency: 'usd' });
+    expect(toWire({ amount: 5, currency: 'USD' })).toEqual({ amount: 5, currency: 'USD' });
+    expect(() => toWire({ amount: Money.of(100, 'JPY'), currency: 'USD' })).toThrow(
+      expect.objectContaining({ code: 'CURRENCY_MISMATCH' })
+    );
+  });
+});
+
+describe('Money in SDK requests', () => {
+  let mockAxios: jest.Mocked<AxiosInstance>;
+
+  beforeEach(() => {
+    mockAxios = { post: jest.fn().mockResolvedValue({ data: {} }), patch: jest.fn().mockResolvedValue({ data: {} }) } as any;
+  });
+
+  test('payment sessions send major-unit numbers', async () => {
+    await new PaymentService(mockAxios).createPaymentSession({ amount: Money.of(1500, 'JPY'), currency: 'JPY' });
+    expect(mockAxios.post).toHaveBeenCalledWith(
+      '/v2/payments/sessions',
+      { amount: 1500, currency: 'JPY' },
+      expect.anything()
+    );
+  });
+
+  test('agent tokens and mandate limits send major-unit numbers', async () => {
+    const auth = new AuthService(mockAxios);
+    await auth.generateToken({ mandate_id: 'mandate-1', amount: Money.of('2.345', 'KWD'), currency: 'KWD' });
+    expect(mockAxios.post).toHaveBeenCalledWith('/v2/agents/tokens', { mandate_id: 'mandate-1', amount: 2.345, currency: 'KWD' });
+
+    await auth.updateMandateLimit('mandate-1', Money.of('500', 'USD'));
+    expect(mockAxios.patch).toHaveBeenCalledWith('/v2/agents/mandates/mandate-1', { max_amount: 500 });
+  });
+
+  test('rejects a Money amount that disagrees with the request currency', async () => {
+    await expect(
+      new PaymentService(mockAxios).createPaymentSession({ amount: Money.of(10, 'EUR'), currency: 'USD' })
+    ).rejects.toThrow(ShoraValidationError);
+    expect(mockAxios.post).not.toHaveBeenCalled();
+  });
+});
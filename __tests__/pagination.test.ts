@@ -0,0 +1,105 @@
+import { AuditService } from '../src/audit';
+import { FeedService } from '../src/feed';
+import { Paginator, serializeFilter } from '../src/pagination';
+import { ShoraConfigurationError } from '../src/error-handling';
+import { AxiosInstance } from 'axios';
+
+describe('auto-paginating lists', () => {
+  let mockAxios: jest.Mocked<AxiosInstance>;
+
+  const auditLog = (n: number) => ({
+    id: `audit-${n}`,
+    action: 'payment_created',
+    tenant_id: 'tenant-1',
+    timestamp: '2025-01-30T00:00:00Z',
+  });
+
+  beforeEach(() => {
+    mockAxios = { get: jest.fn(), post: jest.fn() } as any;
+  });
+
+  test('audit.list follows limit/offset until total is reached', async () => {
+    mockAxios.get = jest.fn()
+      .mockResolvedValueOnce({ data: { logs: [auditLog(1), auditLog(2)], total: 3, limit: 2, offset: 0 } })
+      .mockResolvedValueOnce({ data: { logs: [auditLog(3)], total: 3, limit: 2, offset: 2 } });
+    const audit = new AuditService(mockAxios, { tenantId: 'tenant-1' });
+
+    const ids: string[] = [];
+    for await (const log of audit.list({ limit: 2, filter: 'action:payment_created' })) {
+      ids.push(log.id);
+    }
+
+    expect(ids).toEqual(['audit-1', 'audit-2', 'audit-3']);
+    expect(mockAxios.get).toHaveBeenNthCalledWith(1, '/v2/audit', {
+      params: { tenant_id: 'tenant-1', limit: 2, offset: 0, filter: 'action:payment_created' },
+    });
+    expect(mockAxios.get).toHaveBeenNthCalledWith(2, '/v2/audit', {
+      params: { tenant_id: 'tenant-1', limit: 2, offset: 2, filter: 'action:payment_created' },
+    });
+  });
+
+  test('page() fetches a single page for manual control', async () => {
+    mockAxios.get = jest.fn().mockResolvedValue({ data: { logs: [auditLog(5)], total: 10, limit: 1, offset: 4 } });
+    const audit = new AuditService(mockAxios);
+
+    const page = await audit.list({ limit: 1 }).page(4);
+
+    expect(page.items).toHaveLength(1);
+    expect(page.offset).toBe(4);
+    expect(page.hasMore).toBe(true);
+    expect(mockAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  test('feed.list supports object filters', async () => {
+    mockAxios.get = jest.fn().mockResolvedValue({
+      data: {
+        items: [{ id: 'feed-1', title: 'Payment Processed', status: 'active', tenant_id: 1, created_at: '2025-01-30T00:00:00Z' }],
+        total: 1,
+        limit: 10,
+        offset: 0,
+      },
+    });
+    const feed = new FeedService(mockAxios, { enabled: true });
+
+    const items = await feed.list({ filter: { status: 'active' } }).toArray();
+
+    expect(items.map((item) => item.id)).toEqual(['feed-1']);
+    expect(mockAxios.get).toHaveBeenCalledWith('/v2/feed/list', {
+      params: { tenant_id: undefined, limit: 10, offset: 0, filter: 'status:active' },
+    });
+  });
+
+  test('feed.list rejects unless the feed is enabled', async () => {
+    const feed = new FeedService(mockAxios);
+    await expect(feed.list().page()).rejects.toMatchObject({ constructor: ShoraConfigurationError, code: 'FEED_DISABLED' });
+    expect(mockAxios.get).not.toHaveBeenCalled();
+  });
+
+  test('keeps paging until an empty page when the API reports no total', async () => {
+    // The server caps pages at 2 items, below the requested limit
+    const fetcher = jest.fn()
+      .mockResolvedValueOnce({ items: [1, 2] })
+      .mockResolvedValueOnce({ items: [3, 4] })
+      .mockResolvedValueOnce({ items: [5] })
+      .mockResolvedValueOnce({ items: [] });
+
+    await expect(new Paginator<number>(fetcher, { limit: 3 }).toArray()).resolves.toEqual([1, 2, 3, 4, 5]);
+    expect(fetcher).toHaveBeenLastCalledWith(3, 5);
+  });
+
+  test('follows has_more when the API sends it', async () => {
+    mockAxios.get = jest.fn()
+      .mockResolvedValueOnce({ data: { logs: [auditLog(1)], has_more: true } })
+      .mockResolvedValueOnce({ data: { logs: [auditLog(2)], has_more: false } });
+
+    const logs = await new AuditService(mockAxios).list({ limit: 5 }).toArray();
+
+    expect(logs.map((log) => log.id)).toEqual(['audit-1', 'audit-2']);
+    expect(mockAxios.get).toHaveBeenCalledTimes(2);
+  });
+
+  test('serializeFilter joins multiple criteria', () => {
+    expect(serializeFilter({ status: 'active', tenant_id: 1 })).toBe('status:active,tenant_id:1');
+    expect(serializeFilter(undefined)).toBeUndefined();
+  });
+});
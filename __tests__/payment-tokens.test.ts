@@ -0,0 +1,85 @@
+import { createSecurityEnhancement, generateEncryptionKey } from '../src/security_enhance';
+import { MemoryNonceStore, NonceStore } from '../src/nonce-store';
+
+describe('single-use payment tokens', () => {
+  const key = generateEncryptionKey();
+  const create = (options: { tenantId?: string; paymentTokenTtl?: number; nonceStore?: NonceStore } = {}) =>
+    createSecurityEnhancement({ encryptionKey: key, tenantId: 'tenant-test', pbkdf2Iterations: 1000, ...options });
+  const payment = { amount: 100, currency: 'USD', userId: 'user_123' };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test('validates a token once and rejects replays', async () => {
+    const sec = create();
+    const token = sec.generateSecurePaymentToken(payment);
+
+    const first = await sec.validatePaymentToken(token);
+    expect(first.valid).toBe(true);
+    expect(first.valid && first.data.amount).toBe(100);
+    expect(await sec.validatePaymentToken(token)).toMatchObject({ valid: false, reason: 'replayed' });
+  });
+
+  test('can check a token without consuming it', async () => {
+    const sec = create();
+    const token = sec.generateSecurePaymentToken(payment);
+
+    expect((await sec.validatePaymentToken(token, { consume: false })).valid).toBe(true);
+    expect((await sec.validatePaymentToken(token)).valid).toBe(true);
+  });
+
+  test('honors the configured TTL', async () => {
+    const sec = create({ paymentTokenTtl: 60_000 });
+    const token = sec.generateSecurePaymentToken(payment);
+    const shortLived = sec.generateSecurePaymentToken(payment, { ttl: 1000 });
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 30_000);
+    expect(await sec.validatePaymentToken(shortLived)).toMatchObject({ valid: false, reason: 'expired' });
+    expect((await sec.validatePaymentToken(token)).valid).toBe(true);
+  });
+
+  test('distinguishes tampered tokens from tenant mismatches', async () => {
+    const token = create().generateSecurePaymentToken(payment);
+
+    expect(await create().validatePaymentToken({ ...token, tag: '0'.repeat(32) }))
+      .toMatchObject({ valid: false, reason: 'tampered' });
+    expect(await create({ tenantId: 'tenant-other' }).validatePaymentToken(token))
+      .toMatchObject({ valid: false, reason: 'tenant_mismatch' });
+  });
+
+  test('uses a pluggable nonce store', async () => {
+    const used = new Set<string>();
+    const nonceStore: NonceStore = {
+      consume: jest.fn(async (nonce: string) => !used.has(nonce) && !!used.add(nonce)),
+    };
+    // Two instances sharing a store behave like two servers backed by Redis
+    const token = create({ nonceStore }).generateSecurePaymentToken(payment);
+
+    expect((await create({ nonceStore }).validatePaymentToken(token)).valid).toBe(true);
+    expect(await create({ nonceStore }).validatePaymentToken(token)).toMatchObject({ reason: 'replayed' });
+    expect(nonceStore.consume).toHaveBeenCalledWith(expect.stringMatching(/^tenant-test:[0-9a-f]{32}$/), expect.any(Number));
+  });
+
+  test('MemoryNonceStore frees expired nonces and never evicts live ones', async () => {
+    const store = new MemoryNonceStore({ maxSize: 2 });
+    const now = Date.now();
+    await store.consume('expiring', now + 10);
+    await store.consume('live', now + 60_000);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+    expect(await store.consume('new', now + 60_000)).toBe(true);
+    expect(await store.consume('live', now + 60_000)).toBe(false);
+    await expect(store.consume('another', now + 60_000)).rejects.toMatchObject({ code: 'NONCE_STORE_FULL' });
+    expect(await store.consume('live', now + 60_000)).toBe(false);
+  });
+
+  test('refuses tokens when the nonce store is full', async () => {
+    const sec = create({ nonceStore: new MemoryNonceStore({ maxSize: 1 }) });
+    const first = sec.generateSecurePaymentToken(payment);
+    const second = sec.generateSecurePaymentToken(payment);
+
+    expect((await sec.validatePaymentToken(first)).valid).toBe(true);
+    expect(await sec.validatePaymentToken(second)).toMatchObject({ valid: false, reason: 'nonce_store_unavailable' });
+    expect(await sec.validatePaymentToken(first)).toMatchObject({ valid: false, reason: 'replayed' });
+  });
+});
@@ -41,7 +41,7 @@ describe('PaymentService ACP endpoints', () => {
         description: 'Test intent',
         buyer: { email: 'test@example.com' },
       },
-      { headers: {} }
+      { headers: { 'Idempotency-Key': expect.any(String) } }
     );
     expect(result.intent_id).toBe('intent-123');
   });
@@ -100,7 +100,7 @@ describe('PaymentService ACP endpoints', () => {
         payment_method: 'card',
         delegate_token: 'token-456',
       },
-      { headers: {} }
+      { headers: { 'Idempotency-Key': expect.any(String) } }
     );
     expect(result.id).toBe('payment-123');
   });
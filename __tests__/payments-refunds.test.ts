@@ -0,0 +1,100 @@
+import { PaymentService } from '../src/payments';
+import { AxiosInstance } from 'axios';
+
+describe('PaymentService refunds and cancellation', () => {
+  let paymentService: PaymentService;
+  let mockAxios: jest.Mocked<AxiosInstance>;
+
+  const refund = {
+    id: 'refund-123',
+    payment_id: 'payment-456',
+    receipt_id: 'receipt-789',
+    amount: 40,
+    currency: 'TRY',
+    status: 'succeeded',
+    reason: 'requested_by_customer',
+    created_at: '2025-01-30T00:00:00Z',
+  };
+
+  beforeEach(() => {
+    mockAxios = {
+      post: jest.fn(),
+      get: jest.fn(),
+    } as any;
+    paymentService = new PaymentService(mockAxios);
+  });
+
+  test('refundPayment sends a partial refund with reason and idempotency key', async () => {
+    mockAxios.post = jest.fn().mockResolvedValue({ data: refund });
+
+    const result = await paymentService.refundPayment(
+      {
+        payment_id: 'payment-456',
+        receipt_id: 'receipt-789',
+        amount: 40,
+        reason: 'requested_by_customer',
+      },
+      { idempotencyKey: 'refund-key-1' }
+    );
+
+    expect(mockAxios.post).toHaveBeenCalledWith(
+      '/v2/payments/refunds',
+      {
+        payment_id: 'payment-456',
+        receipt_id: 'receipt-789',
+        amount: 40,
+        reason: 'requested_by_customer',
+      },
+      { headers: { 'Idempotency-Key': 'refund-key-1' } }
+    );
+    expect(result.id).toBe('refund-123');
+    expect(result.payment_id).toBe('payment-456');
+  });
+
+  test('refundPayment omits amount for a full refund', async () => {
+    mockAxios.post = jest.fn().mockResolvedValue({ data: { ...refund, amount: 100 } });
+
+    await paymentService.refundPayment({ payment_id: 'payment-456' });
+
+    expect(mockAxios.post).toHaveBeenCalledWith(
+      '/v2/payments/refunds',
+      { payment_id: 'payment-456' },
+      { headers: { 'Idempotency-Key': expect.any(String) } }
+    );
+  });
+
+  test('listRefunds filters by payment id', async () => {
+    mockAxios.get = jest.fn().mockResolvedValue({
+      data: { refunds: [refund], total: 1, limit: 10, offset: 0 },
+    });
+
+    const result = await paymentService.listRefunds({ payment_id: 'payment-456', limit: 10 });
+
+    expect(mockAxios.get).toHaveBeenCalledWith('/v2/payments/refunds', {
+      params: { payment_id: 'payment-456', limit: 10 },
+    });
+    expect(result.refunds[0].receipt_id).toBe('receipt-789');
+  });
+
+  test('cancelPaymentSession posts to the cancel endpoint', async () => {
+    mockAxios.post = jest.fn().mockResolvedValue({
+      data: {
+        id: 'session-123',
+        status: 'cancelled',
+        amount: 100,
+        currency: 'TRY',
+        created_at: '2025-01-30T00:00:00Z',
+        updated_at: '2025-01-30T00:00:00Z',
+      },
+    });
+
+    const result = await paymentService.cancelPaymentSession('session-123', { reason: 'customer_abandoned' });
+
+    expect(mockAxios.post).toHaveBeenCalledWith(
+      '/v2/payments/sessions/session-123/cancel',
+      { reason: 'customer_abandoned' },
+      { headers: { 'Idempotency-Key': expect.any(String) } }
+    );
+    expect(result.status).toBe('cancelled');
+  });
+});
@@ -41,7 +41,7 @@ describe('PaymentService', () => {
     );
   });
 
-  test('createPaymentSession does not send idempotencyKey header when not provided', async () => {
+  test('createPaymentSession generates an idempotencyKey header when not provided', async () => {
     const mockResponse = {
       data: {
         id: 'session-123',
@@ -62,7 +62,7 @@ describe('PaymentService', () => {
     expect(mockAxios.post).toHaveBeenCalledWith(
       '/v2/payments/sessions',
       { amount: 100, currency: 'TRY' },
-      { headers: {} }
+      { headers: { 'Idempotency-Key': expect.any(String) } }
     );
   });
 
@@ -99,5 +99,37 @@ describe('PaymentService', () => {
     expect(result2.id).toBe('session-2');
     expect(mockAxios.post).toHaveBeenCalledTimes(2);
   });
-});
 
+  test('processPayment reuses one idempotency key across retries and exposes it', async () => {
+    const mockResponse = {
+      data: {
+        id: 'payment-123',
+        status: 'completed',
+        amount: 100,
+        currency: 'TRY',
+        created_at: '2025-01-30T00:00:00Z',
+        updated_at: '2025-01-30T00:00:00Z',
+      },
+    };
+    mockAxios.post = jest.fn()
+      .mockRejectedValueOnce({ request: {} })
+      .mockResolvedValueOnce(mockResponse);
+
+    const result = await paymentService.processPayment('session-123', 'card', 'tok_123');
+
+    expect(mockAxios.post).toHaveBeenCalledTimes(2);
+    const firstKey = mockAxios.post.mock.calls[0][2]?.headers?.['Idempotency-Key'];
+    const secondKey = mockAxios.post.mock.calls[1][2]?.headers?.['Idempotency-Key'];
+    expect(firstKey).toBeTruthy();
+    expect(secondKey).toBe(firstKey);
+    expect(result.idempotency_key).toBe(firstKey);
+  });
+
+  test('attaches the idempotency key to the thrown error', async () => {
+    mockAxios.post = jest.fn().mockRejectedValue({ response: { status: 400, data: { error: 'Bad request' } } });
+
+    await expect(
+      paymentService.createPaymentSession({ amount: 100, currency: 'TRY' }, { idempotencyKey: 'key-123' })
+    ).rejects.toMatchObject({ idempotencyKey: 'key-123' });
+  });
+});
@@ -0,0 +1,201 @@
+import { waitForPaymentCompletion, waitForCheckoutIntent } from '../src/polling';
+import { WebhookService } from '../src/webhooks';
+import { PaymentService, PaymentResponse, CheckoutIntentResponse } from '../src/payments';
+
+const session = (status: PaymentResponse['status']): PaymentResponse => ({
+  id: 'sess_1',
+  status,
+  amount: 1000,
+  currency: 'USD',
+  created_at: '2025-01-30T00:00:00Z',
+  updated_at: '2025-01-30T00:00:00Z',
+});
+
+const intent = (status: CheckoutIntentResponse['status'], expiresIn = 60_000): CheckoutIntentResponse => ({
+  intent_id: 'intent_1',
+  status,
+  amount: 1000,
+  currency: 'USD',
+  expires_at: new Date(Date.now() + expiresIn).toISOString(),
+  created_at: '2025-01-30T00:00:00Z',
+});
+
+const paymentsWith = (methods: Partial<Record<'getPaymentSession' | 'getCheckoutIntent', jest.Mock>>) =>
+  methods as unknown as PaymentService;
+
+describe('waitForPaymentCompletion', () => {
+  test('polls until the session settles', async () => {
+    const getPaymentSession = jest.fn()
+      .mockResolvedValueOnce(session('pending'))
+      .mockResolvedValueOnce(session('pending'))
+      .mockResolvedValueOnce(session('completed'));
+
+    const outcome = await waitForPaymentCompletion(paymentsWith({ getPaymentSession }), 'sess_1', { interval: 1 });
+
+    expect(outcome).toMatchObject({ status: 'completed', source: 'poll' });
+    expect(getPaymentSession).toHaveBeenCalledTimes(3);
+  });
+
+  test('returns a timeout outcome with the last known session', async () => {
+    const getPaymentSession = jest.fn().mockResolvedValue(session('pending'));
+
+    const outcome = await waitForPaymentCompletion(paymentsWith({ getPaymentSession }), 'sess_1', { interval: 5, timeout: 20 });
+
+    expect(outcome.status).toBe('timeout');
+    expect(outcome.session?.status).toBe('pending');
+  });
+
+  test('stops when the signal aborts', async () => {
+    const getPaymentSession = jest.fn().mockResolvedValue(session('pending'));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('agent cancelled')), 10);
+
+    await expect(
+      waitForPaymentCompletion(paymentsWith({ getPaymentSession }), 'sess_1', { interval: 1000, signal: controller.signal })
+    ).rejects.toThrow('agent cancelled');
+  });
+
+  test('wakes up on a matching webhook instead of waiting for the next poll', async () => {
+    const webhooks = new WebhookService({ secret: 'whsec_test' });
+    const getPaymentSession = jest.fn()
+      .mockResolvedValueOnce(session('pending'))
+      .mockResolvedValueOnce(session('completed'));
+
+    const waiting = waitForPaymentCompletion(
+      paymentsWith({ getPaymentSession }),
+      'sess_1',
+      { preferWebhooks: true, maxInterval: 60_000 },
+      webhooks
+    );
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const payload = JSON.stringify({
+      id: 'evt_1',
+      event: 'payment.completed',
+      data: { payment_id: 'pay_1', session_id: 'sess_1', amount: 1000, currency: 'USD', status: 'completed' },
+      timestamp: new Date().toISOString(),
+    });
+    await webhooks.handle(payload, webhooks.sign(payload));
+
+    await expect(waiting).resolves.toMatchObject({ status: 'completed', source: 'webhook' });
+  });
+
+  describe('with fake timers', () => {
+    const completedEvent = {
+      id: 'evt_1',
+      event: 'payment.completed' as const,
+      data: { payment_id: 'pay_1', session_id: 'sess_1', amount: 1000, currency: 'USD', status: 'completed' as const },
+      timestamp: new Date().toISOString(),
+    };
+
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    test('fetches once per webhook while the session stays pending', async () => {
+      const webhooks = new WebhookService({ secret: 'whsec_test' });
+      const getPaymentSession = jest.fn().mockResolvedValue(session('pending'));
+      const controller = new AbortController();
+
+      const waiting = waitForPaymentCompletion(
+        paymentsWith({ getPaymentSession }),
+        'sess_1',
+        { preferWebhooks: true, maxInterval: 60_000, signal: controller.signal },
+        webhooks
+      );
+      const settled = expect(waiting).rejects.toThrow('done');
+      await jest.advanceTimersByTimeAsync(0);
+      await webhooks.dispatch(completedEvent);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(getPaymentSession).toHaveBeenCalledTimes(2);
+      controller.abort(new Error('done'));
+      await settled;
+    });
+
+    test('prefers webhooks when the application registered a handler', async () => {
+      const webhooks = new WebhookService({ secret: 'whsec_test' });
+      webhooks.on('payment.completed', () => undefined);
+      const getPaymentSession = jest.fn().mockResolvedValue(session('pending'));
+
+      const waiting = waitForPaymentCompletion(
+        paymentsWith({ getPaymentSession }),
+        'sess_1',
+        { interval: 1000, maxInterval: 60_000, timeout: 30_000 },
+        webhooks
+      );
+      await jest.advanceTimersByTimeAsync(30_000);
+
+      await expect(waiting).resolves.toMatchObject({ status: 'timeout' });
+      expect(getPaymentSession).toHaveBeenCalledTimes(2); // Once up front and once at the timeout, no 1 s polling
+    });
+
+    test('does not count a concurrent wait as an application handler', async () => {
+      const webhooks = new WebhookService({ secret: 'whsec_test' });
+      const controller = new AbortController();
+      const first = waitForPaymentCompletion(
+        paymentsWith({ getPaymentSession: jest.fn().mockResolvedValue(session('pending')) }),
+        'sess_1',
+        { preferWebhooks: true, signal: controller.signal },
+        webhooks
+      );
+      const firstSettled = expect(first).rejects.toThrow('done');
+      await jest.advanceTimersByTimeAsync(0);
+
+      const getPaymentSession = jest.fn().mockResolvedValue(session('pending'));
+      const second = waitForPaymentCompletion(
+        paymentsWith({ getPaymentSession }),
+        'sess_2',
+        { interval: 1000, maxInterval: 60_000, timeout: 5000 },
+        webhooks
+      );
+      await jest.advanceTimersByTimeAsync(5000);
+
+      await expect(second).resolves.toMatchObject({ status: 'timeout' });
+      expect(webhooks.hasListeners('payment.completed')).toBe(false);
+      expect(getPaymentSession.mock.calls.length).toBeGreaterThan(2); // Polled from 1 s, not the 60 s safety net
+      controller.abort(new Error('done'));
+      await firstSettled;
+    });
+  });
+
+  test('rejects when the signal aborts during a fetch', async () => {
+    const controller = new AbortController();
+    const getPaymentSession = jest.fn().mockImplementation(async () => {
+      controller.abort(new Error('agent cancelled'));
+      return session('pending');
+    });
+
+    await expect(
+      waitForPaymentCompletion(paymentsWith({ getPaymentSession }), 'sess_1', { interval: 60_000, signal: controller.signal })
+    ).rejects.toThrow('agent cancelled');
+    expect(getPaymentSession).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('waitForCheckoutIntent', () => {
+  test('stops on expired', async () => {
+    const getCheckoutIntent = jest.fn()
+      .mockResolvedValueOnce(intent('pending'))
+      .mockResolvedValueOnce(intent('expired'));
+
+    const outcome = await waitForCheckoutIntent(paymentsWith({ getCheckoutIntent }), 'intent_1', { interval: 1 });
+    expect(outcome).toMatchObject({ status: 'expired', source: 'poll' });
+  });
+
+  test('does not poll past expires_at', async () => {
+    jest.useFakeTimers();
+    try {
+      const getCheckoutIntent = jest.fn().mockResolvedValue(intent('pending', 2500));
+
+      const waiting = waitForCheckoutIntent(paymentsWith({ getCheckoutIntent }), 'intent_1', { interval: 1000 });
+      await jest.advanceTimersByTimeAsync(2500);
+
+      await expect(waiting).resolves.toMatchObject({ status: 'expired' });
+      // At 0 ms, after the 1000 ms interval, then at expires_at instead of after the next 1500 ms interval
+      expect(getCheckoutIntent).toHaveBeenCalledTimes(3);
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(getCheckoutIntent).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
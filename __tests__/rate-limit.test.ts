@@ -0,0 +1,101 @@
+import axios from 'axios';
+import ShoraSDK from '../src/index';
+import { TokenBucket, parseRateLimitHeaders, parseRetryAfter } from '../src/rate-limit';
+import { withRetry } from '../src/retry-logic';
+
+describe('rate limit headers', () => {
+  const now = Date.parse('2025-01-30T00:00:00Z');
+
+  test('parses Retry-After as seconds or HTTP date', () => {
+    expect(parseRetryAfter({ 'retry-after': '2' }, now)).toBe(2000);
+    expect(parseRetryAfter({ 'retry-after': 'Thu, 30 Jan 2025 00:00:05 GMT' }, now)).toBe(5000);
+    expect(parseRetryAfter({}, now)).toBeUndefined();
+  });
+
+  test('parses X-RateLimit headers', () => {
+    const state = parseRateLimitHeaders({ 'x-ratelimit-remaining': '7', 'x-ratelimit-reset': String(now / 1000 + 60) }, now);
+    expect(state?.remaining).toBe(7);
+    expect(state?.reset?.getTime()).toBe(now + 60000);
+    expect(parseRateLimitHeaders({ 'content-type': 'application/json' }, now)).toBeUndefined();
+  });
+});
+
+describe('TokenBucket', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  test('queues calls once the bucket is empty', async () => {
+    const bucket = new TokenBucket({ capacity: 2, interval: 1000 });
+    const acquired: number[] = [];
+    [1, 2, 3].forEach((n) => bucket.acquire().then(() => acquired.push(n)));
+
+    await Promise.resolve();
+    expect(acquired).toEqual([1, 2]);
+    expect(bucket.pending()).toBe(1);
+
+    jest.advanceTimersByTime(500);
+    await Promise.resolve();
+    expect(acquired).toEqual([1, 2, 3]);
+  });
+
+  test('pauses until the server reset time', async () => {
+    const bucket = new TokenBucket({ capacity: 5, interval: 1000 });
+    bucket.pauseUntil(new Date(Date.now() + 3000));
+    const acquired = jest.fn();
+    bucket.acquire().then(acquired);
+
+    jest.advanceTimersByTime(2000);
+    await Promise.resolve();
+    expect(acquired).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+    expect(acquired).toHaveBeenCalled();
+  });
+});
+
+describe('withRetry rate limiting', () => {
+  test('retries 429 responses after the Retry-After delay', async () => {
+    const rateLimited = { response: { status: 429, headers: { 'retry-after': '0' }, data: {} } };
+    const fn = jest.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce('ok');
+
+    await expect(withRetry(fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('gives up when Retry-After exceeds maxRetryAfter', async () => {
+    const rateLimited = { response: { status: 429, headers: { 'retry-after': '3600' }, data: {} } };
+    const fn = jest.fn().mockRejectedValue(rateLimited);
+
+    await expect(withRetry(fn)).rejects.toBe(rateLimited);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not retry other 4xx responses', async () => {
+    const badRequest = { response: { status: 400, data: {} } };
+    const fn = jest.fn().mockRejectedValue(badRequest);
+
+    await expect(withRetry(fn)).rejects.toBe(badRequest);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ShoraSDK rateLimit', () => {
+  test('exposes the latest rate limit headers', async () => {
+    const client = axios.create({
+      adapter: async (config) => ({
+        data: { status: 'ok' },
+        status: 200,
+        statusText: 'OK',
+        headers: { 'x-ratelimit-limit': '100', 'x-ratelimit-remaining': '42', 'x-ratelimit-reset': '60' },
+        config,
+      }),
+    });
+    const sdk = new ShoraSDK({ apiKey: 'test-key', baseUrl: 'https://sandbox.example.com' }, client);
+
+    expect(sdk.rateLimit).toBeUndefined();
+    await sdk.healthCheck();
+    expect(sdk.rateLimit?.limit).toBe(100);
+    expect(sdk.rateLimit?.remaining).toBe(42);
+  });
+});
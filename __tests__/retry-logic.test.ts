@@ -0,0 +1,131 @@
+import { CircuitBreaker, CircuitStateChange, withRetry } from '../src/retry-logic';
+import { PaymentService } from '../src/payments';
+import { AxiosInstance } from 'axios';
+
+describe('CircuitBreaker', () => {
+  const serverError = { response: { status: 503, data: {} } };
+  const clientError = { response: { status: 400, data: {} } };
+
+  const fail = (breaker: CircuitBreaker, error: any) =>
+    breaker.execute(() => Promise.reject(error)).catch(() => undefined);
+
+  test('opens after the configured failure threshold and reports state changes', async () => {
+    const changes: CircuitStateChange[] = [];
+    const breaker = new CircuitBreaker('test', {
+      failureThreshold: 2,
+      onStateChange: (change) => changes.push(change),
+    });
+
+    await fail(breaker, serverError);
+    expect(breaker.getState()).toBe('CLOSED');
+    await fail(breaker, serverError);
+    expect(breaker.getState()).toBe('OPEN');
+    expect(changes).toEqual([{ name: 'test', from: 'CLOSED', to: 'OPEN', failureCount: 2 }]);
+
+    await expect(breaker.execute(() => Promise.resolve('ok'))).rejects.toThrow('Circuit breaker is OPEN');
+  });
+
+  test('keeps working when the state change handler throws', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const breaker = new CircuitBreaker('test', {
+      failureThreshold: 1,
+      onStateChange: () => {
+        throw new Error('alerting down');
+      },
+    });
+
+    await fail(breaker, serverError);
+    expect(breaker.getState()).toBe('OPEN');
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test('does not count 4xx client errors as failures', async () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 1 });
+
+    await fail(breaker, clientError);
+    await fail(breaker, { status: 422 });
+    expect(breaker.getState()).toBe('CLOSED');
+  });
+
+  test('allows a limited number of probes while HALF_OPEN', async () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 1, resetTimeout: 0, halfOpenMaxRequests: 1 });
+    await fail(breaker, serverError);
+    expect(breaker.getState()).toBe('OPEN');
+
+    let release: (value: string) => void = () => undefined;
+    const probe = breaker.execute(() => new Promise<string>((resolve) => { release = resolve; }));
+    expect(breaker.getState()).toBe('HALF_OPEN');
+
+    await expect(breaker.execute(() => Promise.resolve('second'))).rejects.toThrow('Circuit breaker is OPEN');
+
+    release('probe');
+    await expect(probe).resolves.toBe('probe');
+    expect(breaker.getState()).toBe('CLOSED');
+  });
+
+  test('re-opens when a HALF_OPEN probe fails', async () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 1, resetTimeout: 0 });
+    await fail(breaker, serverError);
+    await fail(breaker, serverError);
+    expect(breaker.getState()).toBe('OPEN');
+  });
+});
+
+describe('withRetry', () => {
+  const networkError = { request: {} };
+
+  test('retries idempotent requests', async () => {
+    const fn = jest.fn().mockRejectedValueOnce(networkError).mockResolvedValueOnce('ok');
+    await expect(withRetry(fn, { baseDelay: 0, method: 'GET' })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('refuses to retry a POST without an idempotency key', async () => {
+    const fn = jest.fn().mockRejectedValue(networkError);
+    await expect(withRetry(fn, { baseDelay: 0, method: 'POST' })).rejects.toBe(networkError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('retries a POST that carries an idempotency key', async () => {
+    const fn = jest.fn().mockRejectedValueOnce(networkError).mockResolvedValueOnce('ok');
+    await expect(withRetry(fn, { baseDelay: 0, method: 'POST', idempotencyKey: 'key-1' })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('PaymentService circuit isolation', () => {
+  test('a failing session backend does not trip checkout routes', async () => {
+    const mockAxios = {
+      post: jest.fn(),
+      get: jest.fn().mockRejectedValue({ response: { status: 503, data: {} } }),
+    } as unknown as jest.Mocked<AxiosInstance>;
+    const paymentService = new PaymentService(mockAxios, {
+      circuitBreaker: { failureThreshold: 1 },
+    });
+
+    await expect(paymentService.getPaymentSession('session-123')).rejects.toBeDefined();
+    expect(paymentService.getCircuitStates()['payments.sessions']).toBe('OPEN');
+
+    mockAxios.post = jest.fn().mockResolvedValue({ data: { intent_id: 'intent-123' } });
+    const intent = await paymentService.createCheckoutIntent({ amount: 100, currency: 'TRY' });
+    expect(intent.intent_id).toBe('intent-123');
+    expect(paymentService.getCircuitStates()['acp.checkout']).toBe('CLOSED');
+  });
+
+  test('receipts, supported methods and ACP checkout go through the checkout breaker', async () => {
+    const mockAxios = {
+      post: jest.fn(),
+      get: jest.fn().mockRejectedValue({ response: { status: 503, data: {} } }),
+    } as unknown as jest.Mocked<AxiosInstance>;
+    const paymentService = new PaymentService(mockAxios, { circuitBreaker: { failureThreshold: 1 } });
+
+    await expect(paymentService.getReceipt('receipt-1')).rejects.toBeDefined();
+    expect(paymentService.getCircuitStates()['acp.checkout']).toBe('OPEN');
+
+    await expect(paymentService.getSupportedMethods()).rejects.toThrow('Circuit breaker is OPEN');
+    await expect(paymentService.createACPCheckout({ amount: 10, currency: 'USD' })).rejects.toThrow('Circuit breaker is OPEN');
+    expect(mockAxios.get).toHaveBeenCalledTimes(1);
+    expect(mockAxios.post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import ShoraSDK from '../src/index';
+import { FakeShoraServer } from '../src/fake-server';
+import { Money } from '../src/money';
+import {
+  SANDBOX_CARD_TOKENS,
+  SANDBOX_SCENARIOS,
+  SandboxScenario,
+  getSandboxScenario,
+  isSandboxScenarioError,
+  sandboxAmount,
+} from '../src/sandbox';
+import { ShoraAuthenticationRequiredError, ShoraCardDeclinedError, ShoraNetworkError } from '../src/error-handling';
+
+describe('sandbox magic values', () => {
+  test('recognises scenarios by card token or currency-aware amount', () => {
+    expect(getSandboxScenario({ cardToken: SANDBOX_CARD_TOKENS.fraud_block })).toBe('fraud_block');
+    expect(getSandboxScenario({ amount: 40.51, currency: 'USD' })).toBe('insufficient_funds');
+    expect(getSandboxScenario({ amount: 4054, currency: 'JPY' })).toBe('expired_card');
+    expect(getSandboxScenario({ amount: sandboxAmount('authentication_required', 'EUR') })).toBe('authentication_required');
+    expect(getSandboxScenario({ amount: Money.of('40.51', 'EUR'), cardToken: SANDBOX_CARD_TOKENS.success })).toBe('success');
+    expect(getSandboxScenario({ amount: 40.51, currency: 'JPY' })).toBeUndefined();
+    expect(getSandboxScenario({ amount: 12, currency: 'USD' })).toBeUndefined();
+  });
+
+  test('sandboxAmount follows the currency exponent', () => {
+    expect(sandboxAmount('insufficient_funds')).toMatchObject({ minor: 4051, currency: 'USD' });
+    expect(sandboxAmount('insufficient_funds', 'KWD').toMajor()).toBe(4.051);
+  });
+});
+
+describe('FakeShoraServer sandbox scenarios', () => {
+  let fake: FakeShoraServer;
+  let sdk: ShoraSDK;
+
+  beforeEach(() => {
+    fake = new FakeShoraServer();
+    sdk = new ShoraSDK({ apiKey: 'test-key' }, fake.httpClient());
+  });
+
+  test.each([
+    ['insufficient_funds', ShoraCardDeclinedError],
+    ['expired_card', ShoraCardDeclinedError],
+    ['fraud_block', ShoraCardDeclinedError],
+    ['authentication_required', ShoraAuthenticationRequiredError],
+  ] as [SandboxScenario, unknown][])('card token for %s throws its typed error', async (scenario, errorClass) => {
+    const session = await sdk.createPaymentSession({ amount: 20, currency: 'USD' });
+    const error = await sdk.processPayment(session.id, 'card', SANDBOX_CARD_TOKENS[scenario]).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.declineCode).toBe(SANDBOX_SCENARIOS[scenario].response?.declineCode);
+    expect(isSandboxScenarioError(error, scenario)).toBe(true);
+    expect(isSandboxScenarioError(error, 'network_timeout')).toBe(false);
+  });
+
+  test('declines fail the payment while 3-D Secure leaves it pending', async () => {
+    const declined = await sdk.createPaymentSession({ amount: sandboxAmount('insufficient_funds'), currency: 'USD' });
+    await expect(sdk.processPayment(declined.id, 'card', 'tok_visa')).rejects.toBeInstanceOf(ShoraCardDeclinedError);
+    await expect(sdk.getPaymentSession(declined.id)).resolves.toMatchObject({ status: 'failed' });
+
+    const challenged = await sdk.createPaymentSession({ amount: 20, currency: 'USD' });
+    const error = await sdk.processPayment(challenged.id, 'card', SANDBOX_CARD_TOKENS.authentication_required).catch((caught) => caught);
+    expect(error.redirectUrl).toContain(challenged.id);
+    expect(fake.completePayment(challenged.id).status).toBe('completed');
+  });
+
+  test('magic amounts apply to agent payments, including timeouts', async () => {
+    const mandate = await sdk.auth.createMandate({ agent_id: 'agent-1', max_amount: 500, currency: 'USD', expires_at: '2099-01-01T00:00:00Z' });
+    const amount = sandboxAmount('network_timeout');
+    const token = await sdk.auth.generateToken({ mandate_id: mandate.id, amount, currency: 'USD' });
+
+    const error = await sdk.auth.pay({ token: token.value, amount, currency: 'USD' }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(ShoraNetworkError);
+    expect(isSandboxScenarioError(error, 'network_timeout')).toBe(true);
+    await expect(sdk.auth.getMandateBalance(mandate.id)).resolves.toMatchObject({ spent_amount: 0 });
+  });
+});
@@ -0,0 +1,109 @@
+import { schema } from '../src/schema';
+import { PaymentService, CheckoutIntentRequestSchema, PaymentResponseSchema } from '../src/payments';
+import { AuthService } from '../src/auth';
+import { Money } from '../src/money';
+import { ShoraValidationError } from '../src/error-handling';
+import { AxiosInstance } from 'axios';
+
+describe('schema', () => {
+  test('reports every invalid field by path', () => {
+    const result = CheckoutIntentRequestSchema.validate({
+      amount: -5,
+      currency: 'dollars',
+      buyer: { email: 'not-an-email' },
+      shipping_address: { line1: '1 Main St', city: 'Berlin', postal_code: '10115', country: 'XX' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues).toEqual([
+      { path: 'amount', message: 'Must be greater than 0' },
+      { path: 'currency', message: 'Invalid ISO 4217 currency code' },
+      { path: 'buyer.email', message: 'Invalid email address' },
+      { path: 'shipping_address.country', message: 'Invalid ISO 3166-1 alpha-2 country code' },
+    ]);
+  });
+
+  test('checks currencies against the ISO 4217 list', () => {
+    const currency = schema.string({ format: 'currency' });
+    expect(currency.validate('EUR').success).toBe(true);
+    expect(currency.validate('usd').success).toBe(true);
+    expect(currency.validate('ABC')).toEqual({ success: false, issues: [{ path: '', message: 'Invalid ISO 4217 currency code' }] });
+  });
+
+  test('accepts valid requests, Money amounts and unknown keys', () => {
+    const request = {
+      amount: Money.of('12.50', 'EUR'),
+      currency: 'EUR',
+      shipping_address: { line1: '1 Main St', city: 'Berlin', postal_code: '10115', country: 'DE' },
+      extra: true,
+    };
+    expect(CheckoutIntentRequestSchema.validate(request)).toEqual({ success: true, data: request });
+  });
+
+  test('assert maps issues onto ShoraValidationError details', () => {
+    const check = schema.object({
+      expires_at: schema.string({ format: 'date-time', future: true }),
+      items: schema.array(schema.object({ quantity: schema.number({ integer: true, positive: true }) })),
+    });
+
+    let error: any;
+    try {
+      check.assert({ expires_at: '2000-01-01T00:00:00Z', items: [{ quantity: 1 }, { quantity: 1.5 }] });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ShoraValidationError);
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.details).toEqual({ expires_at: 'Must be in the future', 'items.1.quantity': 'Must be an integer' });
+  });
+
+  test('reports missing required fields and wrong types', () => {
+    const result = PaymentResponseSchema.validate({ id: 42, status: 'done', amount: 1, currency: 'USD', created_at: 'x' });
+    expect(!result.success && result.issues).toEqual([
+      { path: 'id', message: 'Expected string, received number' },
+      { path: 'status', message: 'Must be one of pending, completed, failed, cancelled' },
+      { path: 'updated_at', message: 'Required' },
+    ]);
+  });
+});
+
+describe('request and response validation', () => {
+  let mockAxios: jest.Mocked<AxiosInstance>;
+
+  beforeEach(() => {
+    mockAxios = { post: jest.fn(), get: jest.fn() } as any;
+  });
+
+  test('rejects invalid requests before sending', async () => {
+    const payments = new PaymentService(mockAxios);
+    await expect(payments.createPaymentSession({ amount: 0, currency: 'USD' })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { amount: 'Must be greater than 0' },
+    });
+
+    const auth = new AuthService(mockAxios);
+    await expect(
+      auth.createMandate({ agent_id: 'agent-1', max_amount: 100, currency: 'USD', expires_at: '2020-01-01T00:00:00Z' })
+    ).rejects.toMatchObject({ details: { expires_at: 'Must be in the future' } });
+    expect(mockAxios.post).not.toHaveBeenCalled();
+  });
+
+  test('validateRequests: false sends requests unchecked', async () => {
+    mockAxios.post.mockResolvedValue({ data: { id: 'session-1' } });
+    const payments = new PaymentService(mockAxios, { validateRequests: false });
+    await payments.createPaymentSession({ amount: 0, currency: 'USD' });
+    expect(mockAxios.post).toHaveBeenCalled();
+  });
+
+  test('validateResponses checks API responses', async () => {
+    mockAxios.get.mockResolvedValue({ data: { receipt_id: 'receipt-1', amount: '10' } });
+
+    await expect(new PaymentService(mockAxios).getReceipt('receipt-1')).resolves.toMatchObject({ amount: '10' });
+    await expect(new PaymentService(mockAxios, { validateResponses: true }).getReceipt('receipt-1')).rejects.toMatchObject({
+      code: 'INVALID_RESPONSE',
+      context: 'RESPONSE_VALIDATION',
+      details: expect.objectContaining({ amount: 'Expected number, received string', payment_id: 'Required' }),
+    });
+  });
+});
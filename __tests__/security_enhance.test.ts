@@ -1,4 +1,7 @@
+import CryptoJS from 'crypto-js';
 import { createSecurityEnhancement, generateEncryptionKey } from '../src/security_enhance';
+import { ShoraConfigurationError } from '../src/error-handling';
+import ShoraSDK from '../src/index';
 
 describe('SecurityEnhancement encrypt/decrypt', () => {
   test('encrypts and decrypts JSON payload with colons in token', () => {
@@ -17,7 +20,7 @@ describe('SecurityEnhancement encrypt/decrypt', () => {
     expect(encrypted).toHaveProperty('salt');
     expect(encrypted).toHaveProperty('timestamp');
     
-    const decrypted = sec.decryptToken(encrypted);
+    const decrypted = sec.decryptToken(encrypted, 'additional:data:with:colons');
     expect(decrypted).not.toBeNull();
     expect(decrypted).toBe(tokenWithColons);
   });
@@ -100,3 +103,100 @@ describe('SecurityEnhancement encrypt/decrypt', () => {
     expect(logs[0].metadata?.pbkdf2Iterations).toBe(100000);
   });
 });
+
+describe('SecurityEnhancement v2 token format', () => {
+  const key = generateEncryptionKey();
+  const sec = createSecurityEnhancement({
+    encryptionKey: key,
+    tenantId: 'tenant-test',
+    enableAuditLogging: false,
+    pbkdf2Iterations: 1000,
+  });
+
+  test('writes versioned AES-256-GCM tokens', () => {
+    const encrypted = sec.encryptToken('tok_123');
+    expect(encrypted.version).toBe(2);
+    expect(encrypted.alg).toBe('aes-256-gcm');
+    expect(encrypted.tag).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  test('rejects tampered ciphertext and tags', () => {
+    const encrypted = sec.encryptToken('tok_123');
+    const bytes = Buffer.from(encrypted.encrypted, 'base64');
+    bytes[0] ^= 1;
+
+    expect(sec.decryptToken({ ...encrypted, encrypted: bytes.toString('base64') })).toBeNull();
+    expect(sec.decryptToken({ ...encrypted, tag: '0'.repeat(32) })).toBeNull();
+  });
+
+  test('rejects truncated tags', async () => {
+    const encrypted = sec.encryptToken('tok_123');
+    const truncated = { ...encrypted, tag: encrypted.tag!.slice(0, 8) };
+
+    expect(sec.decryptToken(truncated)).toBeNull();
+    await expect(sec.decryptTokenAsync(truncated)).resolves.toBeNull();
+  });
+
+  test('binds additionalData as AAD', () => {
+    const encrypted = sec.encryptToken('tok_123', 'order_42');
+    expect(sec.decryptToken(encrypted, 'order_42')).toBe('tok_123');
+    expect(sec.decryptToken(encrypted, 'order_43')).toBeNull();
+    expect(sec.decryptToken(encrypted)).toBeNull();
+  });
+
+  test('still decrypts legacy v1 CBC tokens', () => {
+    const salt = CryptoJS.lib.WordArray.random(32);
+    const iv = CryptoJS.lib.WordArray.random(16);
+    const legacyKey = CryptoJS.PBKDF2(key, salt, { keySize: 8, iterations: 1000, hasher: CryptoJS.algo.SHA256 as any });
+    const encrypted = CryptoJS.AES.encrypt(JSON.stringify({ token: 'legacy_tok', tenantId: 'tenant-test', ts: Date.now() }), legacyKey, {
+      iv,
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7,
+    });
+
+    const decrypted = sec.decryptToken({
+      encrypted: encrypted.toString(),
+      iv: iv.toString(CryptoJS.enc.Hex),
+      salt: salt.toString(CryptoJS.enc.Hex),
+      timestamp: Date.now(),
+    });
+    expect(decrypted).toBe('legacy_tok');
+  });
+});
+
+describe('SecurityEnhancement keyring', () => {
+  const keys = { '2024-01': generateEncryptionKey(), '2025-01': generateEncryptionKey() };
+  const create = (activeEncryptionKeyId: string, encryptionKeys: Record<string, string> = keys) =>
+    createSecurityEnhancement({ encryptionKeys, activeEncryptionKeyId, tenantId: 'tenant-test', pbkdf2Iterations: 1000 });
+
+  test('embeds the active key id and decrypts with any key in the ring', () => {
+    const old = create('2024-01').encryptToken('tok_123');
+    const rotated = create('2025-01');
+
+    expect(old.kid).toBe('2024-01');
+    expect(rotated.decryptToken(old)).toBe('tok_123');
+    expect(rotated.encryptToken('tok_456').kid).toBe('2025-01');
+  });
+
+  test('returns null for tokens whose key was removed from the ring', () => {
+    const old = create('2024-01').encryptToken('tok_123');
+    const retired = create('2025-01', { '2025-01': keys['2025-01'] });
+    expect(retired.decryptToken(old)).toBeNull();
+  });
+
+  test('reencryptToken migrates stored tokens to the active key', () => {
+    const old = create('2024-01').encryptToken('tok_123', 'order_42');
+    const rotated = create('2025-01');
+
+    const migrated = rotated.reencryptToken(old, 'order_42');
+    expect(migrated?.kid).toBe('2025-01');
+    expect(create('2025-01', { '2025-01': keys['2025-01'] }).decryptToken(migrated!, 'order_42')).toBe('tok_123');
+    expect(rotated.reencryptToken(migrated!, 'order_42')).toBe(migrated);
+  });
+
+  test('fails loudly instead of generating a random key', () => {
+    const sdk = new ShoraSDK({ apiKey: 'test-key' });
+    expect(() => sdk.encryptToken('tok_123')).toThrow(ShoraConfigurationError);
+    expect(() => create('missing')).toThrow(ShoraConfigurationError);
+  });
+});
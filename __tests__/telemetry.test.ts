@@ -0,0 +1,204 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import ShoraSDK from '../src/index';
+import { FakeShoraServer } from '../src/fake-server';
+import { ShoraTelemetry, OpenTelemetryApi, TelemetryAttributes, TelemetryContext } from '../src/telemetry';
+import { ShoraTransport } from '../src/transport';
+
+// Just enough of @opentelemetry/api with an AsyncLocalStorage context manager, recording what the SDK emits
+
+class TestContext implements TelemetryContext {
+  constructor(private readonly values = new Map<symbol, unknown>()) {}
+
+  getValue(key: symbol): unknown {
+    return this.values.get(key);
+  }
+
+  setValue(key: symbol, value: unknown): TelemetryContext {
+    return new TestContext(new Map(this.values).set(key, value));
+  }
+}
+
+interface TestSpan {
+  name: string;
+  kind?: number;
+  attributes: TelemetryAttributes;
+  parent?: TestSpan;
+  status?: { code: number; message?: string };
+  ended: boolean;
+  traceId: string;
+  spanId: string;
+}
+
+const SPAN_KEY = Symbol('span');
+
+function createTestApi() {
+  const storage = new AsyncLocalStorage<TelemetryContext>();
+  const root = new TestContext();
+  const spans: TestSpan[] = [];
+  const metrics: Array<{ name: string; value: number; attributes?: TelemetryAttributes }> = [];
+  const gauges = new Map<string, Array<(result: { observe(value: number, attributes?: TelemetryAttributes): void }) => void>>();
+
+  const wrap = (span: TestSpan) => ({
+    spanContext: () => ({ traceId: span.traceId, spanId: span.spanId, traceFlags: 1 }),
+    setAttribute: (key: string, value: any) => (span.attributes[key] = value),
+    setAttributes: (attributes: TelemetryAttributes) => Object.assign(span.attributes, attributes),
+    setStatus: (status: { code: number; message?: string }) => (span.status = status),
+    recordException: () => undefined,
+    end: () => (span.ended = true),
+    record: span,
+  });
+
+  const api: OpenTelemetryApi = {
+    trace: {
+      getTracer: () => ({
+        startSpan: (name, options = {}, context = root) => {
+          const parent = (context.getValue(SPAN_KEY) as any)?.record as TestSpan | undefined;
+          const span: TestSpan = {
+            name,
+            kind: options.kind,
+            attributes: { ...options.attributes },
+            parent,
+            ended: false,
+            traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+            spanId: randomBytes(8).toString('hex'),
+          };
+          spans.push(span);
+          return wrap(span);
+        },
+      }),
+      getSpan: (context) => context.getValue(SPAN_KEY) as any,
+      setSpan: (context, span) => context.setValue(SPAN_KEY, span),
+    },
+    context: {
+      active: () => storage.getStore() ?? root,
+      with: (context, fn) => storage.run(context, fn),
+    },
+    propagation: { inject: () => undefined }, // No propagator registered: the SDK formats traceparent itself
+    metrics: {
+      getMeter: () => ({
+        createHistogram: (name) => ({ record: (value, attributes) => metrics.push({ name, value, attributes }) }),
+        createCounter: (name) => ({ add: (value, attributes) => metrics.push({ name, value, attributes }) }),
+        createObservableGauge: (name) => ({
+          addCallback: (callback) => gauges.set(name, [...(gauges.get(name) ?? []), callback]),
+          removeCallback: (callback) => gauges.set(name, (gauges.get(name) ?? []).filter((item) => item !== callback)),
+        }),
+      }),
+    },
+  };
+
+  const collect = (name: string) => {
+    const observed: Array<{ value: number; attributes?: TelemetryAttributes }> = [];
+    for (const callback of gauges.get(name) ?? []) callback({ observe: (value, attributes) => observed.push({ value, attributes }) });
+    return observed;
+  };
+
+  return { api, spans, metrics, collect };
+}
+
+describe('OpenTelemetry instrumentation', () => {
+  let otel: ReturnType<typeof createTestApi>;
+  let fake: FakeShoraServer;
+  let sdk: ShoraSDK;
+
+  beforeEach(() => {
+    otel = createTestApi();
+    fake = new FakeShoraServer({ apiKey: 'test-key' });
+    sdk = new ShoraSDK({ apiKey: 'test-key', tenantId: 'tenant-1', transport: fake, telemetry: { api: otel.api } });
+  });
+
+  test('traces each SDK call with a child span per attempt and propagates traceparent', async () => {
+    fake.injectFailure({ path: '/v2/payments/sessions', status: 503 });
+    const session = await sdk.createPaymentSession({ amount: 10, currency: 'USD' }, { idempotencyKey: 'order-7' });
+
+    const call = otel.spans.find((span) => span.name === 'shora.payments.createPaymentSession')!;
+    expect(call).toMatchObject({
+      ended: true,
+      attributes: {
+        'url.template': '/v2/payments/sessions',
+        'http.request.method': 'POST',
+        'http.response.status_code': 201,
+        'shora.idempotency_key': 'order-7',
+        'shora.tenant_id': 'tenant-1',
+        'shora.retry.count': 1,
+      },
+    });
+
+    const attempts = otel.spans.filter((span) => span.parent === call);
+    expect(attempts.map((span) => [span.name, span.attributes['http.response.status_code']])).toEqual([
+      ['POST /v2/payments/sessions', 503],
+      ['POST /v2/payments/sessions', 201],
+    ]);
+    expect(attempts[0].status).toMatchObject({ code: 2 });
+    expect(attempts[1].attributes['http.request.resend_count']).toBe(1);
+
+    const sent = fake.requests.map((request) => request.headers.traceparent);
+    expect(sent).toEqual(attempts.map((span) => `00-${span.traceId}-${span.spanId}-01`));
+    expect(session.idempotency_key).toBe('order-7');
+
+    expect(otel.metrics).toContainEqual(expect.objectContaining({ name: 'shora.client.retries', value: 1 }));
+    expect(otel.metrics).toContainEqual(expect.objectContaining({
+      name: 'shora.client.operation.duration',
+      attributes: expect.objectContaining({ 'shora.operation': 'payments.createPaymentSession', 'http.response.status_code': 201 }),
+    }));
+  });
+
+  test('marks failed calls with the error type and status', async () => {
+    await expect(sdk.auth.getMandate('missing')).rejects.toThrow();
+
+    const call = otel.spans.find((span) => span.name === 'shora.auth.getMandate')!;
+    expect(call.attributes).toMatchObject({
+      'url.template': '/v2/agents/mandates/{mandateId}',
+      'http.response.status_code': 404,
+      'error.type': 'NOT_FOUND',
+    });
+    expect(call.status).toMatchObject({ code: 2 });
+    expect(otel.metrics).toContainEqual(expect.objectContaining({
+      name: 'shora.client.operation.duration',
+      attributes: expect.objectContaining({ 'error.type': 'NOT_FOUND' }),
+    }));
+  });
+
+  test('reports circuit breaker state and rate limit remaining as gauges', async () => {
+    const limited: ShoraTransport = {
+      request: async (request) => {
+        const response = await fake.request(request);
+        return { ...response, headers: { ...response.headers, 'x-ratelimit-remaining': '42' } };
+      },
+    };
+    const client = new ShoraSDK({
+      apiKey: 'test-key',
+      transport: limited,
+      telemetry: { api: otel.api },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    fake.injectFailure({ path: '/v2/payments/sessions', status: 500, times: Infinity });
+    await expect(client.getPaymentSession('ps_1')).rejects.toThrow();
+
+    expect(otel.collect('shora.client.circuit_breaker.state')).toContainEqual({
+      value: 2,
+      attributes: { 'shora.circuit_breaker': 'payments.sessions' },
+    });
+    expect(otel.collect('shora.client.rate_limit.remaining')).toContainEqual({ value: 42, attributes: {} });
+    expect(otel.metrics).toContainEqual(expect.objectContaining({
+      name: 'shora.client.circuit_breaker.transitions',
+      attributes: expect.objectContaining({ 'shora.circuit_breaker.from': 'CLOSED', 'shora.circuit_breaker.to': 'OPEN' }),
+    }));
+
+    await client.shutdown();
+    await sdk.shutdown();
+    expect(otel.collect('shora.client.rate_limit.remaining')).toEqual([]);
+  });
+
+  test('does nothing without an OpenTelemetry API', async () => {
+    const telemetry = new ShoraTelemetry({ api: false });
+    expect(telemetry.enabled).toBe(false);
+    await expect(telemetry.trace('payments.test', { method: 'GET', route: '/' }, async () => 'done')).resolves.toBe('done');
+
+    // @opentelemetry/api is not installed here, so the default resolves to no telemetry either
+    const client = new ShoraSDK({ apiKey: 'test-key', transport: fake });
+    await client.createPaymentSession({ amount: 5, currency: 'USD' });
+    expect(fake.requests[0].headers.traceparent).toBeUndefined();
+    expect(otel.spans).toHaveLength(0);
+  });
+});
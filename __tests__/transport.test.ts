@@ -0,0 +1,106 @@
+import * as runtime from '../src/runtime';
+import ShoraSDK from '../src/index';
+import { FetchTransport, ShoraTransport, TransportRequest } from '../src/transport';
+import { SDK_VERSION } from '../src/version';
+import { createSecurityEnhancement, generateEncryptionKey } from '../src/security_enhance';
+import { WebhookService } from '../src/webhooks';
+import { ShoraNotFoundError } from '../src/error-handling';
+
+const pkg = require('../package.json');
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('FetchTransport', () => {
+  test('sends SDK requests through fetch and parses JSON responses', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse(200, { id: 'session-1', status: 'pending' }));
+    const sdk = new ShoraSDK({
+      apiKey: 'test-key',
+      baseUrl: 'https://api.example.com',
+      transport: new FetchTransport({ fetch }),
+    });
+
+    await expect(sdk.getPaymentSession('session-1')).resolves.toMatchObject({ id: 'session-1' });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.example.com/v2/payments/sessions/session-1');
+    expect(init.method).toBe('GET');
+    expect(init.headers['x-api-key']).toBe('test-key');
+  });
+
+  test('maps HTTP error statuses onto typed SDK errors', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse(404, { message: 'No such session' }));
+    const sdk = new ShoraSDK({ apiKey: 'test-key', baseUrl: 'https://api.example.com', transport: new FetchTransport({ fetch }) });
+
+    await expect(sdk.getPaymentSession('missing')).rejects.toBeInstanceOf(ShoraNotFoundError);
+  });
+
+  test('aborts requests that exceed the timeout', async () => {
+    const fetch = jest.fn((_url: string, init: { signal: AbortSignal }) => new Promise<Response>((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    const transport = new FetchTransport({ fetch: fetch as any });
+
+    await expect(
+      transport.request({ method: 'GET', url: 'https://api.example.com/health', headers: {}, timeout: 10 })
+    ).rejects.toMatchObject({ code: 'ETIMEDOUT' });
+  });
+
+  test('custom transports receive the full request', async () => {
+    const requests: TransportRequest[] = [];
+    const transport: ShoraTransport = {
+      async request(request) {
+        requests.push(request);
+        return { status: 200, statusText: 'OK', headers: {}, body: '{"status":"ok"}' };
+      },
+    };
+    const sdk = new ShoraSDK({ apiKey: 'test-key', baseUrl: 'https://api.example.com', transport });
+
+    await expect(sdk.healthCheck()).resolves.toEqual({ status: 'ok' });
+    expect(requests[0]).toMatchObject({ method: 'GET', url: 'https://api.example.com/v2/test/health' });
+  });
+});
+
+describe('edge runtime support', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test('SDK_VERSION matches package.json', () => {
+    expect(SDK_VERSION).toBe(pkg.version);
+  });
+
+  test('async token encryption interoperates with the Node implementation', async () => {
+    const sec = createSecurityEnhancement({ encryptionKey: generateEncryptionKey(), tenantId: 'tenant-test', enableAuditLogging: false });
+    const nodeToken = sec.encryptToken('tok_123', 'order-1');
+
+    jest.spyOn(runtime, 'nodeCrypto').mockReturnValue(undefined);
+    const webToken = await sec.encryptTokenAsync('tok_456', 'order-2');
+    await expect(sec.decryptTokenAsync(nodeToken, 'order-1')).resolves.toBe('tok_123');
+    await expect(sec.decryptTokenAsync(webToken, 'wrong-aad')).resolves.toBeNull();
+    await expect(sec.decryptTokenAsync({ ...webToken, tag: webToken.tag!.slice(0, 8) }, 'order-2')).resolves.toBeNull();
+
+    jest.restoreAllMocks();
+    expect(sec.decryptToken(webToken, 'order-2')).toBe('tok_456');
+  });
+
+  test('retries optional modules once a require is registered, as the ES module entry does', () => {
+    expect(runtime.optionalModule('shora-test-optional')).toBeUndefined();
+
+    runtime.registerNodeRequire((id) => (id === 'shora-test-optional' ? { loaded: true } : require(id)));
+    try {
+      expect(runtime.optionalModule('shora-test-optional')).toEqual({ loaded: true });
+    } finally {
+      runtime.registerNodeRequire(require);
+    }
+  });
+
+  test('webhook signatures verify without Node crypto', () => {
+    const webhooks = new WebhookService({ secret: 'whsec_test' });
+    const payload = JSON.stringify({ id: 'evt_1', event: 'payment.completed', data: {}, timestamp: new Date().toISOString() });
+    const signature = webhooks.sign(payload);
+
+    jest.spyOn(runtime, 'nodeCrypto').mockReturnValue(undefined);
+    expect(webhooks.sign(new TextEncoder().encode(payload))).toBe(signature);
+    expect(webhooks.verifySignature(payload, signature)).toBe(true);
+  });
+});
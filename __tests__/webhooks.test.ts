@@ -0,0 +1,83 @@
+import { createHmac } from 'crypto';
+import { WebhookService } from '../src/webhooks';
+import { ShoraError } from '../src/error-handling';
+
+describe('WebhookService', () => {
+  const secret = 'whsec_test';
+  let webhooks: WebhookService;
+
+  const payloadFor = (overrides: Record<string, any> = {}) =>
+    JSON.stringify({
+      id: 'evt_123',
+      event: 'payment.completed',
+      data: { payment_id: 'payment-123', amount: 500, currency: 'USD', status: 'completed' },
+      timestamp: new Date().toISOString(),
+      ...overrides,
+    });
+
+  const signatureFor = (payload: string) =>
+    `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+
+  beforeEach(() => {
+    webhooks = new WebhookService({ secret });
+  });
+
+  test('verifies a valid sha256 signature', () => {
+    const payload = payloadFor();
+    expect(webhooks.verifySignature(payload, signatureFor(payload))).toBe(true);
+    expect(webhooks.sign(payload)).toBe(signatureFor(payload));
+  });
+
+  test('rejects tampered payloads and malformed headers', () => {
+    const payload = payloadFor();
+    const signature = signatureFor(payload);
+    expect(webhooks.verifySignature(payloadFor({ id: 'evt_other' }), signature)).toBe(false);
+    expect(webhooks.verifySignature(payload, signature.replace('sha256=', 'sha1='))).toBe(false);
+    expect(webhooks.verifySignature(payload, 'sha256=abc')).toBe(false);
+    expect(webhooks.verifySignature(payload, undefined)).toBe(false);
+  });
+
+  test('constructEvent rejects events outside the timestamp tolerance', () => {
+    const payload = payloadFor({ timestamp: new Date(Date.now() - 10 * 60 * 1000).toISOString() });
+    expect(() => webhooks.constructEvent(payload, signatureFor(payload))).toThrow(ShoraError);
+    try {
+      webhooks.constructEvent(payload, signatureFor(payload));
+    } catch (error: any) {
+      expect(error.code).toBe('WEBHOOK_TIMESTAMP_INVALID');
+    }
+  });
+
+  test('constructEvent rejects replayed events', () => {
+    const payload = payloadFor();
+    const event = webhooks.constructEvent(payload, signatureFor(payload));
+    expect(event.event).toBe('payment.completed');
+
+    expect(() => webhooks.constructEvent(payload, signatureFor(payload))).toThrow(/already been received/);
+  });
+
+  test('handle dispatches to typed and wildcard handlers', async () => {
+    const completed = jest.fn();
+    const any = jest.fn();
+    const expired = jest.fn();
+    webhooks.on('payment.completed', (event) => completed(event.data.payment_id));
+    webhooks.on('checkout.expired', expired);
+    const unsubscribe = webhooks.on('*', any);
+
+    const payload = payloadFor();
+    await webhooks.handle(payload, signatureFor(payload));
+
+    expect(completed).toHaveBeenCalledWith('payment-123');
+    expect(any).toHaveBeenCalledTimes(1);
+    expect(expired).not.toHaveBeenCalled();
+
+    unsubscribe();
+    const next = payloadFor({ id: 'evt_456', event: 'audit_tx' });
+    await webhooks.handle(next, signatureFor(next));
+    expect(any).toHaveBeenCalledTimes(1);
+  });
+
+  test('throws when no secret is configured', () => {
+    const unconfigured = new WebhookService();
+    expect(() => unconfigured.constructEvent('{}', 'sha256=00')).toThrow(/secret is not configured/);
+  });
+});
@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+
+/**
+ * Makes the tsc ES module output loadable by Node: marks the directory as `"type": "module"` and gives
+ * relative import specifiers the `.js` extension Node's ESM resolver requires.
+ * Usage: node scripts/esm-package.js [outDir], defaulting to dist/esm
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const outDir = path.resolve(process.argv[2] || 'dist/esm');
+// from './x', import('./x') and bare import './x'
+const SPECIFIER = /(\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(['"])(\.{1,2}\/[^'"]+)\2/g;
+
+function withExtension(file, specifier) {
+ if (/\.(js|mjs|cjs|json)$/.test(specifier)) return specifier;
+ const target = path.resolve(path.dirname(file), specifier);
+ return fs.existsSync(path.join(target, 'index.js')) && !fs.existsSync(`${target}.js`) ? `${specifier}/index.js` : `${specifier}.js`;
+}
+
+function rewrite(dir) {
+ for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+ const file = path.join(dir, entry.name);
+ if (entry.isDirectory()) {
+ rewrite(file);
+ } else if (entry.name.endsWith('.js')) {
+ const source = fs.readFileSync(file, 'utf8');
+ const output = source.replace(SPECIFIER, (_, prefix, quote, specifier) => `${prefix}${quote}${withExtension(file, specifier)}${quote}`);
+ if (output !== source) fs.writeFileSync(file, output, 'utf8');
+ }
+ }
+}
+
+rewrite(outDir);
+fs.writeFileSync(path.join(outDir, 'package.json'), `${JSON.stringify({ type: 'module' }, null, 2)}\n`, 'utf8');
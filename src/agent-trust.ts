@@ -0,0 +1,225 @@
+/**
+ * Merchant-side verification of incoming agent requests: local RFC 9421 check, key directory cache,
+ * replay protection and cached verifyTrust results, exposed as Express / Node http middleware
+ */
+
+import type { JsonWebKey, KeyObject } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import axios, { AxiosInstance } from 'axios';
+import { MemoryCache } from './caching';
+import { requireNodeCrypto } from './runtime';
+import { ShoraConfigurationError } from './error-handling';
+import { getHeader } from './rate-limit';
+import { MemoryNonceStore, NonceStore } from './nonce-store';
+import { verifyHttpMessageSignature, SignatureKey, SignatureParams, HttpSignatureFailureReason } from './http-signatures';
+import type { TrustVerificationRequest, TrustVerificationResponse } from './auth';
+
+export const AGENT_KEY_DIRECTORY_PATH = '/.well-known/http-message-signatures-directory';
+
+export type AgentTrustFailureReason =
+  | HttpSignatureFailureReason
+  | 'agent_not_allowed'
+  | 'replayed'
+  | 'untrusted'
+  | 'verification_unavailable';
+
+export interface AgentTrustResult {
+  verified: boolean;
+  reason?: AgentTrustFailureReason;
+  error?: string;
+  keyId?: string;
+  signatureAgent?: string;
+  agent_name?: string;
+  fraud_reduction?: number;
+  correlation_id?: string;
+  params?: SignatureParams;
+}
+
+declare module 'http' {
+  interface IncomingMessage {
+    shoraAgent?: AgentTrustResult;
+    rawBody?: string | Buffer; // Set by a raw body parser so Content-Digest can be checked
+  }
+}
+
+export interface AgentTrustOptions {
+  verifyTrust?: (request: TrustVerificationRequest) => Promise<TrustVerificationResponse>; // e.g. sdk.auth.verifyTrust
+  keys?: Record<string, SignatureKey>; // Static agent keys by keyid, checked before any directory
+  allowedAgents?: string[]; // Signature-Agent origins whose key directories may be fetched; keys or allowedAgents is required
+  directoryTtl?: number; // Milliseconds to cache a fetched key directory, defaults to 1 hour
+  trustTtl?: number; // Milliseconds to cache a verifyTrust result per agent key, defaults to 5 minutes
+  nonceStore?: NonceStore;
+  requireNonce?: boolean; // Defaults to true
+  maxAge?: number; // Seconds, see verifyHttpMessageSignature
+  requiredComponents?: string[];
+  optional?: boolean; // Let unverified requests through with req.shoraAgent.verified = false
+  trustProxy?: boolean; // Use X-Forwarded-Proto/Host when rebuilding the request URL
+  httpClient?: AxiosInstance;
+}
+
+const FAILURE_STATUS: Partial<Record<AgentTrustFailureReason, number>> = {
+  agent_not_allowed: 403,
+  untrusted: 403,
+  verification_unavailable: 503,
+};
+
+function jwkToKey(jwk: JsonWebKey): KeyObject | undefined {
+  try {
+    return requireNodeCrypto('Agent trust verification').createPublicKey({ key: jwk, format: 'jwk' });
+  } catch {
+    return undefined;
+  }
+}
+
+function stripQuotes(value: string): string {
+  return value.replace(/^"(.*)"$/, '$1');
+}
+
+export class AgentTrustVerifier {
+  private readonly directories: MemoryCache<Record<string, KeyObject>>;
+  private readonly trusted: MemoryCache<TrustVerificationResponse>;
+  private readonly nonceStore: NonceStore;
+  private readonly client: AxiosInstance;
+
+  constructor(private readonly options: AgentTrustOptions) {
+    // Without either, any https origin could name itself as Signature-Agent and serve its own key
+    if (!Object.keys(options.keys ?? {}).length && !options.allowedAgents?.length) {
+      throw new ShoraConfigurationError('Agent trust verification needs keys or allowedAgents', { code: 'AGENT_TRUST_UNCONFIGURED' });
+    }
+    this.directories = new MemoryCache({ ttl: options.directoryTtl ?? 60 * 60 * 1000, maxSize: 1000 });
+    this.trusted = new MemoryCache({ ttl: options.trustTtl ?? 5 * 60 * 1000, maxSize: 10000 });
+    this.nonceStore = options.nonceStore ?? new MemoryNonceStore();
+    this.client = options.httpClient ?? axios.create({ timeout: 5000 });
+  }
+
+  async verify(req: IncomingMessage & { originalUrl?: string; body?: unknown }): Promise<AgentTrustResult> {
+    const signatureAgentHeader = getHeader(req.headers, 'Signature-Agent');
+    const signatureAgent = signatureAgentHeader ? stripQuotes(signatureAgentHeader) : undefined;
+    if (signatureAgent && !this.isAllowedAgent(signatureAgent) && !this.options.keys) {
+      return { verified: false, reason: 'agent_not_allowed', error: `Agent ${signatureAgent} is not allowed`, signatureAgent };
+    }
+
+    // A body already parsed into an object leaves no raw bytes, so a covered Content-Digest then fails
+    const body = req.rawBody ?? (typeof req.body === 'string' || Buffer.isBuffer(req.body) ? req.body : undefined);
+    const request = { method: req.method || 'GET', url: this.requestUrl(req), headers: req.headers, body };
+    const maxAge = this.options.maxAge ?? 300;
+
+    let verification;
+    try {
+      verification = await verifyHttpMessageSignature(request, {
+        keys: (keyId) => this.resolveKey(keyId, signatureAgent),
+        requiredComponents: this.options.requiredComponents,
+        maxAge,
+      });
+    } catch (error) {
+      return { verified: false, reason: 'verification_unavailable', error: String(error), signatureAgent };
+    }
+    if (!verification.valid) {
+      return { verified: false, reason: verification.reason, error: verification.error, keyId: verification.keyId, signatureAgent };
+    }
+
+    const { keyId, params } = verification;
+    if (signatureAgentHeader !== undefined && !verification.components.includes('signature-agent')) {
+      return { verified: false, reason: 'missing_component', error: 'Signature does not cover Signature-Agent', keyId, signatureAgent };
+    }
+    if (!params.nonce && this.options.requireNonce !== false) {
+      return { verified: false, reason: 'malformed', error: 'Signature has no nonce', keyId, signatureAgent };
+    }
+    if (params.nonce) {
+      const expiresAt = ((params.expires ?? params.created! + maxAge) + 30) * 1000;
+      if (!(await this.nonceStore.consume(`agent:${keyId}:${params.nonce}`, expiresAt))) {
+        return { verified: false, reason: 'replayed', error: 'Signature nonce was already used', keyId, signatureAgent };
+      }
+    }
+
+    const result: AgentTrustResult = { verified: true, keyId, signatureAgent, params };
+    if (!this.options.verifyTrust) return result;
+
+    const cacheKey = `${signatureAgent ?? ''}|${keyId}`;
+    let trust = this.trusted.get(cacheKey);
+    if (!trust) {
+      try {
+        trust = await this.options.verifyTrust({
+          signature_agent: signatureAgent ?? keyId,
+          signature_input: getHeader(req.headers, 'Signature-Input')!,
+          signature: getHeader(req.headers, 'Signature')!,
+          request_data: { method: request.method, url: request.url },
+          timestamp: Date.now(),
+        });
+      } catch (error) {
+        return { verified: false, reason: 'verification_unavailable', error: String(error), keyId, signatureAgent };
+      }
+      if (trust.valid) this.trusted.set(cacheKey, trust);
+    }
+    if (!trust.valid) {
+      return { verified: false, reason: 'untrusted', error: trust.message, keyId, signatureAgent, correlation_id: trust.correlation_id };
+    }
+    return {
+      ...result,
+      agent_name: trust.agent_name,
+      fraud_reduction: trust.fraud_reduction,
+      correlation_id: trust.correlation_id,
+    };
+  }
+
+  /**
+   * Express-compatible `(req, res, next)` middleware; also works with a plain Node `http` server.
+   */
+  middleware() {
+    return (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void): void => {
+      this.verify(req).then(
+        (result) => {
+          req.shoraAgent = result;
+          if (result.verified || this.options.optional) return next();
+          res.statusCode = FAILURE_STATUS[result.reason!] ?? 401;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ error: result.error, code: result.reason }));
+        },
+        next
+      );
+    };
+  }
+
+  private isAllowedAgent(signatureAgent: string): boolean {
+    let origin: string;
+    try {
+      const url = new URL(signatureAgent);
+      if (url.protocol !== 'https:') return false;
+      origin = url.origin;
+    } catch {
+      return false;
+    }
+    return (this.options.allowedAgents ?? []).some((agent) => new URL(agent).origin === origin);
+  }
+
+  private async resolveKey(keyId: string, signatureAgent?: string): Promise<SignatureKey | undefined> {
+    const known = this.options.keys?.[keyId];
+    if (known || !signatureAgent || !this.isAllowedAgent(signatureAgent)) return known;
+    const directory = await this.loadDirectory(new URL(AGENT_KEY_DIRECTORY_PATH, signatureAgent).href);
+    return directory[keyId];
+  }
+
+  private async loadDirectory(url: string): Promise<Record<string, KeyObject>> {
+    const cached = this.directories.get(url);
+    if (cached) return cached;
+    const response = await this.client.get(url, { headers: { Accept: 'application/http-message-signatures-directory+json' } });
+    const directory: Record<string, KeyObject> = {};
+    for (const jwk of response.data?.keys ?? []) {
+      const key = jwkToKey(jwk);
+      if (key && jwk.kid) directory[jwk.kid] = key;
+    }
+    this.directories.set(url, directory);
+    return directory;
+  }
+
+  private requestUrl(req: IncomingMessage & { originalUrl?: string }): string {
+    const forwarded = (name: string) => (this.options.trustProxy ? getHeader(req.headers, name)?.split(',')[0].trim() : undefined);
+    const proto = forwarded('X-Forwarded-Proto') ?? ((req.socket as any)?.encrypted ? 'https' : 'http');
+    const host = forwarded('X-Forwarded-Host') ?? getHeader(req.headers, 'Host') ?? 'localhost';
+    return `${proto}://${host}${req.originalUrl ?? req.url ?? '/'}`;
+  }
+}
+
+export function createAgentTrustMiddleware(options: AgentTrustOptions) {
+  return new AgentTrustVerifier(options).middleware();
+}
@@ -0,0 +1,118 @@
+/**
+ * Hash-chained audit entries and chain verification
+ */
+
+import { hmacSha256Hex, sha256Hex, timingSafeEqualStrings } from './crypto-runtime';
+import type { AuditLogEntry } from './security_enhance';
+
+export const AUDIT_CHAIN_GENESIS = '0'.repeat(64);
+
+export interface AuditChainHead {
+  sequence: number; // Sequence of the last entry written, 0 for an empty chain
+  hash: string;
+}
+
+export type AuditChainIssueType = 'missing_hash' | 'gap' | 'reordered' | 'broken_link' | 'modified';
+
+export interface AuditChainIssue {
+  index: number;
+  sequence?: number;
+  type: AuditChainIssueType;
+  message: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  head?: AuditChainHead;
+  issues: AuditChainIssue[];
+}
+
+export interface VerifyAuditChainOptions {
+  key?: string; // HMAC key the chain was signed with
+  anchor?: AuditChainHead; // Known head preceding the first entry, e.g. from a previous export
+}
+
+function canonicalize(value: any): any {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, any>>((out, key) => {
+        if (value[key] !== undefined) out[key] = canonicalize(value[key]);
+        return out;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * Hashes every field except `hash` itself, with keys sorted so entries survive a JSON round trip.
+ */
+export function computeAuditEntryHash(entry: AuditLogEntry, key?: string): string {
+  const payload = JSON.stringify(canonicalize({ ...entry, hash: undefined }));
+  return key ? hmacSha256Hex(key, payload) : sha256Hex(payload);
+}
+
+export class AuditChain {
+  private head: AuditChainHead;
+
+  constructor(private readonly key?: string, head?: AuditChainHead) {
+    this.head = head ? { ...head } : { sequence: 0, hash: AUDIT_CHAIN_GENESIS };
+  }
+
+  append(entry: AuditLogEntry): AuditLogEntry {
+    const chained: AuditLogEntry = {
+      ...entry,
+      sequence: this.head.sequence + 1,
+      previousHash: this.head.hash,
+    };
+    chained.hash = computeAuditEntryHash(chained, this.key);
+    this.head = { sequence: chained.sequence!, hash: chained.hash };
+    return chained;
+  }
+
+  getHead(): AuditChainHead {
+    return { ...this.head };
+  }
+}
+
+/**
+ * Checks a stored or exported log, in the order it was written, for gaps, reordering and modification.
+ * A log that starts mid-chain (e.g. after rotation) is accepted unless an `anchor` is given.
+ */
+export function verifyAuditChain(entries: AuditLogEntry[], options: VerifyAuditChainOptions = {}): AuditChainVerification {
+  const issues: AuditChainIssue[] = [];
+  let previous: AuditChainHead | undefined = options.anchor;
+
+  entries.forEach((entry, index) => {
+    const issue = (type: AuditChainIssueType, message: string) =>
+      issues.push({ index, sequence: entry.sequence, type, message });
+
+    if (entry.sequence === undefined || !entry.hash || entry.previousHash === undefined) {
+      issue('missing_hash', 'Entry has no chain fields');
+      previous = undefined;
+      return;
+    }
+
+    if (!timingSafeEqualStrings(computeAuditEntryHash(entry, options.key), entry.hash)) {
+      issue('modified', `Entry ${entry.sequence} does not match its hash`);
+    }
+
+    if (!previous) {
+      if (entry.sequence === 1 && entry.previousHash !== AUDIT_CHAIN_GENESIS) {
+        issue('broken_link', 'First entry does not link to the chain genesis');
+      }
+    } else if (entry.sequence > previous.sequence + 1) {
+      issue('gap', `Entries ${previous.sequence + 1}-${entry.sequence - 1} are missing`);
+    } else if (entry.sequence <= previous.sequence) {
+      issue('reordered', `Entry ${entry.sequence} appears after entry ${previous.sequence}`);
+    } else if (entry.previousHash !== previous.hash) {
+      issue('broken_link', `Entry ${entry.sequence} does not link to entry ${previous.sequence}`);
+    }
+
+    previous = { sequence: entry.sequence, hash: entry.hash };
+  });
+
+  return { valid: issues.length === 0, checked: entries.length, head: previous, issues };
+}
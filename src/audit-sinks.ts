@@ -0,0 +1,297 @@
+/**
+ * Audit log sinks: where SecurityEnhancement delivers audit entries
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { withRetry, RetryOptions } from './retry-logic';
+import { requireNodeFs } from './runtime';
+import { ShoraError } from './error-handling';
+import type { AuditLogEntry } from './security_enhance';
+
+const fs = () => requireNodeFs('File-backed audit sinks').promises;
+
+export interface AuditSink {
+  write(entry: AuditLogEntry): void | Promise<void>;
+  flush?(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export class MemoryAuditSink implements AuditSink {
+  private buffer: AuditLogEntry[] = [];
+
+  constructor(private readonly maxSize: number = 1000) {}
+
+  write(entry: AuditLogEntry): void {
+    this.buffer.push(entry);
+    if (this.buffer.length > this.maxSize) {
+      this.buffer.splice(0, this.buffer.length - this.maxSize);
+    }
+  }
+
+  entries(): AuditLogEntry[] {
+    return [...this.buffer];
+  }
+
+  clear(): void {
+    this.buffer = [];
+  }
+}
+
+export class ConsoleAuditSink implements AuditSink {
+  constructor(
+    // eslint-disable-next-line no-console -- printing entries is this sink's purpose; pass a logger to route them elsewhere
+    private readonly log: (line: string) => void = (line) => console.info(line)
+  ) {}
+
+  write(entry: AuditLogEntry): void {
+    this.log(`[Shora-SDK] audit ${JSON.stringify(entry)}`);
+  }
+}
+
+export interface JsonlFileAuditSinkOptions {
+  path: string;
+  maxBytes?: number; // Rotate once the active file reaches this size
+  maxFiles?: number; // Rotated files to keep: path.1 ... path.N
+}
+
+export class JsonlFileAuditSink implements AuditSink {
+  private readonly path: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(options: JsonlFileAuditSinkOptions) {
+    this.path = options.path;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  write(entry: AuditLogEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    // Appends are chained so lines never interleave and rotation never races a write
+    this.pending = this.pending.catch(() => undefined).then(async () => {
+      await this.rotateIfNeeded(Buffer.byteLength(line));
+      await fs().appendFile(this.path, line, 'utf8');
+    });
+    return this.pending;
+  }
+
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+
+  private async rotateIfNeeded(incoming: number): Promise<void> {
+    let size = 0;
+    try {
+      size = (await fs().stat(this.path)).size;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return;
+      throw error;
+    }
+    if (size + incoming <= this.maxBytes) return;
+
+    await fs().rm(`${this.path}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await fs().rename(`${this.path}.${i}`, `${this.path}.${i + 1}`).catch(() => undefined);
+    }
+    await fs().rename(this.path, `${this.path}.1`);
+  }
+}
+
+export interface AuditBatch {
+  id: string; // Sent as the Idempotency-Key so redelivery never duplicates entries
+  entries: AuditLogEntry[];
+}
+
+/**
+ * Holds batches until the endpoint confirms them. HttpAuditSink enqueues every batch before its
+ * first send and acknowledges it only after delivery, so a crash or outage never loses entries.
+ */
+export interface AuditRetryQueue {
+  enqueue(batch: AuditBatch): Promise<void>;
+  pending(): Promise<AuditBatch[]>; // Unacknowledged batches, oldest first
+  acknowledge(ids: string[]): Promise<void>;
+}
+
+export class MemoryAuditRetryQueue implements AuditRetryQueue {
+  private batches: AuditBatch[] = [];
+
+  constructor(
+    private readonly maxBatches: number = 100,
+    private readonly onDrop?: (batch: AuditBatch) => void // Called for the oldest batch once the queue is full
+  ) {}
+
+  async enqueue(batch: AuditBatch): Promise<void> {
+    this.batches.push(batch);
+    if (this.batches.length > this.maxBatches) {
+      const dropped = this.batches.shift()!;
+      this.onDrop?.(dropped);
+    }
+  }
+
+  async pending(): Promise<AuditBatch[]> {
+    return [...this.batches];
+  }
+
+  async acknowledge(ids: string[]): Promise<void> {
+    const delivered = new Set(ids);
+    this.batches = this.batches.filter((batch) => !delivered.has(batch.id));
+  }
+}
+
+/**
+ * Persists batches as JSON lines so they survive process restarts. A batch leaves the file only
+ * once it is acknowledged; the file is rewritten to a temporary path and renamed over the original.
+ */
+export class FileAuditRetryQueue implements AuditRetryQueue {
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  enqueue(batch: AuditBatch): Promise<void> {
+    return this.exclusive(() => fs().appendFile(this.path, `${JSON.stringify(batch)}\n`, 'utf8'));
+  }
+
+  pending(): Promise<AuditBatch[]> {
+    return this.exclusive(() => this.read());
+  }
+
+  acknowledge(ids: string[]): Promise<void> {
+    const delivered = new Set(ids);
+    return this.exclusive(async () => {
+      const remaining = (await this.read()).filter((batch) => !delivered.has(batch.id));
+      if (!remaining.length) {
+        await fs().rm(this.path, { force: true });
+        return;
+      }
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await fs().writeFile(temporary, remaining.map((batch) => `${JSON.stringify(batch)}\n`).join(''), 'utf8');
+      await fs().rename(temporary, this.path);
+    });
+  }
+
+  private async read(): Promise<AuditBatch[]> {
+    let content: string;
+    try {
+      content = await fs().readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+    const batches = new Map<string, AuditBatch>();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const batch = JSON.parse(line) as AuditBatch;
+        if (!batches.has(batch.id)) batches.set(batch.id, batch);
+      } catch {
+        // A crash mid-append leaves a truncated last line; that batch was never acknowledged as queued
+      }
+    }
+    return [...batches.values()];
+  }
+
+  // Reads and rewrites must not interleave with appends from the same process
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.catch(() => undefined).then(fn);
+    this.lock = result;
+    return result;
+  }
+}
+
+export interface HttpAuditSinkOptions {
+  endpoint: string;
+  batchSize?: number;
+  flushInterval?: number; // Milliseconds between background flushes
+  headers?: Record<string, string>;
+  retry?: RetryOptions;
+  retryQueue?: AuditRetryQueue; // In-memory by default, so not durable; use FileAuditRetryQueue to survive restarts
+  client?: AxiosInstance;
+  onError?: (error: unknown) => void; // Background flush failures; undelivered batches stay queued either way
+}
+
+/**
+ * Batches entries and POSTs them to an audit endpoint. The default retry queue holds 100 batches in memory:
+ * it does not survive a restart, and during a long outage it evicts the oldest batches. Evictions are never
+ * silent: the flush that caused them rejects with `AUDIT_BATCH_DROPPED` (reported to `onError` for
+ * background flushes).
+ */
+export class HttpAuditSink implements AuditSink {
+  private buffer: AuditLogEntry[] = [];
+  private readonly batchSize: number;
+  private readonly retryQueue: AuditRetryQueue;
+  private readonly timer?: ReturnType<typeof setInterval>;
+  private flushing: Promise<void> = Promise.resolve();
+  private dropped = 0; // Batches evicted by the default queue since the last flush reported them
+
+  constructor(private readonly options: HttpAuditSinkOptions) {
+    this.batchSize = options.batchSize ?? 50;
+    this.retryQueue = options.retryQueue ?? new MemoryAuditRetryQueue(100, () => {
+      this.dropped += 1;
+    });
+    const interval = options.flushInterval ?? 5000;
+    if (interval > 0) {
+      this.timer = setInterval(() => this.flushInBackground(), interval);
+      // Background flushing must not keep the host process alive
+      this.timer.unref?.();
+    }
+  }
+
+  write(entry: AuditLogEntry): void {
+    this.buffer.push(entry);
+    if (this.buffer.length >= this.batchSize) this.flushInBackground();
+  }
+
+  flush(): Promise<void> {
+    this.flushing = this.flushing.catch(() => undefined).then(() => this.deliver());
+    return this.flushing;
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    await this.flush();
+  }
+
+  private flushInBackground(): void {
+    this.flush().catch((error) => this.options.onError?.(error));
+  }
+
+  private async deliver(): Promise<void> {
+    while (this.buffer.length) {
+      const batch: AuditBatch = { id: uuidv4(), entries: this.buffer.slice(0, this.batchSize) };
+      // Persisted before the first send attempt; if the queue itself fails the entries stay buffered
+      await this.retryQueue.enqueue(batch);
+      this.buffer.splice(0, batch.entries.length);
+    }
+    let failure: { error: unknown } | undefined;
+    try {
+      for (const batch of await this.retryQueue.pending()) {
+        // Endpoint is down: the batch and those after it stay queued for the next flush
+        await this.send(batch);
+        await this.retryQueue.acknowledge([batch.id]);
+      }
+    } catch (error) {
+      failure = { error };
+    }
+    if (this.dropped) {
+      const dropped = this.dropped;
+      this.dropped = 0;
+      throw new ShoraError(`Audit retry queue full, dropped ${dropped} undelivered batch(es)`, undefined, 'AUDIT_BATCH_DROPPED', 'AUDIT', {
+        cause: failure?.error,
+      });
+    }
+    if (failure) throw failure.error;
+  }
+
+  private async send(batch: AuditBatch): Promise<void> {
+    const client = this.options.client ?? axios;
+    await withRetry(
+      () =>
+        client.post(this.options.endpoint, batch.entries, {
+          headers: { 'Content-Type': 'application/json', 'Idempotency-Key': batch.id, ...this.options.headers },
+        }),
+      { ...this.options.retry, method: 'POST', idempotencyKey: batch.id }
+    );
+  }
+}
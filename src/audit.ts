@@ -0,0 +1,58 @@
+import { AxiosInstance } from 'axios';
+import { parseError } from './error-handling';
+import { Paginator, serializeFilter } from './pagination';
+import type { ListFilter, PageRequest } from './pagination';
+
+export interface AuditRecord {
+  id: string;
+  action: string;
+  tenant_id: string | number;
+  user_id?: string;
+  details?: Record<string, any>;
+  timestamp: string;
+}
+
+export interface AuditListRequest extends PageRequest {
+  filter?: ListFilter;
+}
+
+export interface AuditListResponse {
+  logs: AuditRecord[];
+  total?: number;
+  has_more?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export class AuditService {
+  private client: AxiosInstance;
+  private tenantId?: string;
+
+  constructor(client: AxiosInstance, options: { tenantId?: string } = {}) {
+    this.client = client;
+    this.tenantId = options.tenantId;
+  }
+
+  list(request: AuditListRequest = {}): Paginator<AuditRecord> {
+    return new Paginator(async (limit, offset) => {
+      const data = await this.fetch({ ...request, limit, offset });
+      return { items: data.logs || [], total: data.total, hasMore: data.has_more };
+    }, request);
+  }
+
+  private async fetch(request: AuditListRequest): Promise<AuditListResponse> {
+    try {
+      const response = await this.client.get('/v2/audit', {
+        params: {
+          tenant_id: this.tenantId,
+          limit: request.limit,
+          offset: request.offset,
+          filter: serializeFilter(request.filter),
+        },
+      });
+      return response.data;
+    } catch (error: any) {
+      throw parseError(error);
+    }
+  }
+}
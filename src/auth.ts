@@ -1,137 +1,330 @@
 import { AxiosInstance } from 'axios';
 import { parseError } from './error-handling';
+import type { MandateGuard } from './mandate-guard';
+import { Money, MoneyInput, toWire, toWireAmount } from './money';
+import { schema, schemaError, Infer, SchemaValidationOptions, validateRequest, validateResponse } from './schema';
+import { ShoraTelemetry } from './telemetry';
 
-export interface MandateRequest {
- agent_id: string;
- max_amount: number;
- currency: string;
- expires_at: string;
- description?: string;
-}
+const MandateStatusSchema = schema.enum(['active', 'inactive', 'expired', 'revoked'] as const);
+export type MandateStatus = Infer<typeof MandateStatusSchema>;
 
-export interface MandateResponse {
- id: string;
- agent_id: string;
- max_amount: number;
- currency: string;
- status: 'active' | 'inactive' | 'expired';
- expires_at: string;
- created_at: string;
-}
+export const MandateRequestSchema = schema.object({
+  agent_id: schema.string({ minLength: 1 }),
+  max_amount: schema.money(),
+  currency: schema.string({ format: 'currency' }),
+  expires_at: schema.string({ format: 'date-time', future: true }),
+  description: schema.string().optional(),
+});
+export type MandateRequest = Infer<typeof MandateRequestSchema>;
 
-export interface TokenRequest {
- mandate_id: string;
- amount: number;
- currency: string;
- description?: string;
-}
+export const MandateResponseSchema = schema.object({
+  id: schema.string(),
+  agent_id: schema.string(),
+  max_amount: schema.number(),
+  currency: schema.string(),
+  status: MandateStatusSchema,
+  expires_at: schema.string(),
+  created_at: schema.string(),
+  updated_at: schema.string().optional(),
+  revoked_at: schema.string().optional(),
+  spent_amount: schema.number().optional(),
+  description: schema.string().optional(),
+});
+export type MandateResponse = Infer<typeof MandateResponseSchema>;
 
-export interface TokenResponse {
- id: string;
- mandate_id: string;
- value: string;
- expires_at: string;
- created_at: string;
-}
+export const MandateListRequestSchema = schema.object({
+  agent_id: schema.string().optional(),
+  status: MandateStatusSchema.optional(),
+  limit: schema.number({ integer: true, positive: true }).optional(),
+  offset: schema.number({ integer: true, min: 0 }).optional(),
+});
+export type MandateListRequest = Infer<typeof MandateListRequestSchema>;
 
-export interface AgentPaymentRequest {
- token: string;
- amount: number;
- currency: string;
- description?: string;
-}
+export const MandateListResponseSchema = schema.object({
+  mandates: schema.array(MandateResponseSchema),
+  total: schema.number(),
+  limit: schema.number(),
+  offset: schema.number(),
+});
+export type MandateListResponse = Infer<typeof MandateListResponseSchema>;
 
-export interface AgentPaymentResponse {
-  id: string;
-  status: 'completed' | 'failed';
-  amount: number;
-  currency: string;
-  created_at: string;
-}
+export const MandateBalanceSchema = schema.object({
+  mandate_id: schema.string(),
+  currency: schema.string(),
+  max_amount: schema.number(),
+  spent_amount: schema.number(),
+  remaining_amount: schema.number(),
+  status: MandateStatusSchema,
+  expires_at: schema.string(),
+});
+export type MandateBalance = Infer<typeof MandateBalanceSchema>;
 
-export interface TrustVerificationRequest {
-  signature_agent: string;
-  signature_input: string;
-  signature: string;
-  request_data?: Record<string, any>;
-  timestamp?: number;
-  session_id?: string;
-}
+export const TokenRequestSchema = schema.object({
+  mandate_id: schema.string({ minLength: 1 }),
+  amount: schema.money(),
+  currency: schema.string({ format: 'currency' }),
+  description: schema.string().optional(),
+});
+export type TokenRequest = Infer<typeof TokenRequestSchema>;
 
-export interface TrustVerificationResponse {
-  valid: boolean;
-  agent_name?: string;
-  message: string;
-  correlation_id: string;
-  fraud_reduction?: number;
-}
+export const TokenResponseSchema = schema.object({
+  id: schema.string(),
+  mandate_id: schema.string(),
+  value: schema.string(),
+  expires_at: schema.string(),
+  created_at: schema.string(),
+});
+export type TokenResponse = Infer<typeof TokenResponseSchema>;
+
+export const TokenValidationResponseSchema = schema.object({
+  valid: schema.boolean(),
+  expires_at: schema.string().optional(),
+});
+export type TokenValidationResponse = Infer<typeof TokenValidationResponseSchema>;
 
-export interface TrustStatusResponse {
-  trusted: boolean;
-  status: string;
-  tenant_id?: string;
+export const AgentPaymentRequestSchema = schema.object({
+  token: schema.string({ minLength: 1 }),
+  amount: schema.money(),
+  currency: schema.string({ format: 'currency' }),
+  description: schema.string().optional(),
+});
+export type AgentPaymentRequest = Infer<typeof AgentPaymentRequestSchema>;
+
+export const AgentPaymentResponseSchema = schema.object({
+  id: schema.string(),
+  status: schema.enum(['completed', 'failed'] as const),
+  amount: schema.number(),
+  currency: schema.string(),
+  created_at: schema.string(),
+});
+export type AgentPaymentResponse = Infer<typeof AgentPaymentResponseSchema>;
+
+export const TrustVerificationRequestSchema = schema.object({
+  signature_agent: schema.string({ minLength: 1 }),
+  signature_input: schema.string({ minLength: 1 }),
+  signature: schema.string({ minLength: 1 }),
+  request_data: schema.record().optional(),
+  timestamp: schema.number().optional(),
+  session_id: schema.string().optional(),
+});
+export type TrustVerificationRequest = Infer<typeof TrustVerificationRequestSchema>;
+
+export const TrustVerificationResponseSchema = schema.object({
+  valid: schema.boolean(),
+  agent_name: schema.string().optional(),
+  message: schema.string(),
+  correlation_id: schema.string(),
+  fraud_reduction: schema.number().optional(),
+});
+export type TrustVerificationResponse = Infer<typeof TrustVerificationResponseSchema>;
+
+export const TrustStatusResponseSchema = schema.object({
+  trusted: schema.boolean(),
+  status: schema.string(),
+  tenant_id: schema.string().optional(),
+});
+export type TrustStatusResponse = Infer<typeof TrustStatusResponseSchema>;
+
+const MandateLimitUpdateSchema = schema.object({ max_amount: schema.money() });
+const MandateRenewalSchema = schema.object({ expires_at: schema.string({ format: 'date-time', future: true }) });
+
+export interface AuthServiceOptions extends SchemaValidationOptions {
+ mandateGuard?: MandateGuard;
+ telemetry?: ShoraTelemetry;
 }
 
 export class AuthService {
  private client: AxiosInstance;
+ private mandateGuard?: MandateGuard;
+ private validation: SchemaValidationOptions;
+ private telemetry: ShoraTelemetry;
 
- constructor(client: AxiosInstance) {
+ constructor(client: AxiosInstance, options: AuthServiceOptions = {}) {
  this.client = client;
+ this.mandateGuard = options.mandateGuard;
+ this.validation = options;
+ this.telemetry = options.telemetry ?? new ShoraTelemetry();
  }
 
  async createMandate(request: MandateRequest): Promise<MandateResponse> {
+ return this.traced('createMandate', 'POST', '/v2/agents/mandates', async () => {
+ const body = toWire(validateRequest(MandateRequestSchema, request, this.validation));
  try {
- const response = await this.client.post('/v2/agents/mandates', request);
- return response.data;
+ const response = await this.client.post('/v2/agents/mandates', body);
+ const mandate = validateResponse(MandateResponseSchema, response.data, this.validation);
+ await this.mandateGuard?.trackMandate(mandate);
+ return mandate;
  } catch (error: any) {
  throw parseError(error);
  }
+ });
  }
 
- async generateToken(request: TokenRequest): Promise<TokenResponse> {
+ async generateToken(tokenRequest: TokenRequest): Promise<TokenResponse> {
+ return this.traced('generateToken', 'POST', '/v2/agents/tokens', async () => {
+ const request = toWire(validateRequest(TokenRequestSchema, tokenRequest, this.validation));
+ if (this.mandateGuard && !(await this.mandateGuard.isTracked(request.mandate_id))) {
+ await this.getMandate(request.mandate_id);
+ }
+ await this.mandateGuard?.beforeGenerateToken(request);
+ let token: TokenResponse;
  try {
  const response = await this.client.post('/v2/agents/tokens', request);
- return response.data;
+ token = validateResponse(TokenResponseSchema, response.data, this.validation);
  } catch (error: any) {
+ await this.mandateGuard?.afterGenerateToken(request);
  throw parseError(error);
  }
+ await this.mandateGuard?.afterGenerateToken(request, token);
+ return token;
+ });
  }
 
- async pay(request: AgentPaymentRequest): Promise<AgentPaymentResponse> {
+ async pay(paymentRequest: AgentPaymentRequest): Promise<AgentPaymentResponse> {
+ return this.traced('pay', 'POST', '/v2/agents/pay', async () => {
+ const request = toWire(validateRequest(AgentPaymentRequestSchema, paymentRequest, this.validation));
+ await this.mandateGuard?.beforePay(request);
+ let payment: AgentPaymentResponse;
  try {
  const response = await this.client.post('/v2/agents/pay', request);
- return response.data;
+ payment = response.data;
  } catch (error: any) {
- throw parseError(error);
+ const parsed = parseError(error);
+ await this.mandateGuard?.afterPay(request, undefined, parsed);
+ throw parsed;
  }
+ // Outside the try so a guard failure here is never booked as a failed payment
+ await this.mandateGuard?.afterPay(request, payment);
+ // Checked after the guard has recorded the spend; the payment went through either way
+ return validateResponse(AgentPaymentResponseSchema, payment, this.validation);
+ });
  }
 
-  async validateToken(token: string): Promise<{ valid: boolean; expires_at?: string }> {
-    try {
-      const response = await this.client.get('/v2/agents/tokens/validate', {
-        headers: { Authorization: `Bearer ${token}` },
+  async getMandate(mandateId: string): Promise<MandateResponse> {
+    return this.traced('getMandate', 'GET', '/v2/agents/mandates/{mandateId}', async () => {
+      try {
+        const response = await this.client.get(`/v2/agents/mandates/${mandateId}`);
+        const mandate = validateResponse(MandateResponseSchema, response.data, this.validation);
+        await this.mandateGuard?.trackMandate(mandate);
+        return mandate;
+      } catch (error: any) {
+        throw parseError(error);
+      }
+    });
+  }
+
+  async listMandates(request: MandateListRequest = {}): Promise<MandateListResponse> {
+    return this.traced('listMandates', 'GET', '/v2/agents/mandates', async () => {
+      const params = validateRequest(MandateListRequestSchema, request, this.validation);
+      try {
+        const response = await this.client.get('/v2/agents/mandates', { params });
+        return validateResponse(MandateListResponseSchema, response.data, this.validation);
+      } catch (error: any) {
+        throw parseError(error);
+      }
+    });
+  }
+
+  async revokeMandate(mandateId: string, reason?: string): Promise<MandateResponse> {
+    return this.traced('revokeMandate', 'POST', '/v2/agents/mandates/{mandateId}/revoke', async () => {
+      try {
+        const response = await this.client.post(`/v2/agents/mandates/${mandateId}/revoke`, reason ? { reason } : {});
+        await this.mandateGuard?.revoke(mandateId);
+        return validateResponse(MandateResponseSchema, response.data, this.validation);
+      } catch (error: any) {
+        throw parseError(error);
+      }
+    });
+  }
+
+  async updateMandateLimit(mandateId: string, maxAmount: MoneyInput): Promise<MandateResponse> {
+    return this.traced('updateMandateLimit', 'PATCH', '/v2/agents/mandates/{mandateId}', async () => {
+      validateRequest(MandateLimitUpdateSchema, { max_amount: maxAmount }, this.validation);
+      try {
+        const response = await this.client.patch(`/v2/agents/mandates/${mandateId}`, { max_amount: toWireAmount(maxAmount) });
+        const mandate = validateResponse(MandateResponseSchema, response.data, this.validation);
+        await this.mandateGuard?.trackMandate(mandate);
+        return mandate;
+      } catch (error: any) {
+        throw parseError(error);
+      }
+    });
+  }
+
+  async renewMandate(mandateId: string, expiresAt: string): Promise<MandateResponse> {
+    return this.traced('renewMandate', 'POST', '/v2/agents/mandates/{mandateId}/renew', async () => {
+      const body = validateRequest(MandateRenewalSchema, { expires_at: expiresAt }, this.validation);
+      try {
+        const response = await this.client.post(`/v2/agents/mandates/${mandateId}/renew`, body);
+        const mandate = validateResponse(MandateResponseSchema, response.data, this.validation);
+        await this.mandateGuard?.trackMandate(mandate);
+        return mandate;
+      } catch (error: any) {
+        throw parseError(error);
+      }
+    });
+  }
+
+  async getMandateBalance(mandateId: string): Promise<MandateBalance> {
+    const mandate = await this.getMandate(mandateId);
+    // Assuming nothing was spent would overstate the funds an agent has left
+    if (mandate.spent_amount === undefined) {
+      throw schemaError([{ path: 'spent_amount', message: 'Missing, so the remaining balance is unknown' }], {
+        message: 'Unexpected API response',
+        code: 'INVALID_RESPONSE',
+        context: 'RESPONSE_VALIDATION',
       });
-      return response.data;
-    } catch (error: any) {
-      throw parseError(error);
     }
+    const limit = Money.of(mandate.max_amount, mandate.currency);
+    const remaining = limit.subtract(Money.of(mandate.spent_amount, mandate.currency));
+    return {
+      mandate_id: mandate.id,
+      currency: mandate.currency,
+      max_amount: mandate.max_amount,
+      spent_amount: mandate.spent_amount,
+      remaining_amount: remaining.isNegative() ? 0 : remaining.toMajor(),
+      status: mandate.status,
+      expires_at: mandate.expires_at,
+    };
+  }
+
+  async validateToken(token: string): Promise<TokenValidationResponse> {
+    return this.traced('validateToken', 'GET', '/v2/agents/tokens/validate', async () => {
+      try {
+        const response = await this.client.get('/v2/agents/tokens/validate', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        return validateResponse(TokenValidationResponseSchema, response.data, this.validation);
+      } catch (error: any) {
+        throw parseError(error);
+      }
+    });
   }
 
   async verifyTrust(request: TrustVerificationRequest): Promise<TrustVerificationResponse> {
-    try {
-      const response = await this.client.post('/v2/agents/verify-trust', request);
-      return response.data;
-    } catch (error: any) {
-      throw parseError(error);
-    }
+    return this.traced('verifyTrust', 'POST', '/v2/agents/verify-trust', async () => {
+      const body = validateRequest(TrustVerificationRequestSchema, request, this.validation);
+      try {
+        const response = await this.client.post('/v2/agents/verify-trust', body);
+        return validateResponse(TrustVerificationResponseSchema, response.data, this.validation);
+      } catch (error: any) {
+        throw parseError(error);
+      }
+    });
   }
 
   async getTrustStatus(): Promise<TrustStatusResponse> {
-    try {
-      const response = await this.client.get('/v2/agents/trust-status');
-      return response.data;
-    } catch (error: any) {
-      throw parseError(error);
-    }
+    return this.traced('getTrustStatus', 'GET', '/v2/agents/trust-status', async () => {
+      try {
+        const response = await this.client.get('/v2/agents/trust-status');
+        return validateResponse(TrustStatusResponseSchema, response.data, this.validation);
+      } catch (error: any) {
+        throw parseError(error);
+      }
+    });
+  }
+
+  private traced<T>(operation: string, method: string, route: string, fn: () => Promise<T>): Promise<T> {
+    return this.telemetry.trace(`auth.${operation}`, { method, route }, fn);
   }
 }
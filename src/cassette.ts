@@ -0,0 +1,211 @@
+/**
+ * HTTP record/replay for integration tests. Recording passes requests to the network and writes each
+ * interaction, with credentials, card tokens and emails redacted, to a JSON cassette; replay answers
+ * from the cassette and never touches the network.
+ */
+
+import { ShoraConfigurationError } from './error-handling';
+import { requireNodeFs } from './runtime';
+import { SANDBOX_CARD_TOKENS } from './sandbox';
+import { AxiosTransport, ShoraTransport, TransportRequest, TransportResponse, resolveTransport } from './transport';
+
+export type CassetteMode = 'record' | 'replay' | 'auto'; // 'auto' replays when the cassette exists, records otherwise
+
+export interface CassetteRequest {
+  method: string;
+  url: string; // Path and query string; the host is dropped so cassettes work against any base URL
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: TransportResponse;
+  recorded_at: string;
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteOptions {
+  path: string;
+  mode?: CassetteMode; // Defaults to 'replay'
+  transport?: ShoraTransport; // Network transport used while recording
+  redactHeaders?: string[]; // Added to the default list
+  redactFields?: string[]; // JSON body keys and query parameters, added to the default list
+  secrets?: string[]; // Values replaced wherever they appear, e.g. the API key
+  ignoreFields?: string[]; // JSON body keys the default matcher skips, added to the default list
+  match?: (recorded: CassetteRequest, request: CassetteRequest) => boolean;
+}
+
+export const REDACTED = '[REDACTED]';
+
+const DEFAULT_REDACTED_HEADERS = ['authorization', 'x-api-key', 'cookie', 'set-cookie', 'signature', 'proxy-authorization'];
+const DEFAULT_REDACTED_FIELDS = [
+  'card_token', 'cardToken', 'delegate_token', 'payment_token', 'token', 'api_key', 'apiKey', 'secret', 'password',
+];
+// Response fields that hold a secret only on specific routes, such as the agent token issued by POST /v2/agents/tokens
+const ROUTE_REDACTED_FIELDS: Record<string, string[]> = { '/v2/agents/tokens': ['value'] };
+// Query parameters that carry credentials under names no JSON body would use
+const DEFAULT_REDACTED_PARAMS = ['key', 'access_token', 'sig'];
+// Values that change on every run, so a replayed request never sends what was recorded
+const DEFAULT_IGNORED_FIELDS = ['timestamp', 'created_at', 'updated_at', 'expires_at', 'nonce'];
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const REDACTED_EMAIL = 'redacted@example.com';
+// Sandbox magic tokens are public test values and select the scenario, so they stay readable
+const PUBLIC_TOKENS = new Set<string>(Object.values(SANDBOX_CARD_TOKENS));
+
+function parseBody(body: string | Uint8Array | undefined): unknown {
+  if (body === undefined || body === '') return undefined;
+  const text = typeof body === 'string' ? body : new TextDecoder().decode(body);
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function sameJson(a: unknown, b: unknown, ignored: ReadonlySet<string>): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a).filter((key) => !ignored.has(key));
+  const keysB = Object.keys(b).filter((key) => !ignored.has(key));
+  return keysA.length === keysB.length && keysA.every((key) => sameJson((a as any)[key], (b as any)[key], ignored));
+}
+
+export function defaultCassetteMatch(
+  recorded: CassetteRequest,
+  request: CassetteRequest,
+  ignoreFields: Iterable<string> = DEFAULT_IGNORED_FIELDS
+): boolean {
+  return recorded.method === request.method && recorded.url === request.url && sameJson(recorded.body, request.body, new Set(ignoreFields));
+}
+
+export class CassetteTransport implements ShoraTransport {
+  readonly mode: 'record' | 'replay';
+
+  private readonly redactedHeaders: Set<string>;
+  private readonly redactedFields: Set<string>;
+  private readonly redactedParams: Set<string>;
+  private readonly ignoredFields: string[];
+  private readonly secrets: string[];
+  private cassette?: Promise<Cassette>;
+  private readonly used = new Set<CassetteInteraction>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: CassetteOptions) {
+    const mode = options.mode ?? 'replay';
+    this.mode = mode === 'auto' ? (requireNodeFs('Cassettes').existsSync(options.path) ? 'replay' : 'record') : mode;
+    this.redactedHeaders = new Set([...DEFAULT_REDACTED_HEADERS, ...(options.redactHeaders ?? [])].map((name) => name.toLowerCase()));
+    this.redactedFields = new Set([...DEFAULT_REDACTED_FIELDS, ...(options.redactFields ?? [])]);
+    this.redactedParams = new Set([...DEFAULT_REDACTED_PARAMS, ...this.redactedFields].map((name) => name.toLowerCase()));
+    this.ignoredFields = [...DEFAULT_IGNORED_FIELDS, ...(options.ignoreFields ?? [])];
+    this.secrets = (options.secrets ?? []).filter(Boolean);
+    if (this.mode === 'record') this.cassette = Promise.resolve({ version: 1, interactions: [] });
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const recorded = this.toCassetteRequest(request);
+    return this.mode === 'record' ? this.record(request, recorded) : this.replay(recorded);
+  }
+
+  /**
+   * Resolves once every recorded interaction has been written to disk.
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private async record(request: TransportRequest, recorded: CassetteRequest): Promise<TransportResponse> {
+    const network = this.options.transport ?? resolveTransport() ?? new AxiosTransport();
+    const response = await network.request(request);
+    const cassette = await this.load();
+    cassette.interactions.push({ request: recorded, response: this.redactResponse(response, recorded.url), recorded_at: new Date().toISOString() });
+    const content = `${JSON.stringify(cassette, null, 2)}\n`;
+    this.writes = this.writes.then(() => requireNodeFs('Cassettes').promises.writeFile(this.options.path, content, 'utf8'));
+    await this.writes;
+    return response;
+  }
+
+  private async replay(request: CassetteRequest): Promise<TransportResponse> {
+    const match = this.options.match ?? ((recorded: CassetteRequest, incoming: CassetteRequest) =>
+      defaultCassetteMatch(recorded, incoming, this.ignoredFields));
+    const candidates = (await this.load()).interactions.filter((interaction) => match(interaction.request, request));
+    // Interactions play back in recorded order; once used up the last one repeats, e.g. for extra polls
+    const interaction = candidates.find((candidate) => !this.used.has(candidate)) ?? candidates[candidates.length - 1];
+    if (!interaction) {
+      throw new ShoraConfigurationError(`No recorded interaction for ${request.method} ${request.url} in ${this.options.path}`, {
+        code: 'CASSETTE_NO_MATCH',
+      });
+    }
+    this.used.add(interaction);
+    return { ...interaction.response, headers: { ...interaction.response.headers } };
+  }
+
+  private load(): Promise<Cassette> {
+    if (!this.cassette) {
+      this.cassette = requireNodeFs('Cassettes').promises.readFile(this.options.path, 'utf8').then(
+        (content) => JSON.parse(content) as Cassette,
+        (error) => {
+          throw new ShoraConfigurationError(`Cannot read cassette ${this.options.path}: ${error.message}`, {
+            code: 'CASSETTE_NOT_FOUND',
+            cause: error,
+          });
+        }
+      );
+    }
+    return this.cassette;
+  }
+
+  private toCassetteRequest(request: TransportRequest): CassetteRequest {
+    const url = new URL(request.url, 'http://cassette.local');
+    // Incoming requests are redacted the same way during replay, so redacted parameters still match
+    for (const name of new Set(url.searchParams.keys())) {
+      if (this.redactedParams.has(name.toLowerCase())) url.searchParams.set(name, REDACTED);
+    }
+    return {
+      method: request.method.toUpperCase(),
+      url: this.redactString(`${url.pathname}${url.search}`),
+      headers: this.redactHeaders(request.headers),
+      body: this.redact(parseBody(request.body)),
+    };
+  }
+
+  private redactResponse(response: TransportResponse, url: string): TransportResponse {
+    const body = parseBody(response.body);
+    const routeFields = ROUTE_REDACTED_FIELDS[url.split('?')[0]];
+    const fields = routeFields ? new Set([...this.redactedFields, ...routeFields]) : this.redactedFields;
+    return {
+      ...response,
+      headers: this.redactHeaders(response.headers),
+      body: typeof body === 'string' ? this.redactString(body) : JSON.stringify(this.redact(body, fields)),
+    };
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const redacted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      redacted[name.toLowerCase()] = this.redactedHeaders.has(name.toLowerCase()) ? REDACTED : this.redactString(value);
+    }
+    return redacted;
+  }
+
+  private redact(value: unknown, fields: ReadonlySet<string> = this.redactedFields, key?: string): unknown {
+    if (typeof value === 'string') {
+      return key && fields.has(key) && !PUBLIC_TOKENS.has(value) ? REDACTED : this.redactString(value);
+    }
+    if (Array.isArray(value)) return value.map((item) => this.redact(item, fields));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([field, item]) => [field, this.redact(item, fields, field)]));
+    }
+    return value;
+  }
+
+  private redactString(value: string): string {
+    const redacted = this.secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+    return redacted.replace(EMAIL_PATTERN, (email) => (email === REDACTED_EMAIL ? email : REDACTED_EMAIL));
+  }
+}
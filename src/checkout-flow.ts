@@ -0,0 +1,311 @@
+/**
+ * Resumable ACP checkout orchestration: intent -> payment method -> confirm -> receipt
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { parseError, ShoraServerError, ShoraValidationError } from './error-handling';
+import { toWire, Wire } from './money';
+import { waitForPaymentCompletion, WaitOptions } from './polling';
+import type { WebhookService } from './webhooks';
+import type {
+  PaymentService,
+  CheckoutIntentRequest,
+  CheckoutIntentResponse,
+  PaymentResponse,
+  ReceiptResponse,
+} from './payments';
+
+export type CheckoutFlowStatus =
+  | 'pending'
+  | 'intent_created'
+  | 'method_selected'
+  | 'awaiting_payment' // Confirmed, but the payment has not settled yet
+  | 'confirmed'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface CheckoutFlowTransition {
+  from: CheckoutFlowStatus;
+  to: CheckoutFlowStatus;
+  at: string;
+}
+
+export interface CheckoutFlowState {
+  version: 1;
+  status: CheckoutFlowStatus;
+  request: Wire<CheckoutIntentRequest>; // Money amounts are stored as major-unit numbers so the state stays JSON
+  intent?: CheckoutIntentResponse;
+  payment_method?: string;
+  payment?: PaymentResponse;
+  receipt?: ReceiptResponse;
+  intent_idempotency_key: string;
+  confirm_idempotency_key: string;
+  intent_recreations: number;
+  paused_before?: CheckoutFlowStatus; // Set when a hook declined a transition
+  error?: { message: string; code?: string; status?: number };
+  history: CheckoutFlowTransition[];
+}
+
+export interface CheckoutFlowHooks {
+  /**
+   * Called before every transition. Return false to pause the flow, e.g. to ask the user for confirmation;
+   * `run({ approve: true })` then continues past that transition.
+   */
+  onTransition?: (transition: { from: CheckoutFlowStatus; to: CheckoutFlowStatus; state: Readonly<CheckoutFlowState> }) =>
+    void | boolean | Promise<void | boolean>;
+}
+
+export interface CheckoutFlowOptions {
+  paymentMethod?: string; // Skip automatic selection
+  preferredMethods?: string[]; // Tried in order before any other method supporting the currency
+  delegate_token?: string;
+  card_token?: string;
+  maxIntentRecreations?: number; // Defaults to 1
+  hooks?: CheckoutFlowHooks;
+  wait?: WaitOptions; // How long run() waits for a pending payment before returning in awaiting_payment
+  webhooks?: WebhookService; // Wakes the wait on payment webhooks
+}
+
+// A step resolving false leaves the state as it is and ends this run(); calling run() again retries it
+type CheckoutFlowStep = { to: CheckoutFlowStatus; apply: () => Promise<void | false> };
+
+const TERMINAL: CheckoutFlowStatus[] = ['completed', 'failed', 'cancelled'];
+
+function isIntentExpiredError(error: any): boolean {
+  return error?.status === 410 || error?.code === 'INTENT_EXPIRED' || error?.code === 'CHECKOUT_INTENT_EXPIRED';
+}
+
+export class CheckoutFlow {
+  private state: CheckoutFlowState;
+  private running?: Promise<CheckoutFlowState>;
+
+  constructor(
+    private readonly payments: PaymentService,
+    requestOrState: CheckoutIntentRequest | CheckoutFlowState,
+    private readonly options: CheckoutFlowOptions = {}
+  ) {
+    this.state = 'version' in requestOrState
+      ? JSON.parse(JSON.stringify(requestOrState))
+      : {
+        version: 1,
+        status: 'pending',
+        request: toWire(requestOrState),
+        intent_idempotency_key: uuidv4(),
+        confirm_idempotency_key: uuidv4(),
+        intent_recreations: 0,
+        history: [],
+      };
+  }
+
+  static resume(payments: PaymentService, state: CheckoutFlowState | string, options: CheckoutFlowOptions = {}): CheckoutFlow {
+    const parsed: CheckoutFlowState = typeof state === 'string' ? JSON.parse(state) : state;
+    if (parsed?.version !== 1) {
+      throw new ShoraValidationError(`Unsupported checkout flow state version: ${parsed?.version}`, { code: 'CHECKOUT_FLOW_STATE_INVALID' });
+    }
+    return new CheckoutFlow(payments, parsed, options);
+  }
+
+  get status(): CheckoutFlowStatus {
+    return this.state.status;
+  }
+
+  getState(): Readonly<CheckoutFlowState> {
+    return this.state;
+  }
+
+  toJSON(): CheckoutFlowState {
+    return JSON.parse(JSON.stringify(this.state));
+  }
+
+  /**
+   * Advances the flow until it completes, fails, is cancelled or a hook pauses it. Retryable errors are
+   * rethrown with the state left where it was, so calling `run()` again resumes safely.
+   */
+  run(options: { approve?: boolean } = {}): Promise<CheckoutFlowState> {
+    if (!this.running) {
+      this.running = this.drive(options.approve ?? false).finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Cancels the checkout. A pending payment is cancelled through the API, and the flow follows the session
+   * status it returns; before confirmation nothing has been charged, so only the local state changes. A
+   * confirmed flow has been paid and is left as it is: refund the payment instead.
+   */
+  async cancel(): Promise<CheckoutFlowState> {
+    if (this.state.status === 'awaiting_payment') {
+      this.state.payment = await this.payments.cancelPaymentSession(this.state.payment!.id);
+      this.settle(this.state.payment);
+    } else if (!TERMINAL.includes(this.state.status) && this.state.status !== 'confirmed') {
+      this.transition('cancelled');
+    }
+    return this.toJSON();
+  }
+
+  private async drive(approve: boolean): Promise<CheckoutFlowState> {
+    while (!TERMINAL.includes(this.state.status)) {
+      const next = this.nextStep();
+      if (!next) break;
+      if (this.state.paused_before === next.to && approve) {
+        approve = false;
+      } else if ((await this.options.hooks?.onTransition?.({ from: this.state.status, to: next.to, state: this.state })) === false) {
+        this.state.paused_before = next.to;
+        break;
+      }
+      this.state.paused_before = undefined;
+
+      try {
+        if ((await next.apply()) === false) break;
+      } catch (error: any) {
+        const shoraError = parseError(error);
+        // Once the payment has settled the customer has been charged, so the flow must never report failed
+        if (shoraError.retryable || this.state.status === 'confirmed') throw shoraError;
+        this.state.error = { message: shoraError.message, code: shoraError.code, status: shoraError.status };
+        this.transition('failed');
+      }
+    }
+    return this.toJSON();
+  }
+
+  private nextStep(): CheckoutFlowStep | undefined {
+    switch (this.state.status) {
+      case 'pending':
+        return { to: 'intent_created', apply: () => this.createIntent() };
+      case 'intent_created':
+        return { to: 'method_selected', apply: () => this.selectMethod() };
+      case 'method_selected':
+        if (this.intentExpired()) {
+          return this.recreateIntentStep();
+        }
+        return { to: 'confirmed', apply: () => this.confirm() };
+      case 'awaiting_payment':
+        return { to: 'completed', apply: () => this.awaitPayment() };
+      case 'confirmed':
+        return { to: 'completed', apply: () => this.fetchReceipt() };
+      default:
+        return undefined;
+    }
+  }
+
+  private async createIntent(): Promise<void> {
+    this.state.intent = await this.payments.createCheckoutIntent(this.state.request, {
+      idempotencyKey: this.state.intent_idempotency_key,
+    });
+    this.transition('intent_created');
+  }
+
+  private async selectMethod(): Promise<void> {
+    this.state.payment_method = this.options.paymentMethod ?? (await this.pickMethod());
+    this.transition('method_selected');
+  }
+
+  private async pickMethod(): Promise<string> {
+    const currency = (this.state.intent?.currency ?? this.state.request.currency).toUpperCase();
+    const { payment_methods } = await this.payments.getSupportedMethods();
+    const usable = payment_methods.filter(
+      (method) => method.supported && method.currencies.some((c) => c.toUpperCase() === currency)
+    );
+    const preferred = (this.options.preferredMethods ?? [])
+      .map((type) => usable.find((method) => method.type === type))
+      .find(Boolean);
+    const method = preferred ?? usable[0];
+    if (!method) {
+      throw new ShoraValidationError(`No supported payment method for ${currency}`, { code: 'NO_PAYMENT_METHOD' });
+    }
+    return method.type;
+  }
+
+  private async confirm(): Promise<void> {
+    try {
+      this.state.payment = await this.payments.confirmCheckout(
+        {
+          intent_id: this.state.intent!.intent_id,
+          payment_method: this.state.payment_method!,
+          delegate_token: this.options.delegate_token,
+          card_token: this.options.card_token,
+        },
+        { idempotencyKey: this.state.confirm_idempotency_key }
+      );
+    } catch (error: any) {
+      if (isIntentExpiredError(error) && this.canRecreateIntent()) {
+        this.state.intent = { ...this.state.intent!, status: 'expired' };
+        return;
+      }
+      throw error;
+    }
+    this.settle(this.state.payment);
+  }
+
+  private async awaitPayment(): Promise<void | false> {
+    const outcome = await waitForPaymentCompletion(this.payments, this.state.payment!.id, this.options.wait, this.options.webhooks);
+    if (outcome.session) this.state.payment = outcome.session;
+    if (outcome.status === 'timeout') return false;
+    this.settle(outcome.session);
+    if (this.state.status === 'confirmed') await this.fetchReceipt();
+  }
+
+  private settle(payment: PaymentResponse): void {
+    if (payment.status === 'failed' || payment.status === 'cancelled') {
+      this.state.error = { message: `Payment ${payment.status}`, code: `PAYMENT_${payment.status.toUpperCase()}` };
+      this.transition(payment.status === 'failed' ? 'failed' : 'cancelled');
+      return;
+    }
+    this.transition(payment.status === 'pending' ? 'awaiting_payment' : 'confirmed');
+  }
+
+  private async fetchReceipt(): Promise<void> {
+    if (!this.state.payment!.receipt_id) {
+      // The receipt can be issued after the payment completes; a later run() looks again
+      this.state.payment = await this.payments.getPaymentSession(this.state.payment!.id);
+    }
+    const payment = this.state.payment!;
+    if (!payment.receipt_id) {
+      throw new ShoraServerError(`Payment ${payment.id} completed without a receipt_id yet`, { code: 'RECEIPT_MISSING', context: 'CHECKOUT_FLOW' });
+    }
+    this.state.receipt = await this.payments.getReceipt(payment.receipt_id);
+    this.transition('completed');
+  }
+
+  private intentExpired(): boolean {
+    const intent = this.state.intent;
+    if (!intent) return false;
+    return intent.status === 'expired' || Date.now() >= Date.parse(intent.expires_at);
+  }
+
+  private canRecreateIntent(): boolean {
+    return this.state.intent_recreations < (this.options.maxIntentRecreations ?? 1);
+  }
+
+  private recreateIntentStep(): CheckoutFlowStep {
+    if (!this.canRecreateIntent()) {
+      return {
+        to: 'failed',
+        apply: async () => {
+          this.state.error = { message: 'Checkout intent expired', code: 'INTENT_EXPIRED' };
+          this.transition('failed');
+        },
+      };
+    }
+    // Start over with fresh idempotency keys; the old ones are bound to the expired intent
+    return {
+      to: 'pending',
+      apply: async () => {
+        this.state.intent_recreations += 1;
+        this.state.intent_idempotency_key = uuidv4();
+        this.state.confirm_idempotency_key = uuidv4();
+        this.state.intent = undefined;
+        this.state.payment_method = undefined;
+        this.transition('pending');
+      },
+    };
+  }
+
+  private transition(to: CheckoutFlowStatus): void {
+    this.state.history.push({ from: this.state.status, to, at: new Date().toISOString() });
+    this.state.status = to;
+  }
+}
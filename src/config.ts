@@ -1,4 +1,6 @@
-export const DEFAULT_BASE_URL = process.env.SHORA_BASE_URL || 'https://api.shora.cloud';
+import { getEnv } from './runtime';
+
+export const DEFAULT_BASE_URL = getEnv('SHORA_BASE_URL') || 'https://api.shora.cloud';
 
 export interface ShoraConfig {
   apiKey?: string;
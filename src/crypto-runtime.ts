@@ -0,0 +1,143 @@
+/**
+ * Crypto primitives that use Node's crypto module when present and Web Crypto (or crypto-js) otherwise
+ */
+
+import type { webcrypto } from 'crypto';
+import CryptoJS from 'crypto-js';
+import { nodeCrypto } from './runtime';
+import { ShoraConfigurationError } from './error-handling';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function utf8Encode(value: string): Uint8Array {
+  return encoder.encode(value);
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+  return decoder.decode(bytes);
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, '0');
+  return hex;
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length >> 1);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function subtle(): webcrypto.SubtleCrypto {
+  const webCrypto = (globalThis as any).crypto as webcrypto.Crypto | undefined;
+  if (!webCrypto?.subtle) {
+    throw new ShoraConfigurationError('Neither Node.js crypto nor Web Crypto is available', { code: 'CRYPTO_UNAVAILABLE' });
+  }
+  return webCrypto.subtle;
+}
+
+export function randomBytes(size: number): Uint8Array {
+  const node = nodeCrypto();
+  if (node) return new Uint8Array(node.randomBytes(size));
+  const bytes = new Uint8Array(size);
+  (globalThis as any).crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+// Synchronous hashing falls back to crypto-js because Web Crypto digests are async only
+
+export function sha256Hex(data: string): string {
+  const node = nodeCrypto();
+  return node ? node.createHash('sha256').update(data).digest('hex') : CryptoJS.SHA256(data).toString(CryptoJS.enc.Hex);
+}
+
+export function hmacSha256Hex(key: string, data: string | Uint8Array): string {
+  const node = nodeCrypto();
+  if (node) return node.createHmac('sha256', key).update(data).digest('hex');
+  const message = typeof data === 'string' ? data : CryptoJS.lib.WordArray.create(data as any);
+  return CryptoJS.HmacSHA256(message, key).toString(CryptoJS.enc.Hex);
+}
+
+export function timingSafeEqualStrings(a: string, b: string): boolean {
+  const left = utf8Encode(a);
+  const right = utf8Encode(b);
+  if (left.length !== right.length) return false;
+  let diff = 0;
+  for (let i = 0; i < left.length; i++) diff |= left[i] ^ right[i];
+  return diff === 0;
+}
+
+export async function pbkdf2Sha256(password: string, salt: string, iterations: number, length: number): Promise<Uint8Array> {
+  const node = nodeCrypto();
+  if (node) return new Uint8Array(node.pbkdf2Sync(password, salt, iterations, length, 'sha256'));
+  const key = await subtle().importKey('raw', utf8Encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await subtle().deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: utf8Encode(salt), iterations }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+export async function hkdfSha256(key: Uint8Array, salt: Uint8Array, info: string, length: number): Promise<Uint8Array> {
+  const node = nodeCrypto();
+  if (node) return new Uint8Array(node.hkdfSync('sha256', key, salt, info, length));
+  const baseKey = await subtle().importKey('raw', key, 'HKDF', false, ['deriveBits']);
+  const bits = await subtle().deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info: utf8Encode(info) }, baseKey, length * 8);
+  return new Uint8Array(bits);
+}
+
+export const GCM_TAG_LENGTH = 16;
+
+export async function aesGcmEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array
+): Promise<{ ciphertext: Uint8Array; tag: Uint8Array }> {
+  const node = nodeCrypto();
+  if (node) {
+    const cipher = node.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(aad);
+    const ciphertext = new Uint8Array(Buffer.concat([cipher.update(plaintext), cipher.final()]));
+    return { ciphertext, tag: new Uint8Array(cipher.getAuthTag()) };
+  }
+  const cryptoKey = await subtle().importKey('raw', key, 'AES-GCM', false, ['encrypt']);
+  // Web Crypto appends the tag to the ciphertext; tokens store it separately
+  const sealed = new Uint8Array(await subtle().encrypt({ name: 'AES-GCM', iv, additionalData: aad }, cryptoKey, plaintext));
+  return { ciphertext: sealed.slice(0, -GCM_TAG_LENGTH), tag: sealed.slice(-GCM_TAG_LENGTH) };
+}
+
+/**
+ * Rejects when the ciphertext, tag or AAD was altered, or when the tag is not the full 16 bytes.
+ */
+export async function aesGcmDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array
+): Promise<Uint8Array> {
+  // GCM accepts tags as short as 4 bytes, which would make forging one far cheaper
+  if (tag.length !== GCM_TAG_LENGTH) throw new Error(`AES-GCM tag must be ${GCM_TAG_LENGTH} bytes`);
+  const node = nodeCrypto();
+  if (node) {
+    const decipher = node.createDecipheriv('aes-256-gcm', key, iv, { authTagLength: GCM_TAG_LENGTH });
+    decipher.setAAD(aad);
+    decipher.setAuthTag(tag);
+    return new Uint8Array(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+  }
+  const cryptoKey = await subtle().importKey('raw', key, 'AES-GCM', false, ['decrypt']);
+  const sealed = new Uint8Array(ciphertext.length + tag.length);
+  sealed.set(ciphertext);
+  sealed.set(tag, ciphertext.length);
+  return new Uint8Array(await subtle().decrypt({ name: 'AES-GCM', iv, additionalData: aad }, cryptoKey, sealed));
+}
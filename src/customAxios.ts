@@ -1,9 +1,11 @@
 import axios from 'axios';
+import { ShoraTransport, createTransportAdapter } from './transport';
 
-export function createAxiosInstance(baseURL: string, apiKey?: string) {
+export function createAxiosInstance(baseURL: string, apiKey?: string, transport?: ShoraTransport) {
   const client = axios.create({ 
     baseURL, 
-    timeout: 30000 
+    timeout: 30000,
+    ...(transport ? { adapter: createTransportAdapter(transport) } : {})
   });
   
   if (apiKey) {
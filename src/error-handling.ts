@@ -2,17 +2,35 @@
  * Error handling utilities
  */
 
+import { getHeader, parseRateLimitHeaders, parseRetryAfter } from './rate-limit';
+
+export interface ShoraErrorOptions {
+ status?: number;
+ code?: string;
+ context?: string;
+ requestId?: string;
+ correlationId?: string;
+ retryAfter?: number;
+ cause?: unknown;
+}
+
 export class ShoraError extends Error {
  public readonly status?: number;
  public readonly code?: string;
  public readonly context?: string;
  public readonly timestamp: string;
+ public readonly requestId?: string;
+ public readonly correlationId?: string;
+ public readonly cause?: unknown;
+ public idempotencyKey?: string;
+ public retryAfter?: number; // Milliseconds the server asked us to wait
 
  constructor(
  message: string,
  status?: number,
  code?: string,
- context?: string
+ context?: string,
+ options: Omit<ShoraErrorOptions, 'status' | 'code' | 'context'> = {}
  ) {
  super(message);
  this.name = 'ShoraError';
@@ -20,55 +38,210 @@ export class ShoraError extends Error {
  this.code = code;
  this.context = context;
  this.timestamp = new Date().toISOString();
+ this.requestId = options.requestId;
+ this.correlationId = options.correlationId;
+ this.retryAfter = options.retryAfter;
+ this.cause = options.cause;
+ }
+
+ get retryable(): boolean {
+ return false;
  }
 }
 
+export class ShoraAuthError extends ShoraError {
+ constructor(message: string, options: ShoraErrorOptions = {}) {
+ super(message, options.status ?? 401, options.code ?? 'AUTHENTICATION_ERROR', options.context ?? 'API_RESPONSE', options);
+ this.name = 'ShoraAuthError';
+ }
+}
+
+export class ShoraValidationError extends ShoraError {
+ public readonly details: Record<string, string>;
+
+ constructor(message: string, options: ShoraErrorOptions & { details?: Record<string, string> } = {}) {
+ super(message, options.status ?? 400, options.code ?? 'VALIDATION_ERROR', options.context ?? 'API_RESPONSE', options);
+ this.name = 'ShoraValidationError';
+ this.details = options.details ?? {};
+ }
+}
+
+export class ShoraNotFoundError extends ShoraError {
+ constructor(message: string, options: ShoraErrorOptions = {}) {
+ super(message, options.status ?? 404, options.code ?? 'NOT_FOUND', options.context ?? 'API_RESPONSE', options);
+ this.name = 'ShoraNotFoundError';
+ }
+}
+
+export class ShoraConflictError extends ShoraError {
+ constructor(message: string, options: ShoraErrorOptions = {}) {
+ super(message, options.status ?? 409, options.code ?? 'CONFLICT', options.context ?? 'API_RESPONSE', options);
+ this.name = 'ShoraConflictError';
+ }
+}
+
+export class ShoraCardDeclinedError extends ShoraError {
+ public readonly declineCode?: string;
+
+ constructor(message: string, options: ShoraErrorOptions & { declineCode?: string } = {}) {
+ super(message, options.status ?? 402, options.code ?? 'CARD_DECLINED', options.context ?? 'API_RESPONSE', options);
+ this.name = 'ShoraCardDeclinedError';
+ this.declineCode = options.declineCode;
+ }
+}
+
+// Not a decline: the payment can still complete once the customer passes 3-D Secure
+export class ShoraAuthenticationRequiredError extends ShoraError {
+ public readonly redirectUrl?: string;
+
+ constructor(message: string, options: ShoraErrorOptions & { redirectUrl?: string } = {}) {
+ super(message, options.status ?? 402, options.code ?? 'AUTHENTICATION_REQUIRED', options.context ?? 'API_RESPONSE', options);
+ this.name = 'ShoraAuthenticationRequiredError';
+ this.redirectUrl = options.redirectUrl;
+ }
+}
+
+export class ShoraRateLimitError extends ShoraError {
+ public readonly resetAt?: Date;
+
+ constructor(message: string, options: ShoraErrorOptions & { resetAt?: Date } = {}) {
+ super(message, options.status ?? 429, options.code ?? 'RATE_LIMITED', options.context ?? 'API_RESPONSE', options);
+ this.name = 'ShoraRateLimitError';
+ this.resetAt = options.resetAt;
+ }
+
+ get retryable(): boolean {
+ return true;
+ }
+}
+
+export class ShoraServerError extends ShoraError {
+ constructor(message: string, options: ShoraErrorOptions = {}) {
+ super(message, options.status ?? 500, options.code ?? 'SERVER_ERROR', options.context ?? 'API_RESPONSE', options);
+ this.name = 'ShoraServerError';
+ }
+
+ get retryable(): boolean {
+ return true;
+ }
+}
+
+export class ShoraNetworkError extends ShoraError {
+ constructor(message: string, options: ShoraErrorOptions = {}) {
+ super(message, options.status ?? 0, options.code ?? 'NETWORK_ERROR', options.context ?? 'REQUEST', options);
+ this.name = 'ShoraNetworkError';
+ }
+
+ get retryable(): boolean {
+ return true;
+ }
+}
+
+export class ShoraCircuitOpenError extends ShoraError {
+ public readonly circuit: string;
+
+ constructor(circuit: string, options: ShoraErrorOptions = {}) {
+ super(`Circuit breaker is OPEN for ${circuit}`, options.status ?? 0, options.code ?? 'CIRCUIT_OPEN', options.context ?? 'CIRCUIT_BREAKER', options);
+ this.name = 'ShoraCircuitOpenError';
+ this.circuit = circuit;
+ }
+}
+
+export class ShoraWebhookError extends ShoraError {
+ constructor(message: string, options: ShoraErrorOptions = {}) {
+ super(message, options.status ?? 400, options.code ?? 'WEBHOOK_ERROR', options.context ?? 'WEBHOOK', options);
+ this.name = 'ShoraWebhookError';
+ }
+}
+
+export class ShoraMandateGuardError extends ShoraError {
+ constructor(message: string, options: ShoraErrorOptions = {}) {
+ super(message, options.status ?? 0, options.code ?? 'MANDATE_GUARD_REJECTED', options.context ?? 'MANDATE_GUARD', options);
+ this.name = 'ShoraMandateGuardError';
+ }
+}
+
+export class ShoraConfigurationError extends ShoraError {
+ constructor(message: string, options: ShoraErrorOptions = {}) {
+ super(message, options.status ?? 0, options.code ?? 'CONFIGURATION_ERROR', options.context ?? 'CONFIGURATION', options);
+ this.name = 'ShoraConfigurationError';
+ }
+}
+
+const DECLINE_CODES = new Set(['card_declined', 'insufficient_funds', 'expired_card', 'incorrect_cvc', 'do_not_honor', 'fraudulent']);
+
+function fromResponse(error: any): ShoraError {
+ const { status, data, headers } = error.response;
+ const message = data?.message || data?.error || error.message;
+ const code: string | undefined = data?.code;
+ const options: ShoraErrorOptions = {
+ status,
+ code,
+ requestId: getHeader(headers, 'X-Request-ID') || data?.request_id,
+ correlationId: data?.correlation_id || getHeader(headers, 'X-Correlation-ID'),
+ retryAfter: parseRetryAfter(headers),
+ cause: error,
+ };
+ const declineCode: string | undefined = data?.decline_code || (code && DECLINE_CODES.has(code.toLowerCase()) ? code.toLowerCase() : undefined);
+
+ if (code?.toUpperCase() === 'AUTHENTICATION_REQUIRED' || data?.next_action) {
+ return new ShoraAuthenticationRequiredError(message, { ...options, redirectUrl: data?.next_action?.redirect_url });
+ }
+ if (status === 402 || declineCode) {
+ return new ShoraCardDeclinedError(message, { ...options, declineCode });
+ }
+ if (status === 401 || status === 403) {
+ return new ShoraAuthError(message, options);
+ }
+ if (status === 400 || status === 422) {
+ return new ShoraValidationError(message, { ...options, details: data?.details });
+ }
+ if (status === 404) {
+ return new ShoraNotFoundError(message, options);
+ }
+ if (status === 409) {
+ return new ShoraConflictError(message, options);
+ }
+ if (status === 429) {
+ return new ShoraRateLimitError(message, { ...options, resetAt: parseRateLimitHeaders(headers)?.reset });
+ }
+ if (status >= 500) {
+ return new ShoraServerError(message, options);
+ }
+ return new ShoraError(message, status, code || 'API_ERROR', 'API_RESPONSE', options);
+}
+
 export function parseError(error: any): ShoraError {
  if (error instanceof ShoraError) {
  return error;
  }
 
- if (error.response) {
+ if (error?.response) {
  // Axios error with response
- const { status, data } = error.response;
- const message = data?.message || data?.error || error.message;
- const code = data?.code || 'API_ERROR';
- 
- return new ShoraError(
- message,
- status,
- code,
- 'API_RESPONSE'
- );
+ return fromResponse(error);
  }
 
- if (error.request) {
+ if (error?.request) {
  // Network error
- return new ShoraError(
- 'Network error: No response received',
- 0,
- 'NETWORK_ERROR',
- 'REQUEST'
+ const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+ return new ShoraNetworkError(
+ timedOut ? 'Network error: Request timed out' : 'Network error: No response received',
+ { code: timedOut ? 'TIMEOUT' : 'NETWORK_ERROR', cause: error }
  );
  }
 
  // Other error
  return new ShoraError(
- error.message || 'Unknown error occurred',
+ error?.message || 'Unknown error occurred',
  0,
  'UNKNOWN_ERROR',
- 'UNKNOWN'
+ 'UNKNOWN',
+ { cause: error }
  );
 }
 
 export function isRetryableError(error: any): boolean {
- if (error instanceof ShoraError) {
- // Retry on network errors and 5xx status codes
- return !error.status || error.status >= 500;
- }
- 
- // Retry on network errors
- return !error.response;
+ return parseError(error).retryable;
 }
 
 export function getErrorMessage(error: any): string {
@@ -0,0 +1,885 @@
+/**
+ * In-memory fake of the Shora API for offline tests. Implements the payment, ACP and agent routes the SDK
+ * calls with realistic state transitions, idempotency and mandate limits, plus injectable failures.
+ * Plug it in as `transport`, as the `httpClient` constructor argument, or serve it over local HTTP.
+ */
+
+import type { AxiosInstance } from 'axios';
+import type { Server } from 'http';
+import { v4 as uuidv4 } from 'uuid';
+import { createAxiosInstance } from './customAxios';
+import { hmacSha256Hex } from './crypto-runtime';
+import { ShoraConflictError, ShoraNotFoundError } from './error-handling';
+import { Money } from './money';
+import { requireNodeHttp } from './runtime';
+import { SANDBOX_SCENARIOS, getSandboxScenario } from './sandbox';
+import { Schema } from './schema';
+import { ShoraTransport, TransportRequest, TransportResponse, transportError } from './transport';
+import { WEBHOOK_SIGNATURE_HEADER, WebhookEvent, WebhookEventType } from './webhooks';
+import {
+  ACPCheckoutRequestSchema,
+  ACPCheckoutResponse,
+  CheckoutConfirmRequestSchema,
+  CheckoutIntentRequestSchema,
+  CheckoutIntentResponse,
+  PaymentRequestSchema,
+  PaymentResponse,
+  ReceiptResponse,
+  RefundRequestSchema,
+  RefundResponse,
+  SupportedMethodsResponse,
+} from './payments';
+import {
+  AgentPaymentRequestSchema,
+  AgentPaymentResponse,
+  MandateRequestSchema,
+  MandateResponse,
+  TokenRequestSchema,
+  TokenResponse,
+  TrustVerificationRequestSchema,
+} from './auth';
+
+export const FAKE_SHORA_BASE_URL = 'https://fake.shora.test';
+
+export interface FakeFailure {
+  method?: string;
+  path?: string | RegExp; // A string matches as a path prefix
+  status?: number; // e.g. 500, 503 or 429
+  retryAfter?: number; // Seconds, sent as Retry-After
+  body?: Record<string, unknown>;
+  timeout?: boolean; // Reject with ETIMEDOUT instead of responding
+  networkError?: boolean; // Reject with ERR_NETWORK instead of responding
+  applied?: boolean; // Process the request before failing, like a response lost on the way back
+  times?: number; // Defaults to 1; Infinity fails until cleared
+}
+
+export interface FakeWebhookDelivery {
+  payload: string;
+  headers: Record<string, string>;
+  event: WebhookEvent;
+}
+
+export interface FakeShoraServerOptions {
+  apiKey?: string; // When set, requests with another key are rejected with 401
+  tenantId?: string;
+  webhookSecret?: string; // Signs deliveries the way the API does
+  onWebhook?: (delivery: FakeWebhookDelivery) => unknown;
+  checkoutIntentTtl?: number; // Milliseconds, default 30 minutes
+  tokenTtl?: number; // Milliseconds, default 15 minutes
+  supportedMethods?: SupportedMethodsResponse['payment_methods'];
+}
+
+interface FakeResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+interface RouteRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (request: RouteRequest) => FakeResponse;
+}
+
+interface StoredPayment extends PaymentResponse {
+  refunded_minor: number;
+}
+
+interface StoredToken extends TokenResponse {
+  amount: number;
+  currency: string;
+  used: boolean;
+}
+
+class FakeApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: Record<string, string>,
+    readonly extra?: Record<string, unknown>
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_SUPPORTED_METHODS: SupportedMethodsResponse['payment_methods'] = [
+  { type: 'card', name: 'Card', supported: true, currencies: ['USD', 'EUR', 'GBP', 'JPY'] },
+  { type: 'wallet', name: 'Wallet', supported: true, currencies: ['USD', 'EUR'] },
+];
+
+function toMinor(amount: number, currency: string): number {
+  return Money.of(amount, currency).minor;
+}
+
+function toMajor(minor: number, currency: string): number {
+  return Money.fromMinor(minor, currency).toMajor();
+}
+
+// Top-level fields of a JSON object body, empty for anything else, for handlers that check fields by hand
+function bodyFields(body: unknown): Record<string, unknown> {
+  return body !== null && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, unknown>) : {};
+}
+
+function page<T>(items: T[], query: URLSearchParams): { items: T[]; limit: number; offset: number } {
+  const limit = Number(query.get('limit') ?? 20);
+  const offset = Number(query.get('offset') ?? 0);
+  return { items: items.slice(offset, offset + limit), limit, offset };
+}
+
+export class FakeShoraServer implements ShoraTransport {
+  /** Every request received, in order */
+  readonly requests: TransportRequest[] = [];
+  /** Every webhook emitted, in order */
+  readonly webhooks: FakeWebhookDelivery[] = [];
+
+  private readonly routes: Route[];
+  private failures: FakeFailure[] = [];
+  private clockOffset = 0;
+  private pendingDeliveries: Promise<unknown>[] = [];
+  private server?: Server;
+
+  private payments = new Map<string, StoredPayment>();
+  private checkouts = new Map<string, ACPCheckoutResponse>();
+  private intents = new Map<string, CheckoutIntentResponse>();
+  private receipts = new Map<string, ReceiptResponse>();
+  private refunds = new Map<string, RefundResponse>();
+  private mandates = new Map<string, MandateResponse>();
+  private tokens = new Map<string, StoredToken>();
+  private idempotency = new Map<string, { fingerprint: string; response: FakeResponse }>();
+
+  constructor(private readonly options: FakeShoraServerOptions = {}) {
+    this.routes = [
+      this.route('GET', '/v2/test/health', () => ({ status: 200, body: { status: 'ok' } })),
+      this.route('POST', '/v2/payments/sessions', (req) => this.createSession(req)),
+      this.route('POST', '/v2/payments/process', (req) => this.processPayment(req)),
+      this.route('GET', '/v2/payments/sessions/:id', (req) => this.ok(this.publicPayment(this.payment(req.params[0])))),
+      this.route('POST', '/v2/payments/sessions/:id/cancel', (req) => this.cancelSession(req)),
+      this.route('POST', '/v2/payments/refunds', (req) => this.createRefund(req)),
+      this.route('GET', '/v2/payments/refunds', (req) => this.listRefunds(req)),
+      this.route('POST', '/v2/acp/checkout', (req) => this.createAcpCheckout(req)),
+      this.route('POST', '/v1/acp/checkout-intent', (req) => this.createIntent(req)),
+      this.route('GET', '/v1/acp/checkout-intent/:id', (req) => this.ok(this.intent(req.params[0]))),
+      this.route('POST', '/v1/acp/checkout-confirm', (req) => this.confirmCheckout(req)),
+      this.route('GET', '/v1/acp/receipts/:id', (req) => this.ok(this.find(this.receipts, req.params[0], 'Receipt'))),
+      this.route('GET', '/v1/acp/supported-methods', () => this.ok({
+        payment_methods: this.options.supportedMethods ?? DEFAULT_SUPPORTED_METHODS,
+      })),
+      this.route('POST', '/v2/agents/mandates', (req) => this.createMandate(req)),
+      this.route('GET', '/v2/agents/mandates', (req) => this.listMandates(req)),
+      this.route('GET', '/v2/agents/mandates/:id', (req) => this.ok(this.mandate(req.params[0]))),
+      this.route('PATCH', '/v2/agents/mandates/:id', (req) => this.updateMandateLimit(req)),
+      this.route('POST', '/v2/agents/mandates/:id/revoke', (req) => this.revokeMandate(req)),
+      this.route('POST', '/v2/agents/mandates/:id/renew', (req) => this.renewMandate(req)),
+      this.route('POST', '/v2/agents/tokens', (req) => this.createToken(req)),
+      this.route('GET', '/v2/agents/tokens/validate', (req) => this.validateToken(req)),
+      this.route('POST', '/v2/agents/pay', (req) => this.agentPay(req)),
+      this.route('POST', '/v2/agents/verify-trust', (req) => this.verifyTrust(req)),
+      this.route('GET', '/v2/agents/trust-status', () => this.ok({
+        trusted: true,
+        status: 'active',
+        ...(this.options.tenantId ? { tenant_id: this.options.tenantId } : {}),
+      })),
+    ];
+  }
+
+  // --- Plugging in ---
+
+  /**
+   * Axios instance for the `ShoraSDK` `httpClient` constructor argument.
+   */
+  httpClient(baseURL: string = FAKE_SHORA_BASE_URL): AxiosInstance {
+    const client = createAxiosInstance(baseURL, this.options.apiKey, this);
+    client.defaults.headers.common['Content-Type'] = 'application/json';
+    return client;
+  }
+
+  /**
+   * Serves the fake over HTTP on 127.0.0.1 (Node only) and resolves with its base URL.
+   */
+  async listen(port = 0): Promise<string> {
+    const http = requireNodeHttp('FakeShoraServer.listen');
+    const server = http.createServer((req, res) => {
+      const chunks: Uint8Array[] = [];
+      req.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+      req.on('end', () => {
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(req.headers)) {
+          if (value !== undefined) headers[key] = Array.isArray(value) ? value.join(', ') : value;
+        }
+        const body = Buffer.concat(chunks).toString('utf8');
+        this.request({ method: req.method || 'GET', url: `http://127.0.0.1${req.url}`, headers, body: body || undefined }).then(
+          (response) => {
+            res.writeHead(response.status, response.headers);
+            res.end(response.body);
+          },
+          (error) => {
+            // A timeout leaves the request hanging until the client gives up
+            if (error?.code !== 'ETIMEDOUT') req.socket.destroy();
+          }
+        );
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    const address = server.address();
+    return `http://127.0.0.1:${typeof address === 'object' && address ? address.port : port}`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return;
+    server.closeAllConnections?.();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  // --- Test controls ---
+
+  /**
+   * Makes the next matching request(s) fail, e.g. `{ path: '/v2/payments/sessions', status: 503 }`.
+   */
+  injectFailure(failure: FakeFailure): void {
+    this.failures.push({ times: 1, ...failure });
+  }
+
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  /**
+   * Moves the fake's clock forward, expiring checkout intents, tokens and mandates as it passes them.
+   */
+  advanceTime(ms: number): void {
+    this.clockOffset += ms;
+  }
+
+  /**
+   * Simulates the customer finishing (or abandoning) a hosted payment session.
+   */
+  completePayment(sessionId: string, status: 'completed' | 'failed' = 'completed'): PaymentResponse {
+    const payment = this.payments.get(sessionId);
+    if (!payment) throw new ShoraNotFoundError(`Payment ${sessionId} not found`, { status: 0 });
+    if (payment.status !== 'pending') {
+      throw new ShoraConflictError(`Payment session is already ${payment.status}`, { code: 'INVALID_STATE', status: 0 });
+    }
+    this.settle(payment, status);
+    return this.publicPayment(payment);
+  }
+
+  /**
+   * Resolves once every webhook emitted so far has been handed to `onWebhook`.
+   */
+  async flushWebhooks(): Promise<void> {
+    while (this.pendingDeliveries.length) {
+      const pending = this.pendingDeliveries;
+      this.pendingDeliveries = [];
+      await Promise.allSettled(pending);
+    }
+  }
+
+  reset(): void {
+    for (const store of [this.payments, this.checkouts, this.intents, this.receipts, this.refunds, this.mandates, this.tokens, this.idempotency]) {
+      store.clear();
+    }
+    this.requests.length = 0;
+    this.webhooks.length = 0;
+    this.failures = [];
+    this.clockOffset = 0;
+  }
+
+  // --- ShoraTransport ---
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    const url = new URL(request.url, FAKE_SHORA_BASE_URL);
+    const method = request.method.toUpperCase();
+    const failure = this.takeFailure(method, url.pathname);
+
+    if (failure && !failure.applied) return this.fail(failure);
+    const response = this.dispatch(method, url, request);
+    return failure ? this.fail(failure) : this.serialize(response);
+  }
+
+  private dispatch(method: string, url: URL, request: TransportRequest): FakeResponse {
+    const headers = Object.fromEntries(Object.entries(request.headers).map(([key, value]) => [key.toLowerCase(), value]));
+    try {
+      const matched = this.match(method, url.pathname);
+      if (!matched) throw new FakeApiError(404, 'NOT_FOUND', `No route for ${method} ${url.pathname}`);
+      this.authenticate(url.pathname, headers);
+
+      const raw = typeof request.body === 'string' ? request.body : request.body ? new TextDecoder().decode(request.body) : '';
+      const routeRequest: RouteRequest = {
+        params: matched.params,
+        query: url.searchParams,
+        body: raw ? JSON.parse(raw) : {},
+        headers,
+      };
+
+      const key = method === 'POST' ? headers['idempotency-key'] : undefined;
+      if (!key) return this.handle(matched.route, routeRequest);
+
+      // Keys are scoped to the route; replays return the stored response, a different body is a conflict
+      const scope = `${method} ${url.pathname} ${key}`;
+      const stored = this.idempotency.get(scope);
+      if (stored) {
+        if (stored.fingerprint !== raw) {
+          throw new FakeApiError(409, 'IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key was already used with a different request body');
+        }
+        return { ...stored.response, headers: { ...stored.response.headers, 'idempotent-replayed': 'true' } };
+      }
+      // Declines are stored too, so a retry cannot turn a declined charge into a second attempt
+      const response = this.handle(matched.route, routeRequest);
+      if (response.status < 500) this.idempotency.set(scope, { fingerprint: raw, response });
+      return response;
+    } catch (error) {
+      if (error instanceof FakeApiError) return this.errorResponse(error);
+      if (error instanceof SyntaxError) {
+        return { status: 400, body: { message: 'Request body is not valid JSON', code: 'INVALID_JSON' } };
+      }
+      throw error;
+    }
+  }
+
+  private handle(route: Route, request: RouteRequest): FakeResponse {
+    try {
+      return route.handle(request);
+    } catch (error) {
+      if (error instanceof FakeApiError) return this.errorResponse(error);
+      throw error;
+    }
+  }
+
+  private errorResponse(error: FakeApiError): FakeResponse {
+    return {
+      status: error.status,
+      body: { message: error.message, code: error.code, ...error.extra, ...(error.details ? { details: error.details } : {}) },
+    };
+  }
+
+  private serialize(response: FakeResponse): TransportResponse {
+    return {
+      status: response.status,
+      statusText: String(response.status),
+      headers: { 'content-type': 'application/json', 'x-request-id': `req_${uuidv4()}`, ...response.headers },
+      body: JSON.stringify(response.body),
+    };
+  }
+
+  private takeFailure(method: string, path: string): FakeFailure | undefined {
+    const index = this.failures.findIndex((failure) =>
+      (!failure.method || failure.method.toUpperCase() === method) &&
+      (!failure.path || (typeof failure.path === 'string' ? path.startsWith(failure.path) : failure.path.test(path)))
+    );
+    if (index === -1) return undefined;
+    const failure = this.failures[index];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) this.failures.splice(index, 1);
+    return failure;
+  }
+
+  private fail(failure: FakeFailure): TransportResponse {
+    if (failure.timeout) throw transportError('timeout exceeded', 'ETIMEDOUT');
+    if (failure.networkError) throw transportError('socket hang up', 'ERR_NETWORK');
+    const status = failure.status ?? 500;
+    return this.serialize({
+      status,
+      body: failure.body ?? (status === 429
+        ? { message: 'Too many requests', code: 'RATE_LIMITED' }
+        : { message: 'Internal server error', code: 'INTERNAL_ERROR' }),
+      headers: failure.retryAfter !== undefined ? { 'retry-after': String(failure.retryAfter) } : undefined,
+    });
+  }
+
+  private route(method: string, path: string, handle: Route['handle']): Route {
+    return { method, pattern: new RegExp(`^${path.replace(/:id/g, '([^/]+)')}/?$`), handle };
+  }
+
+  private match(method: string, path: string): { route: Route; params: string[] } | undefined {
+    for (const route of this.routes) {
+      const match = route.method === method && route.pattern.exec(path);
+      if (match) return { route, params: match.slice(1).map(decodeURIComponent) };
+    }
+    return undefined;
+  }
+
+  private authenticate(path: string, headers: Record<string, string>): void {
+    const apiKey = this.options.apiKey;
+    // Token validation authenticates with the agent token instead of the API key
+    if (!apiKey || path === '/v2/agents/tokens/validate') return;
+    const bearer = apiKey.replace(/^Bearer /, '');
+    if (headers['x-api-key'] !== apiKey && headers.authorization !== `Bearer ${bearer}`) {
+      throw new FakeApiError(401, 'UNAUTHORIZED', 'Invalid API key');
+    }
+  }
+
+  private now(): number {
+    return Date.now() + this.clockOffset;
+  }
+
+  private timestamp(offset = 0): string {
+    return new Date(this.now() + offset).toISOString();
+  }
+
+  private ok(body: unknown, status = 200): FakeResponse {
+    return { status, body };
+  }
+
+  private validate<T>(requestSchema: Schema<T>, body: unknown): T {
+    const result = requestSchema.validate(body);
+    if (!result.success) {
+      const details = Object.fromEntries(result.issues.map((issue) => [issue.path || 'body', issue.message]));
+      throw new FakeApiError(422, 'VALIDATION_ERROR', 'Request validation failed', details);
+    }
+    return result.data;
+  }
+
+  private find<T>(store: Map<string, T>, id: string, label: string): T {
+    const found = store.get(id);
+    if (!found) throw new FakeApiError(404, 'NOT_FOUND', `${label} ${id} not found`);
+    return found;
+  }
+
+  // --- Webhooks ---
+
+  private emit(type: WebhookEventType, data: Record<string, unknown>): void {
+    const event = {
+      id: `evt_${uuidv4()}`,
+      event: type,
+      data,
+      timestamp: this.timestamp(),
+      ...(this.options.tenantId ? { tenant_id: this.options.tenantId } : {}),
+    } as unknown as WebhookEvent;
+    const payload = JSON.stringify(event);
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (this.options.webhookSecret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${hmacSha256Hex(this.options.webhookSecret, payload)}`;
+    }
+    const delivery = { payload, headers, event };
+    this.webhooks.push(delivery);
+    if (this.options.onWebhook) {
+      // Delivered after the API response, as the real service does
+      this.pendingDeliveries.push(Promise.resolve().then(() => this.options.onWebhook!(delivery)));
+    }
+  }
+
+  // --- Payments ---
+
+  private payment(id: string): StoredPayment {
+    return this.find(this.payments, id, 'Payment');
+  }
+
+  private publicPayment(payment: StoredPayment): PaymentResponse {
+    const response: PaymentResponse & { refunded_minor?: number } = { ...payment };
+    delete response.refunded_minor;
+    return response;
+  }
+
+  private newPayment(amount: number, currency: string, prefix: string): StoredPayment {
+    const now = this.timestamp();
+    const payment: StoredPayment = {
+      id: `${prefix}_${uuidv4()}`,
+      status: 'pending',
+      amount,
+      currency,
+      created_at: now,
+      updated_at: now,
+      refunded_minor: 0,
+    };
+    this.payments.set(payment.id, payment);
+    return payment;
+  }
+
+  private settle(payment: StoredPayment, status: 'completed' | 'failed' | 'cancelled'): void {
+    payment.status = status;
+    payment.updated_at = this.timestamp();
+    if (status === 'completed') {
+      const receipt: ReceiptResponse = {
+        receipt_id: `rcpt_${uuidv4()}`,
+        payment_id: payment.id,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: 'completed',
+        receipt_url: `${FAKE_SHORA_BASE_URL}/receipts/${payment.id}`,
+        created_at: payment.updated_at,
+      };
+      this.receipts.set(receipt.receipt_id, receipt);
+      payment.receipt_id = receipt.receipt_id;
+    }
+    this.emit(`payment.${status}` as WebhookEventType, {
+      payment_id: payment.id,
+      session_id: payment.id,
+      amount: payment.amount,
+      currency: payment.currency,
+      status,
+    });
+  }
+
+  /**
+   * Applies sandbox magic card tokens and amounts to a charge against `payment`.
+   */
+  private charge(payment: StoredPayment, cardToken?: string): void {
+    const scenario = getSandboxScenario({ cardToken, amount: payment.amount, currency: payment.currency });
+    const definition = scenario && SANDBOX_SCENARIOS[scenario];
+    if (definition?.timeout) throw transportError('timeout exceeded', 'ETIMEDOUT');
+    if (definition?.response?.code === 'AUTHENTICATION_REQUIRED') {
+      const { status, code, message } = definition.response;
+      throw new FakeApiError(status, code, message, undefined, {
+        next_action: { type: 'redirect_to_url', redirect_url: `${FAKE_SHORA_BASE_URL}/3ds/${payment.id}` },
+      });
+    }
+    if (definition?.response) {
+      const { status, code, declineCode, message } = definition.response;
+      this.settle(payment, 'failed');
+      throw new FakeApiError(status, code, message, undefined, { decline_code: declineCode });
+    }
+    this.settle(payment, 'completed');
+  }
+
+  private createSession(req: RouteRequest): FakeResponse {
+    const body = this.validate(PaymentRequestSchema, req.body);
+    const payment = this.newPayment(body.amount as number, body.currency, 'ps');
+    payment.payment_url = `${FAKE_SHORA_BASE_URL}/pay/${payment.id}`;
+    return this.ok(this.publicPayment(payment), 201);
+  }
+
+  private processPayment(req: RouteRequest): FakeResponse {
+    const { sessionId, paymentMethod, cardToken } = bodyFields(req.body);
+    if (typeof sessionId !== 'string' || typeof paymentMethod !== 'string') {
+      throw new FakeApiError(422, 'VALIDATION_ERROR', 'Request validation failed', {
+        ...(typeof sessionId !== 'string' ? { sessionId: 'Required' } : {}),
+        ...(typeof paymentMethod !== 'string' ? { paymentMethod: 'Required' } : {}),
+      });
+    }
+    const payment = this.payment(sessionId);
+    if (payment.status !== 'pending') {
+      throw new FakeApiError(409, 'INVALID_STATE', `Payment session is already ${payment.status}`);
+    }
+    this.charge(payment, typeof cardToken === 'string' ? cardToken : undefined);
+    return this.ok(this.publicPayment(payment));
+  }
+
+  private cancelSession(req: RouteRequest): FakeResponse {
+    const payment = this.payment(req.params[0]);
+    if (payment.status !== 'pending') {
+      throw new FakeApiError(409, 'INVALID_STATE', `Cannot cancel a ${payment.status} payment session`);
+    }
+    this.settle(payment, 'cancelled');
+    return this.ok(this.publicPayment(payment));
+  }
+
+  private createRefund(req: RouteRequest): FakeResponse {
+    const body = this.validate(RefundRequestSchema, req.body);
+    const payment = this.payment(body.payment_id);
+    if (payment.status !== 'completed') {
+      throw new FakeApiError(409, 'INVALID_STATE', `Cannot refund a ${payment.status} payment`);
+    }
+    const total = toMinor(payment.amount, payment.currency);
+    const minor = body.amount === undefined ? total - payment.refunded_minor : toMinor(body.amount as number, payment.currency);
+    if (minor <= 0 || payment.refunded_minor + minor > total) {
+      throw new FakeApiError(422, 'REFUND_EXCEEDS_PAYMENT', 'Refund amount exceeds the refundable balance', {
+        amount: `At most ${toMajor(total - payment.refunded_minor, payment.currency)} can be refunded`,
+      });
+    }
+    payment.refunded_minor += minor;
+
+    const refund: RefundResponse = {
+      id: `re_${uuidv4()}`,
+      payment_id: payment.id,
+      receipt_id: body.receipt_id ?? payment.receipt_id,
+      amount: toMajor(minor, payment.currency),
+      currency: payment.currency,
+      status: 'succeeded',
+      reason: body.reason,
+      metadata: body.metadata,
+      created_at: this.timestamp(),
+    };
+    this.refunds.set(refund.id, refund);
+    const receipt = payment.receipt_id ? this.receipts.get(payment.receipt_id) : undefined;
+    if (receipt && payment.refunded_minor === total) receipt.status = 'refunded';
+    this.emit('refund.succeeded', {
+      refund_id: refund.id,
+      payment_id: refund.payment_id,
+      receipt_id: refund.receipt_id,
+      amount: refund.amount,
+      currency: refund.currency,
+      status: refund.status,
+    });
+    return this.ok(refund, 201);
+  }
+
+  private listRefunds(req: RouteRequest): FakeResponse {
+    const paymentId = req.query.get('payment_id');
+    const receiptId = req.query.get('receipt_id');
+    const matching = [...this.refunds.values()].filter((refund) =>
+      (!paymentId || refund.payment_id === paymentId) && (!receiptId || refund.receipt_id === receiptId)
+    );
+    const { items, limit, offset } = page(matching, req.query);
+    return this.ok({ refunds: items, total: matching.length, limit, offset });
+  }
+
+  // --- ACP ---
+
+  private createAcpCheckout(req: RouteRequest): FakeResponse {
+    const body = this.validate(ACPCheckoutRequestSchema, req.body);
+    const now = this.timestamp();
+    const checkout: ACPCheckoutResponse = {
+      checkout_id: `chk_${uuidv4()}`,
+      status: 'pending',
+      amount: body.amount as number,
+      currency: body.currency,
+      checkout_url: '',
+      expires_at: this.timestamp(this.options.checkoutIntentTtl ?? 30 * 60 * 1000),
+      created_at: now,
+      updated_at: now,
+      agent_id: body.agent_id,
+      business_id: body.business_id,
+      payment_token: `pt_${uuidv4()}`,
+    };
+    checkout.checkout_url = `${FAKE_SHORA_BASE_URL}/checkout/${checkout.checkout_id}`;
+    this.checkouts.set(checkout.checkout_id, checkout);
+    return this.ok(checkout, 201);
+  }
+
+  private intent(id: string): CheckoutIntentResponse {
+    const intent = this.find(this.intents, id, 'Checkout intent');
+    if (intent.status === 'pending' && Date.parse(intent.expires_at) <= this.now()) {
+      intent.status = 'expired';
+      this.emit('checkout.expired', {
+        intent_id: intent.intent_id,
+        amount: intent.amount,
+        currency: intent.currency,
+        status: intent.status,
+        expires_at: intent.expires_at,
+      });
+    }
+    return intent;
+  }
+
+  private createIntent(req: RouteRequest): FakeResponse {
+    const body = this.validate(CheckoutIntentRequestSchema, req.body);
+    const intent: CheckoutIntentResponse = {
+      intent_id: `ci_${uuidv4()}`,
+      status: 'pending',
+      amount: body.amount as number,
+      currency: body.currency,
+      expires_at: this.timestamp(this.options.checkoutIntentTtl ?? 30 * 60 * 1000),
+      created_at: this.timestamp(),
+      buyer: body.buyer && { email: body.buyer.email, name: body.buyer.name },
+      metadata: body.metadata,
+    };
+    this.intents.set(intent.intent_id, intent);
+    return this.ok(intent, 201);
+  }
+
+  private confirmCheckout(req: RouteRequest): FakeResponse {
+    const body = this.validate(CheckoutConfirmRequestSchema, req.body);
+    const intent = this.intent(body.intent_id);
+    if (intent.status === 'expired') {
+      throw new FakeApiError(410, 'INTENT_EXPIRED', 'Checkout intent has expired');
+    }
+    if (intent.status !== 'pending') {
+      throw new FakeApiError(409, 'INVALID_STATE', `Checkout intent is already ${intent.status}`);
+    }
+    const method = (this.options.supportedMethods ?? DEFAULT_SUPPORTED_METHODS).find((candidate) => candidate.type === body.payment_method);
+    if (!method?.supported || !method.currencies.includes(intent.currency)) {
+      throw new FakeApiError(422, 'PAYMENT_METHOD_UNSUPPORTED', `Payment method ${body.payment_method} does not support ${intent.currency}`, {
+        payment_method: 'Unsupported for this currency',
+      });
+    }
+
+    const payment = this.newPayment(intent.amount, intent.currency, 'pay');
+    this.charge(payment, body.card_token);
+    intent.status = 'completed';
+    this.emit('checkout.completed', { intent_id: intent.intent_id, amount: intent.amount, currency: intent.currency, status: intent.status });
+    return this.ok(this.publicPayment(payment));
+  }
+
+  // --- Agents ---
+
+  private mandate(id: string): MandateResponse {
+    const mandate = this.find(this.mandates, id, 'Mandate');
+    if (mandate.status === 'active' && Date.parse(mandate.expires_at) <= this.now()) {
+      mandate.status = 'expired';
+      this.emit('mandate.expired', { mandate_id: mandate.id, agent_id: mandate.agent_id, status: mandate.status });
+    }
+    return mandate;
+  }
+
+  private createMandate(req: RouteRequest): FakeResponse {
+    const body = this.validate(MandateRequestSchema, req.body);
+    const mandate: MandateResponse = {
+      id: `mdt_${uuidv4()}`,
+      agent_id: body.agent_id,
+      max_amount: body.max_amount as number,
+      currency: body.currency,
+      status: 'active',
+      expires_at: body.expires_at,
+      created_at: this.timestamp(),
+      spent_amount: 0,
+      description: body.description,
+    };
+    this.mandates.set(mandate.id, mandate);
+    return this.ok(mandate, 201);
+  }
+
+  private listMandates(req: RouteRequest): FakeResponse {
+    const agentId = req.query.get('agent_id');
+    const status = req.query.get('status');
+    const matching = [...this.mandates.keys()]
+      .map((id) => this.mandate(id))
+      .filter((mandate) => (!agentId || mandate.agent_id === agentId) && (!status || mandate.status === status));
+    const { items, limit, offset } = page(matching, req.query);
+    return this.ok({ mandates: items, total: matching.length, limit, offset });
+  }
+
+  private updateMandateLimit(req: RouteRequest): FakeResponse {
+    const mandate = this.mandate(req.params[0]);
+    const maxAmount = bodyFields(req.body).max_amount;
+    if (typeof maxAmount !== 'number' || maxAmount <= 0) {
+      throw new FakeApiError(422, 'VALIDATION_ERROR', 'Request validation failed', { max_amount: 'Must be greater than 0' });
+    }
+    if (toMinor(maxAmount, mandate.currency) < toMinor(mandate.spent_amount ?? 0, mandate.currency)) {
+      throw new FakeApiError(422, 'MANDATE_LIMIT_BELOW_SPENT', 'max_amount cannot be lower than the amount already spent', {
+        max_amount: `Must be at least ${mandate.spent_amount}`,
+      });
+    }
+    mandate.max_amount = maxAmount;
+    mandate.updated_at = this.timestamp();
+    return this.ok(mandate);
+  }
+
+  private revokeMandate(req: RouteRequest): FakeResponse {
+    const mandate = this.mandate(req.params[0]);
+    if (mandate.status === 'revoked') {
+      throw new FakeApiError(409, 'INVALID_STATE', 'Mandate is already revoked');
+    }
+    mandate.status = 'revoked';
+    mandate.revoked_at = mandate.updated_at = this.timestamp();
+    this.emit('mandate.revoked', {
+      mandate_id: mandate.id,
+      agent_id: mandate.agent_id,
+      status: mandate.status,
+      max_amount: mandate.max_amount,
+      currency: mandate.currency,
+    });
+    return this.ok(mandate);
+  }
+
+  private renewMandate(req: RouteRequest): FakeResponse {
+    const mandate = this.mandate(req.params[0]);
+    const expiresAt = bodyFields(req.body).expires_at;
+    if (typeof expiresAt !== 'string' || !(Date.parse(expiresAt) > this.now())) {
+      throw new FakeApiError(422, 'VALIDATION_ERROR', 'Request validation failed', { expires_at: 'Must be in the future' });
+    }
+    if (mandate.status === 'revoked') {
+      throw new FakeApiError(409, 'INVALID_STATE', 'A revoked mandate cannot be renewed');
+    }
+    mandate.expires_at = expiresAt;
+    mandate.status = 'active';
+    mandate.updated_at = this.timestamp();
+    return this.ok(mandate);
+  }
+
+  private usableMandate(id: string, amount: number, currency: string): MandateResponse {
+    const mandate = this.mandate(id);
+    if (mandate.status !== 'active') {
+      throw new FakeApiError(403, `MANDATE_${mandate.status.toUpperCase()}`, `Mandate is ${mandate.status}`);
+    }
+    if (currency !== mandate.currency) {
+      throw new FakeApiError(422, 'CURRENCY_MISMATCH', `Mandate is in ${mandate.currency}`, { currency: `Must be ${mandate.currency}` });
+    }
+    const remaining = toMinor(mandate.max_amount, currency) - toMinor(mandate.spent_amount ?? 0, currency);
+    if (toMinor(amount, currency) > remaining) {
+      throw new FakeApiError(422, 'MANDATE_LIMIT_EXCEEDED', 'Amount exceeds the remaining mandate balance', {
+        amount: `At most ${toMajor(remaining, currency)} remains on this mandate`,
+      });
+    }
+    return mandate;
+  }
+
+  private createToken(req: RouteRequest): FakeResponse {
+    const body = this.validate(TokenRequestSchema, req.body);
+    this.usableMandate(body.mandate_id, body.amount as number, body.currency);
+    const token: StoredToken = {
+      id: `tok_${uuidv4()}`,
+      mandate_id: body.mandate_id,
+      value: `agt_${uuidv4().replace(/-/g, '')}`,
+      expires_at: this.timestamp(this.options.tokenTtl ?? 15 * 60 * 1000),
+      created_at: this.timestamp(),
+      amount: body.amount as number,
+      currency: body.currency,
+      used: false,
+    };
+    this.tokens.set(token.value, token);
+    return this.ok({
+      id: token.id,
+      mandate_id: token.mandate_id,
+      value: token.value,
+      expires_at: token.expires_at,
+      created_at: token.created_at,
+    }, 201);
+  }
+
+  private liveToken(value: string | undefined): StoredToken | undefined {
+    const token = value ? this.tokens.get(value) : undefined;
+    return token && !token.used && Date.parse(token.expires_at) > this.now() ? token : undefined;
+  }
+
+  private validateToken(req: RouteRequest): FakeResponse {
+    const token = this.liveToken(req.headers.authorization?.replace(/^Bearer /, ''));
+    return this.ok(token ? { valid: true, expires_at: token.expires_at } : { valid: false });
+  }
+
+  private agentPay(req: RouteRequest): FakeResponse {
+    const body = this.validate(AgentPaymentRequestSchema, req.body);
+    const token = this.liveToken(body.token);
+    if (!token) throw new FakeApiError(401, 'TOKEN_INVALID', 'Agent token is invalid, expired or already used');
+    if (body.currency !== token.currency || toMinor(body.amount as number, body.currency) > toMinor(token.amount, token.currency)) {
+      throw new FakeApiError(422, 'TOKEN_AMOUNT_EXCEEDED', 'Payment exceeds the amount the token was issued for', {
+        amount: `At most ${token.amount} ${token.currency}`,
+      });
+    }
+    const mandate = this.usableMandate(token.mandate_id, body.amount as number, body.currency);
+    const payment = this.newPayment(body.amount as number, body.currency, 'pay');
+    try {
+      this.charge(payment);
+    } finally {
+      // A declined charge still uses up the token; a timed-out one never reached the processor
+      token.used = payment.status !== 'pending';
+    }
+    const spent = toMinor(mandate.spent_amount ?? 0, body.currency) + toMinor(body.amount as number, body.currency);
+    mandate.spent_amount = toMajor(spent, body.currency);
+    mandate.updated_at = this.timestamp();
+
+    const response: AgentPaymentResponse = {
+      id: payment.id,
+      status: 'completed',
+      amount: payment.amount,
+      currency: payment.currency,
+      created_at: payment.created_at,
+    };
+    return this.ok(response);
+  }
+
+  private verifyTrust(req: RouteRequest): FakeResponse {
+    const body = this.validate(TrustVerificationRequestSchema, req.body);
+    return this.ok({
+      valid: true,
+      agent_name: body.signature_agent,
+      message: 'Agent signature verified',
+      correlation_id: `corr_${uuidv4()}`,
+      fraud_reduction: 0.9,
+    });
+  }
+}
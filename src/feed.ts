@@ -0,0 +1,63 @@
+import { AxiosInstance } from 'axios';
+import { parseError, ShoraConfigurationError } from './error-handling';
+import { Paginator, serializeFilter } from './pagination';
+import type { ListFilter, PageRequest } from './pagination';
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  description?: string;
+  status: string;
+  tenant_id: string | number;
+  created_at: string;
+}
+
+export interface FeedListRequest extends PageRequest {
+  filter?: ListFilter;
+}
+
+export interface FeedListResponse {
+  items: FeedItem[];
+  total?: number;
+  has_more?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export class FeedService {
+  private client: AxiosInstance;
+  private tenantId?: string;
+  private enabled: boolean;
+
+  constructor(client: AxiosInstance, options: { tenantId?: string; enabled?: boolean } = {}) {
+    this.client = client;
+    this.tenantId = options.tenantId;
+    this.enabled = options.enabled ?? false;
+  }
+
+  list(request: FeedListRequest = {}): Paginator<FeedItem> {
+    return new Paginator(async (limit, offset) => {
+      const data = await this.fetch({ ...request, limit, offset });
+      return { items: data.items || [], total: data.total, hasMore: data.has_more };
+    }, request);
+  }
+
+  private async fetch(request: FeedListRequest): Promise<FeedListResponse> {
+    if (!this.enabled) {
+      throw new ShoraConfigurationError('Feed is disabled; set feedEnabled in ShoraConfig', { code: 'FEED_DISABLED' });
+    }
+    try {
+      const response = await this.client.get('/v2/feed/list', {
+        params: {
+          tenant_id: this.tenantId,
+          limit: request.limit,
+          offset: request.offset,
+          filter: serializeFilter(request.filter),
+        },
+      });
+      return response.data;
+    } catch (error: any) {
+      throw parseError(error);
+    }
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * HTTP Message Signatures (RFC 9421) for agent trust: signer, axios interceptor and local verifier
+ */
+
+import type { KeyObject } from 'crypto';
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { getHeader } from './rate-limit';
+import type { TrustVerificationRequest } from './auth';
+import { requireNodeCrypto } from './runtime';
+
+export type HttpSignatureAlgorithm = 'ed25519' | 'ecdsa-p256-sha256' | 'ecdsa-p384-sha384';
+
+export type SignatureKey = KeyObject | string; // KeyObject or PEM
+
+export interface SignableRequest {
+  method: string;
+  url: string; // Absolute URL
+  headers?: Record<string, any>;
+  body?: string | Buffer;
+}
+
+export interface HttpMessageSignerOptions {
+  keyId: string;
+  privateKey: SignatureKey;
+  alg?: HttpSignatureAlgorithm; // Inferred from the key when omitted
+  components?: string[]; // Defaults to @method, @authority, @path and, for requests with a body, content-digest
+  label?: string;
+  tag?: string;
+  signatureAgent?: string; // Sent as Signature-Agent and covered by the signature
+  expiresIn?: number; // Seconds
+}
+
+export interface SignatureHeaders {
+  'Signature-Input': string;
+  Signature: string;
+  'Content-Digest'?: string;
+  'Signature-Agent'?: string;
+}
+
+export interface SignatureParams {
+  created?: number;
+  expires?: number;
+  keyid?: string;
+  alg?: string;
+  nonce?: string;
+  tag?: string;
+}
+
+export type SignatureVerifierKeys =
+  | Record<string, SignatureKey>
+  | ((keyId: string, params: SignatureParams) => SignatureKey | undefined | Promise<SignatureKey | undefined>);
+
+export interface VerifyHttpMessageSignatureOptions {
+  keys: SignatureVerifierKeys;
+  label?: string; // Defaults to the first signature in the request
+  requiredComponents?: string[]; // Defaults to @method, @authority, @path and, for requests with a body, content-digest
+  maxAge?: number; // Seconds a signature stays valid after `created`, defaults to 300
+  clockSkew?: number; // Seconds, defaults to 30
+  tag?: string;
+  now?: number; // Epoch ms, for tests
+}
+
+export type HttpSignatureFailureReason =
+  | 'missing_signature'
+  | 'malformed'
+  | 'unknown_key'
+  | 'missing_component'
+  | 'expired'
+  | 'digest_mismatch'
+  | 'invalid_signature';
+
+export type HttpSignatureVerification =
+  | { valid: true; label: string; keyId: string; params: SignatureParams; components: string[] }
+  | { valid: false; reason: HttpSignatureFailureReason; error: string; keyId?: string };
+
+interface SignatureInputEntry {
+  components: string[];
+  params: SignatureParams;
+  raw: string; // Serialized inner list with parameters, used verbatim as @signature-params
+}
+
+const signingCrypto = () => requireNodeCrypto('HTTP message signatures');
+
+const DEFAULT_MAX_AGE = 300;
+const DEFAULT_CLOCK_SKEW = 30;
+
+function toKeyObject(key: SignatureKey, type: 'private' | 'public'): KeyObject {
+  if (typeof key !== 'string') return key;
+  return type === 'private' ? signingCrypto().createPrivateKey(key) : signingCrypto().createPublicKey(key);
+}
+
+function inferAlgorithm(key: KeyObject): HttpSignatureAlgorithm {
+  if (key.asymmetricKeyType === 'ed25519') return 'ed25519';
+  if (key.asymmetricKeyType === 'ec') {
+    const curve = key.asymmetricKeyDetails?.namedCurve;
+    if (curve === 'prime256v1') return 'ecdsa-p256-sha256';
+    if (curve === 'secp384r1') return 'ecdsa-p384-sha384';
+  }
+  throw new Error(`Unsupported signing key type: ${key.asymmetricKeyType}`);
+}
+
+// Content-Length or Transfer-Encoding reveal a body even when the caller could not supply its bytes
+function hasBody(request: SignableRequest): boolean {
+  if (request.body !== undefined && request.body.length > 0) return true;
+  const length = Number(getHeader(request.headers, 'Content-Length') ?? 0);
+  return length > 0 || getHeader(request.headers, 'Transfer-Encoding') !== undefined;
+}
+
+function signBase(alg: HttpSignatureAlgorithm, key: KeyObject, data: Buffer): Buffer {
+  if (alg === 'ed25519') return signingCrypto().sign(null, data, key);
+  return signingCrypto().sign(alg === 'ecdsa-p256-sha256' ? 'sha256' : 'sha384', data, { key, dsaEncoding: 'ieee-p1363' });
+}
+
+function verifyBase(alg: HttpSignatureAlgorithm, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  if (alg === 'ed25519') return signingCrypto().verify(null, data, key, signature);
+  return signingCrypto().verify(alg === 'ecdsa-p256-sha256' ? 'sha256' : 'sha384', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+}
+
+export function createContentDigest(body: string | Buffer): string {
+  return `sha-256=:${signingCrypto().createHash('sha256').update(body).digest('base64')}:`;
+}
+
+function componentValue(component: string, request: SignableRequest): string | undefined {
+  const url = new URL(request.url);
+  switch (component) {
+    case '@method':
+      return request.method.toUpperCase();
+    case '@target-uri':
+      return url.href;
+    case '@authority':
+      return url.host.toLowerCase();
+    case '@scheme':
+      return url.protocol.replace(/:$/, '');
+    case '@path':
+      return url.pathname;
+    case '@query':
+      return url.search || '?';
+    case '@request-target':
+      return `${url.pathname}${url.search}`;
+    default: {
+      const value = getHeader(request.headers, component);
+      return value === undefined ? undefined : value.trim();
+    }
+  }
+}
+
+function serializeParams(params: SignatureParams): string {
+  return (Object.keys(params) as Array<keyof SignatureParams>)
+    .filter((name) => params[name] !== undefined)
+    .map((name) => (typeof params[name] === 'number' ? `;${name}=${params[name]}` : `;${name}="${params[name]}"`))
+    .join('');
+}
+
+function buildSignatureBase(request: SignableRequest, components: string[], signatureParams: string): string {
+  const lines = components.map((component) => {
+    const value = componentValue(component, request);
+    if (value === undefined) throw new Error(`Missing signature component ${component}`);
+    return `"${component}": ${value}`;
+  });
+  lines.push(`"@signature-params": ${signatureParams}`);
+  return lines.join('\n');
+}
+
+// Splits a structured field dictionary on top-level commas, ignoring commas inside strings and inner lists
+function splitDictionary(header: string): Map<string, string> {
+  const members = new Map<string, string>();
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i <= header.length; i++) {
+    const char = header[i];
+    if (char === '"' && header[i - 1] !== '\\') quoted = !quoted;
+    if (quoted) continue;
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if ((char === ',' && depth === 0) || i === header.length) {
+      const member = header.slice(start, i).trim();
+      const eq = member.indexOf('=');
+      if (eq > 0) members.set(member.slice(0, eq).trim(), member.slice(eq + 1).trim());
+      start = i + 1;
+    }
+  }
+  return members;
+}
+
+function parseSignatureInput(value: string): SignatureInputEntry | undefined {
+  const match = /^\(([^)]*)\)(.*)$/.exec(value);
+  if (!match) return undefined;
+  const components = (match[1].match(/"[^"]*"/g) || []).map((item) => item.slice(1, -1));
+  const params: Record<string, string | number> = {};
+  // Each parameter splits on its first '='; quoted values may contain '=' or ';' (base64 nonces and key ids)
+  for (const [, name, raw = ''] of match[2].matchAll(/;\s*([^=;\s]+)(?:=("(?:[^"\\]|\\.)*"|[^;]*))?/g)) {
+    params[name] = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : Number(raw.trim());
+  }
+  return { components, params: params as SignatureParams, raw: value };
+}
+
+export class HttpMessageSigner {
+  private readonly key: KeyObject;
+  private readonly alg: HttpSignatureAlgorithm;
+  private readonly label: string;
+
+  constructor(private readonly options: HttpMessageSignerOptions) {
+    this.key = toKeyObject(options.privateKey, 'private');
+    this.alg = options.alg ?? inferAlgorithm(this.key);
+    this.label = options.label ?? 'sig1';
+  }
+
+  get keyId(): string {
+    return this.options.keyId;
+  }
+
+  sign(request: SignableRequest): SignatureHeaders {
+    const headers: Record<string, any> = { ...request.headers };
+    const result: Partial<SignatureHeaders> = {};
+    const components = [...(this.options.components ?? ['@method', '@authority', '@path'])];
+
+    if (request.body !== undefined && request.body !== '') {
+      result['Content-Digest'] = createContentDigest(request.body);
+      headers['content-digest'] = result['Content-Digest'];
+      if (!this.options.components) components.push('content-digest');
+    }
+    if (this.options.signatureAgent) {
+      result['Signature-Agent'] = this.options.signatureAgent;
+      headers['signature-agent'] = this.options.signatureAgent;
+      if (!components.includes('signature-agent')) components.push('signature-agent');
+    }
+
+    const created = Math.floor(Date.now() / 1000);
+    const params: SignatureParams = {
+      created,
+      expires: this.options.expiresIn ? created + this.options.expiresIn : undefined,
+      keyid: this.options.keyId,
+      alg: this.alg,
+      nonce: signingCrypto().randomBytes(16).toString('base64url'),
+      tag: this.options.tag,
+    };
+    const signatureParams = `(${components.map((c) => `"${c}"`).join(' ')})${serializeParams(params)}`;
+    const base = buildSignatureBase({ ...request, headers }, components, signatureParams);
+    const signature = signBase(this.alg, this.key, Buffer.from(base, 'utf8'));
+
+    return {
+      ...result,
+      'Signature-Input': `${this.label}=${signatureParams}`,
+      Signature: `${this.label}=:${signature.toString('base64')}:`,
+    };
+  }
+
+  /**
+   * Signs a request and packages the headers in the shape `auth.verifyTrust()` expects.
+   */
+  createTrustVerificationRequest(request: SignableRequest, extra: Partial<TrustVerificationRequest> = {}): TrustVerificationRequest {
+    const headers = this.sign(request);
+    return {
+      signature_agent: headers['Signature-Agent'] ?? this.options.keyId,
+      signature_input: headers['Signature-Input'],
+      signature: headers.Signature,
+      timestamp: Date.now(),
+      ...extra,
+    };
+  }
+}
+
+/**
+ * Request interceptor that signs every outgoing axios request. JSON bodies are serialized here so the
+ * Content-Digest covers exactly the bytes sent.
+ */
+export function createSigningInterceptor(signer: HttpMessageSigner) {
+  return (config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
+    let body: string | Buffer | undefined;
+    if (config.data !== undefined && config.data !== null) {
+      if (typeof config.data === 'string' || Buffer.isBuffer(config.data)) {
+        body = config.data;
+      } else {
+        body = JSON.stringify(config.data);
+        config.data = body;
+        if (!config.headers.has('Content-Type')) config.headers.set('Content-Type', 'application/json');
+      }
+    }
+    const headers = signer.sign({
+      method: config.method || 'get',
+      url: axios.getUri(config),
+      headers: config.headers.toJSON(),
+      body,
+    });
+    for (const [name, value] of Object.entries(headers)) {
+      if (value !== undefined) config.headers.set(name, value);
+    }
+    return config;
+  };
+}
+
+export async function verifyHttpMessageSignature(
+  request: SignableRequest,
+  options: VerifyHttpMessageSignatureOptions
+): Promise<HttpSignatureVerification> {
+  const inputHeader = getHeader(request.headers, 'Signature-Input');
+  const signatureHeader = getHeader(request.headers, 'Signature');
+  if (!inputHeader || !signatureHeader) {
+    return { valid: false, reason: 'missing_signature', error: 'Request has no Signature-Input or Signature header' };
+  }
+
+  const inputs = splitDictionary(inputHeader);
+  const label = options.label ?? inputs.keys().next().value;
+  const input = label ? parseSignatureInput(inputs.get(label) ?? '') : undefined;
+  const signatureMatch = label ? /^:([A-Za-z0-9+/=]+):$/.exec(splitDictionary(signatureHeader).get(label) ?? '') : null;
+  if (!label || !input || !signatureMatch) {
+    return { valid: false, reason: 'malformed', error: 'Signature headers could not be parsed' };
+  }
+  const { params, components } = input;
+  const keyId = params.keyid;
+  if (!keyId || typeof params.created !== 'number' || Number.isNaN(params.created)) {
+    return { valid: false, reason: 'malformed', error: 'Signature is missing keyid or created', keyId };
+  }
+  if (options.tag && params.tag !== options.tag) {
+    return { valid: false, reason: 'malformed', error: `Signature tag must be "${options.tag}"`, keyId };
+  }
+
+  const required = options.requiredComponents ?? ['@method', '@authority', '@path', ...(hasBody(request) ? ['content-digest'] : [])];
+  const missing = required.filter((component) => !components.includes(component));
+  if (missing.length) {
+    return { valid: false, reason: 'missing_component', error: `Signature does not cover ${missing.join(', ')}`, keyId };
+  }
+
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  const skew = options.clockSkew ?? DEFAULT_CLOCK_SKEW;
+  if (params.created > now + skew) {
+    return { valid: false, reason: 'expired', error: 'Signature was created in the future', keyId };
+  }
+  if (now - params.created > (options.maxAge ?? DEFAULT_MAX_AGE) + skew || (params.expires && now > params.expires + skew)) {
+    return { valid: false, reason: 'expired', error: 'Signature has expired', keyId };
+  }
+
+  const resolved = typeof options.keys === 'function' ? await options.keys(keyId, params) : options.keys[keyId];
+  if (!resolved) {
+    return { valid: false, reason: 'unknown_key', error: `No verification key for ${keyId}`, keyId };
+  }
+
+  if (components.includes('content-digest')) {
+    if (request.body === undefined) {
+      return { valid: false, reason: 'digest_mismatch', error: 'Signature covers Content-Digest but the raw body is not available', keyId };
+    }
+    const expected = Buffer.from(createContentDigest(request.body));
+    const actual = Buffer.from(getHeader(request.headers, 'Content-Digest') ?? '');
+    if (expected.length !== actual.length || !signingCrypto().timingSafeEqual(expected, actual)) {
+      return { valid: false, reason: 'digest_mismatch', error: 'Content-Digest does not match the body', keyId };
+    }
+  }
+
+  let valid = false;
+  try {
+    const key = toKeyObject(resolved, 'public');
+    // The algorithm follows the key; the signer's alg parameter may only confirm it
+    const alg = inferAlgorithm(key);
+    if (params.alg !== undefined && params.alg !== alg) {
+      return { valid: false, reason: 'invalid_signature', error: `Signature alg "${params.alg}" does not match the ${alg} key`, keyId };
+    }
+    const base = buildSignatureBase(request, components, input.raw);
+    valid = verifyBase(alg, key, Buffer.from(base, 'utf8'), Buffer.from(signatureMatch[1], 'base64'));
+  } catch (error) {
+    return { valid: false, reason: 'invalid_signature', error: String(error), keyId };
+  }
+  if (!valid) {
+    return { valid: false, reason: 'invalid_signature', error: 'Signature verification failed', keyId };
+  }
+  return { valid: true, label, keyId, params, components };
+}
@@ -0,0 +1,18 @@
+/**
+ * ES module entry. ES modules have no `require`, and `process.getBuiltinModule` is missing before
+ * Node 20.16, so Node built-ins and optional dependencies are loaded through createRequire instead.
+ */
+
+import { isNodeRuntime, registerNodeRequire } from './runtime';
+
+if (isNodeRuntime()) {
+  try {
+    const { createRequire } = await import('module');
+    registerNodeRequire(createRequire(import.meta.url));
+  } catch {
+    // Node-compatible runtimes without the module built-in fall back to getBuiltinModule or Web Crypto
+  }
+}
+
+export * from './index';
+export { default } from './index';
@@ -1,7 +1,22 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { createAxiosInstance } from './customAxios';
 import { normalizeBasePath } from './config';
-import { PaymentService } from './payments';
+import {
+  PaymentService,
+  PaymentRequestSchema,
+  PaymentResponseSchema,
+  ACPCheckoutRequestSchema,
+  ACPCheckoutResponseSchema,
+  CheckoutIntentRequestSchema,
+  CheckoutIntentResponseSchema,
+  CheckoutConfirmRequestSchema,
+  ReceiptResponseSchema,
+  SupportedMethodsResponseSchema,
+  RefundRequestSchema,
+  RefundResponseSchema,
+  RefundListRequestSchema,
+  RefundListResponseSchema
+} from './payments';
 import type { 
   PaymentRequest, 
   PaymentResponse, 
@@ -11,39 +26,189 @@ import type {
   CheckoutIntentResponse,
   CheckoutConfirmRequest,
   ReceiptResponse,
-  SupportedMethodsResponse
+  SupportedMethodsResponse,
+  RefundReason,
+  RefundRequest,
+  RefundResponse,
+  RefundListRequest,
+  RefundListResponse,
+  CancelPaymentSessionOptions
 } from './payments';
-import { AuthService } from './auth';
+import {
+  AuthService,
+  MandateRequestSchema,
+  MandateResponseSchema,
+  MandateListRequestSchema,
+  MandateListResponseSchema,
+  MandateBalanceSchema,
+  TokenRequestSchema,
+  TokenResponseSchema,
+  TokenValidationResponseSchema,
+  AgentPaymentRequestSchema,
+  AgentPaymentResponseSchema,
+  TrustVerificationRequestSchema,
+  TrustVerificationResponseSchema,
+  TrustStatusResponseSchema
+} from './auth';
 import type { 
   MandateRequest, 
   MandateResponse, 
+  MandateStatus,
+  MandateListRequest,
+  MandateListResponse,
+  MandateBalance,
   TokenRequest, 
   TokenResponse, 
+  TokenValidationResponse,
   AgentPaymentRequest, 
   AgentPaymentResponse,
   TrustVerificationRequest,
   TrustVerificationResponse,
   TrustStatusResponse
 } from './auth';
-import { parseError } from './error-handling';
+import {
+  parseError,
+  isRetryableError,
+  ShoraError,
+  ShoraAuthError,
+  ShoraValidationError,
+  ShoraNotFoundError,
+  ShoraConflictError,
+  ShoraCardDeclinedError,
+  ShoraAuthenticationRequiredError,
+  ShoraRateLimitError,
+  ShoraServerError,
+  ShoraNetworkError,
+  ShoraCircuitOpenError,
+  ShoraWebhookError,
+  ShoraMandateGuardError,
+  ShoraConfigurationError
+} from './error-handling';
+import type { ShoraErrorOptions } from './error-handling';
+import type { CircuitBreakerOptions, CircuitState, CircuitStateChange } from './retry-logic';
+import { TokenBucket, parseRateLimitHeaders } from './rate-limit';
+import { MandateGuard, InMemoryMandateLedgerStore, FileMandateLedgerStore } from './mandate-guard';
+import type { MandateGuardOptions, MandateLedger, MandateLedgerStore } from './mandate-guard';
+import {
+  MemoryAuditSink,
+  ConsoleAuditSink,
+  JsonlFileAuditSink,
+  HttpAuditSink,
+  MemoryAuditRetryQueue,
+  FileAuditRetryQueue
+} from './audit-sinks';
+import type { AuditSink, AuditBatch, AuditRetryQueue, JsonlFileAuditSinkOptions, HttpAuditSinkOptions } from './audit-sinks';
+import { AuditChain, AUDIT_CHAIN_GENESIS, computeAuditEntryHash, verifyAuditChain } from './audit-chain';
+import type {
+  AuditChainHead,
+  AuditChainIssue,
+  AuditChainIssueType,
+  AuditChainVerification,
+  VerifyAuditChainOptions
+} from './audit-chain';
+import { Money, getCurrencyExponent, isCurrencyCode, toWire, toWireAmount } from './money';
+import type { MoneyInput, RoundingMode, Wire } from './money';
+import { schema, Schema, OptionalSchema, ObjectSchema, schemaError } from './schema';
+import type { Infer, InferObject, ObjectShape, SchemaIssue, SchemaValidationResult, SchemaValidationOptions } from './schema';
+import { SDK_VERSION } from './version';
+import { getEnv } from './runtime';
+import { FetchTransport, AxiosTransport, createTransportAdapter, resolveTransport, transportError } from './transport';
+import type { ShoraTransport, TransportOption, TransportRequest, TransportResponse, FetchTransportOptions } from './transport';
+import { FakeShoraServer, FAKE_SHORA_BASE_URL } from './fake-server';
+import type { FakeShoraServerOptions, FakeFailure, FakeWebhookDelivery } from './fake-server';
+import { SANDBOX_SCENARIOS, SANDBOX_CARD_TOKENS, sandboxAmount, getSandboxScenario, isSandboxScenarioError } from './sandbox';
+import type { SandboxScenario, SandboxScenarioDefinition } from './sandbox';
+import { CassetteTransport, defaultCassetteMatch, REDACTED } from './cassette';
+import type { Cassette, CassetteInteraction, CassetteMode, CassetteOptions, CassetteRequest } from './cassette';
+import { ShoraTelemetry, INSTRUMENTATION_NAME } from './telemetry';
+import type { OpenTelemetryApi, TelemetryAttributes, TelemetryOptions, TracedCall, TracedRequest } from './telemetry';
+import { AuditService } from './audit';
+import type { AuditRecord, AuditListRequest, AuditListResponse } from './audit';
+import { FeedService } from './feed';
+import type { FeedItem, FeedListRequest, FeedListResponse } from './feed';
+import { Paginator } from './pagination';
+import type { Page, PageRequest, ListFilter } from './pagination';
+import type { RateLimitOptions, RateLimitState } from './rate-limit';
 import { SecurityEnhancement, EncryptedToken, AuditLogEntry, createSecurityEnhancement, generateEncryptionKey } from './security_enhance';
-
-const pkg: any = require('../package.json');
+import type {
+  SecurePaymentTokenData,
+  PaymentTokenData,
+  PaymentTokenValidation,
+  PaymentTokenFailureReason
+} from './security_enhance';
+import { MemoryNonceStore } from './nonce-store';
+import { HttpMessageSigner, createSigningInterceptor, verifyHttpMessageSignature, createContentDigest } from './http-signatures';
+import { CheckoutFlow } from './checkout-flow';
+import type { CheckoutFlowState, CheckoutFlowStatus, CheckoutFlowTransition, CheckoutFlowHooks, CheckoutFlowOptions } from './checkout-flow';
+import { waitForPaymentCompletion, waitForCheckoutIntent } from './polling';
+import type { WaitOptions, WaitSource, PaymentWaitOutcome, CheckoutIntentWaitOutcome } from './polling';
+import { AgentTrustVerifier, createAgentTrustMiddleware, AGENT_KEY_DIRECTORY_PATH } from './agent-trust';
+import type { AgentTrustOptions, AgentTrustResult, AgentTrustFailureReason } from './agent-trust';
+import type {
+  HttpMessageSignerOptions,
+  HttpSignatureAlgorithm,
+  HttpSignatureFailureReason,
+  HttpSignatureVerification,
+  SignableRequest,
+  SignatureHeaders,
+  SignatureKey,
+  SignatureParams,
+  SignatureVerifierKeys,
+  VerifyHttpMessageSignatureOptions
+} from './http-signatures';
+import type { NonceStore, MemoryNonceStoreOptions } from './nonce-store';
+import { WebhookService, WEBHOOK_SIGNATURE_HEADER } from './webhooks';
+import type {
+  WebhookEvent,
+  WebhookEventType,
+  WebhookHandler,
+  PaymentCompletedEvent,
+  PaymentFailedEvent,
+  PaymentCancelledEvent,
+  CheckoutCompletedEvent,
+  CheckoutExpiredEvent,
+  RefundSucceededEvent,
+  RefundFailedEvent,
+  MandateRevokedEvent,
+  MandateExpiredEvent,
+  AuditTxEvent
+} from './webhooks';
 
 export interface ShoraConfig {
  apiKey: string;
  baseUrl?: string;
  environment?: 'sandbox' | 'staging' | 'production';
  timeout?: number;
+ transport?: TransportOption; // Defaults to axios on Node and fetch elsewhere
+ cassette?: CassetteOptions; // Record or replay API traffic for tests
+ telemetry?: false | TelemetryOptions; // OpenTelemetry spans and metrics; uses the host app's providers when present
  tenantId?: string;
  tapTrustEnabled?: boolean;
+ tapSigner?: HttpMessageSigner | HttpMessageSignerOptions;
  gaslessEnabled?: boolean;
  pspFallbackEnabled?: boolean;
  acpBridgeEnabled?: boolean;
- feedEnabled?: boolean;
+ feedEnabled?: boolean; // Defaults to false
  encryptionKey?: string;
+ encryptionKeys?: Record<string, string>;
+ activeEncryptionKeyId?: string;
+ paymentTokenTtl?: number;
+ nonceStore?: NonceStore;
  enableAuditLogging?: boolean;
  auditLogEndpoint?: string;
+ webhookSecret?: string;
+ webhookTolerance?: number;
+ circuitBreaker?: CircuitBreakerOptions;
+ validateRequests?: boolean; // Defaults to true
+ validateResponses?: boolean; // Defaults to false
+ rateLimit?: RateLimitOptions;
+ mandateGuard?: boolean | MandateGuardOptions;
+ auditSinks?: AuditSink[];
+ auditLogMaxEntries?: number;
+ auditRetryQueuePath?: string;
+ onAuditError?: (error: unknown) => void;
+ auditChainKey?: string;
+ auditChainHead?: AuditChainHead;
 }
 
 export type { 
@@ -55,33 +220,167 @@ export type {
   CheckoutIntentResponse,
   CheckoutConfirmRequest,
   ReceiptResponse,
-  SupportedMethodsResponse
+  SupportedMethodsResponse,
+  RefundReason,
+  RefundRequest,
+  RefundResponse,
+  RefundListRequest,
+  RefundListResponse,
+  CancelPaymentSessionOptions
 };
 export type { 
   MandateRequest, 
   MandateResponse, 
+  MandateStatus,
+  MandateListRequest,
+  MandateListResponse,
+  MandateBalance,
   TokenRequest, 
   TokenResponse, 
+  TokenValidationResponse,
   AgentPaymentRequest, 
   AgentPaymentResponse,
   TrustVerificationRequest,
   TrustVerificationResponse,
   TrustStatusResponse
 };
+export {
+  PaymentRequestSchema,
+  PaymentResponseSchema,
+  ACPCheckoutRequestSchema,
+  ACPCheckoutResponseSchema,
+  CheckoutIntentRequestSchema,
+  CheckoutIntentResponseSchema,
+  CheckoutConfirmRequestSchema,
+  ReceiptResponseSchema,
+  SupportedMethodsResponseSchema,
+  RefundRequestSchema,
+  RefundResponseSchema,
+  RefundListRequestSchema,
+  RefundListResponseSchema,
+  MandateRequestSchema,
+  MandateResponseSchema,
+  MandateListRequestSchema,
+  MandateListResponseSchema,
+  MandateBalanceSchema,
+  TokenRequestSchema,
+  TokenResponseSchema,
+  TokenValidationResponseSchema,
+  AgentPaymentRequestSchema,
+  AgentPaymentResponseSchema,
+  TrustVerificationRequestSchema,
+  TrustVerificationResponseSchema,
+  TrustStatusResponseSchema
+};
+export type {
+  WebhookEvent,
+  WebhookEventType,
+  WebhookHandler,
+  PaymentCompletedEvent,
+  PaymentFailedEvent,
+  PaymentCancelledEvent,
+  CheckoutCompletedEvent,
+  CheckoutExpiredEvent,
+  RefundSucceededEvent,
+  RefundFailedEvent,
+  MandateRevokedEvent,
+  MandateExpiredEvent,
+  AuditTxEvent
+};
+export type { CircuitBreakerOptions, CircuitState, CircuitStateChange };
+export type { RateLimitOptions, RateLimitState };
+export type { ShoraErrorOptions };
+export type { MandateGuardOptions, MandateLedger, MandateLedgerStore };
+export { MandateGuard, InMemoryMandateLedgerStore, FileMandateLedgerStore };
+export type { AuditRecord, AuditListRequest, AuditListResponse, FeedItem, FeedListRequest, FeedListResponse };
+export type { Page, PageRequest, ListFilter };
+export type { AuditSink, AuditBatch, AuditRetryQueue, JsonlFileAuditSinkOptions, HttpAuditSinkOptions };
+export { MemoryAuditSink, ConsoleAuditSink, JsonlFileAuditSink, HttpAuditSink, MemoryAuditRetryQueue, FileAuditRetryQueue };
+export type { AuditChainHead, AuditChainIssue, AuditChainIssueType, AuditChainVerification, VerifyAuditChainOptions };
+export { AuditChain, AUDIT_CHAIN_GENESIS, computeAuditEntryHash, verifyAuditChain };
+export { Paginator };
+export {
+  ShoraError,
+  ShoraAuthError,
+  ShoraValidationError,
+  ShoraNotFoundError,
+  ShoraConflictError,
+  ShoraCardDeclinedError,
+  ShoraAuthenticationRequiredError,
+  ShoraRateLimitError,
+  ShoraServerError,
+  ShoraNetworkError,
+  ShoraCircuitOpenError,
+  ShoraWebhookError,
+  ShoraMandateGuardError,
+  ShoraConfigurationError,
+  isRetryableError
+};
 export { EncryptedToken, AuditLogEntry, createSecurityEnhancement, generateEncryptionKey };
+export type { SecurePaymentTokenData, PaymentTokenData, PaymentTokenValidation, PaymentTokenFailureReason };
+export type { NonceStore, MemoryNonceStoreOptions };
+export { MemoryNonceStore };
+export type {
+  HttpMessageSignerOptions,
+  HttpSignatureAlgorithm,
+  HttpSignatureFailureReason,
+  HttpSignatureVerification,
+  SignableRequest,
+  SignatureHeaders,
+  SignatureKey,
+  SignatureParams,
+  SignatureVerifierKeys,
+  VerifyHttpMessageSignatureOptions
+};
+export { HttpMessageSigner, createSigningInterceptor, verifyHttpMessageSignature, createContentDigest };
+export type { CheckoutFlowState, CheckoutFlowStatus, CheckoutFlowTransition, CheckoutFlowHooks, CheckoutFlowOptions };
+export { CheckoutFlow };
+export type { WaitOptions, WaitSource, PaymentWaitOutcome, CheckoutIntentWaitOutcome };
+export type { AgentTrustOptions, AgentTrustResult, AgentTrustFailureReason };
+export { AgentTrustVerifier, createAgentTrustMiddleware, AGENT_KEY_DIRECTORY_PATH };
+export { WebhookService, WEBHOOK_SIGNATURE_HEADER };
+export type { MoneyInput, RoundingMode, Wire };
+export { Money, getCurrencyExponent, isCurrencyCode, toWire, toWireAmount };
+export type { Infer, InferObject, ObjectShape, SchemaIssue, SchemaValidationResult, SchemaValidationOptions };
+export { schema, Schema, OptionalSchema, ObjectSchema, schemaError };
+export type { ShoraTransport, TransportOption, TransportRequest, TransportResponse, FetchTransportOptions };
+export { FetchTransport, AxiosTransport, createTransportAdapter, transportError, SDK_VERSION };
+export type { FakeShoraServerOptions, FakeFailure, FakeWebhookDelivery };
+export { FakeShoraServer, FAKE_SHORA_BASE_URL };
+export type { SandboxScenario, SandboxScenarioDefinition };
+export { SANDBOX_SCENARIOS, SANDBOX_CARD_TOKENS, sandboxAmount, getSandboxScenario, isSandboxScenarioError };
+export type { Cassette, CassetteInteraction, CassetteMode, CassetteOptions, CassetteRequest };
+export { CassetteTransport, defaultCassetteMatch, REDACTED };
+export type { OpenTelemetryApi, TelemetryAttributes, TelemetryOptions, TracedCall, TracedRequest };
+export { ShoraTelemetry, INSTRUMENTATION_NAME };
 
 class ShoraSDK {
  private client: AxiosInstance;
  private config: ShoraConfig;
+ private rateLimiter?: TokenBucket;
+ private cassette?: CassetteTransport;
+ private telemetry: ShoraTelemetry;
+ private rateLimitState?: RateLimitState;
  public payments: PaymentService;
   public auth: {
     createMandate: (request: MandateRequest) => Promise<MandateResponse>;
+    getMandate: (mandateId: string) => Promise<MandateResponse>;
+    listMandates: (request?: MandateListRequest) => Promise<MandateListResponse>;
+    revokeMandate: (mandateId: string, reason?: string) => Promise<MandateResponse>;
+    updateMandateLimit: (mandateId: string, maxAmount: MoneyInput) => Promise<MandateResponse>;
+    renewMandate: (mandateId: string, expiresAt: string) => Promise<MandateResponse>;
+    getMandateBalance: (mandateId: string) => Promise<MandateBalance>;
     generateToken: (request: TokenRequest) => Promise<TokenResponse>;
     pay: (request: AgentPaymentRequest) => Promise<AgentPaymentResponse>;
     verifyTrust: (request: TrustVerificationRequest) => Promise<TrustVerificationResponse>;
     getTrustStatus: () => Promise<TrustStatusResponse>;
   };
  public security: SecurityEnhancement;
+ public mandateGuard?: MandateGuard;
+ public audit: AuditService;
+ public signer?: HttpMessageSigner;
+ public feed: FeedService;
+ public webhooks: WebhookService;
 
   constructor(config: ShoraConfig, httpClient?: AxiosInstance) {
     const DEFAULT_BASE_URLS: Record<'sandbox' | 'staging' | 'production', string> = {
@@ -91,7 +390,7 @@ class ShoraSDK {
     };
 
     const environment: 'sandbox' | 'staging' | 'production' = config.environment ?? 'production';
-    const envBase = process.env.SHORA_API_BASE_URL;
+    const envBase = getEnv('SHORA_API_BASE_URL');
     
     // Resolution order: config.baseUrl > SHORA_API_BASE_URL > production default
     // For sandbox/staging, require explicit baseUrl to avoid accidental production calls
@@ -119,13 +418,27 @@ class ShoraSDK {
     }
 
  this.config = { baseUrl: resolvedBase, timeout: 30000, ...config };
+ const transport = resolveTransport(this.config.transport);
+ if (this.config.cassette) {
+ // A custom client never goes through the SDK transport, so the cassette would silently record nothing
+ if (httpClient) {
+ throw new ShoraConfigurationError('cassette cannot be combined with a custom httpClient; pass a transport instead', {
+ code: 'CASSETTE_WITH_HTTP_CLIENT',
+ });
+ }
+ this.cassette = new CassetteTransport({ transport, secrets: [this.config.apiKey], ...this.config.cassette });
+ }
+ this.telemetry = new ShoraTelemetry({
+ tenantId: this.config.tenantId,
+ ...(this.config.telemetry === false ? { api: false } : this.config.telemetry),
+ });
 
  // Use customAxios instance with deprecation warning interceptor
  if (httpClient) {
    this.client = httpClient;
  } else {
    // resolvedBase is guaranteed to be string at this point (checked above)
-   this.client = createAxiosInstance(resolvedBase!, this.config.apiKey);
+   this.client = createAxiosInstance(resolvedBase!, this.config.apiKey, this.cassette ?? transport);
    // Add additional headers
    this.client.defaults.headers.common['Content-Type'] = 'application/json';
    if (this.config.tenantId) {
@@ -133,47 +446,143 @@ class ShoraSDK {
    }
  }
 
+ // Request interceptors run last-registered-first, so signing is registered before the rate limiter
+ // to stamp `created` after any queueing delay
+ if (this.config.tapTrustEnabled) {
+ if (!this.config.tapSigner) {
+ throw new ShoraConfigurationError('tapTrustEnabled requires tapSigner with a keyId and privateKey', { code: 'TAP_SIGNER_MISSING' });
+ }
+ this.signer = this.config.tapSigner instanceof HttpMessageSigner
+ ? this.config.tapSigner
+ : new HttpMessageSigner(this.config.tapSigner);
+ this.client.interceptors.request.use(createSigningInterceptor(this.signer));
+ }
+
+ // Queue requests client-side instead of burning server quota
+ if (this.config.rateLimit) {
+ const limiter = new TokenBucket(this.config.rateLimit);
+ this.rateLimiter = limiter;
+ this.client.interceptors.request.use(async (request) => {
+ await limiter.acquire();
+ return request;
+ });
+ }
+
+ // Registered last so the trace context is in the headers before they are signed
+ if (this.telemetry.enabled) {
+ const telemetry = this.telemetry;
+ this.client.interceptors.request.use((request) => {
+ telemetry.injectHeaders(request.headers);
+ return request;
+ });
+ }
+
  // Add error parsing interceptor
  this.client.interceptors.response.use(
- (response: AxiosResponse) => response,
+ (response: AxiosResponse) => {
+ this.trackRateLimit(response.headers);
+ this.telemetry.recordResponse(response.status);
+ return response;
+ },
  (error: any) => {
+ this.trackRateLimit(error?.response?.headers);
+ this.telemetry.recordResponse(error?.response?.status);
  throw parseError(error);
  }
  );
+ this.telemetry.observeRateLimit(() => this.rateLimitState);
+
+ this.payments = new PaymentService(this.client, {
+ circuitBreaker: this.config.circuitBreaker,
+ telemetry: this.telemetry,
+ validateRequests: this.config.validateRequests,
+ validateResponses: this.config.validateResponses,
+ });
+
+    if (this.config.mandateGuard) {
+      this.mandateGuard = new MandateGuard(this.config.mandateGuard === true ? {} : this.config.mandateGuard);
+    }
+    this.audit = new AuditService(this.client, { tenantId: this.config.tenantId });
+    this.feed = new FeedService(this.client, { tenantId: this.config.tenantId, enabled: this.config.feedEnabled === true });
 
- this.payments = new PaymentService(this.client);
+    const authService = new AuthService(this.client, {
+      mandateGuard: this.mandateGuard,
+      telemetry: this.telemetry,
+      validateRequests: this.config.validateRequests,
+      validateResponses: this.config.validateResponses,
+    });
 
     this.auth = {
-      createMandate: (request: MandateRequest) => new AuthService(this.client).createMandate(request),
-      generateToken: (request: TokenRequest) => new AuthService(this.client).generateToken(request),
-      pay: (request: AgentPaymentRequest) => new AuthService(this.client).pay(request),
-      verifyTrust: (request: TrustVerificationRequest) => new AuthService(this.client).verifyTrust(request),
-      getTrustStatus: () => new AuthService(this.client).getTrustStatus(),
+      createMandate: (request: MandateRequest) => authService.createMandate(request),
+      getMandate: (mandateId: string) => authService.getMandate(mandateId),
+      listMandates: (request?: MandateListRequest) => authService.listMandates(request),
+      revokeMandate: (mandateId: string, reason?: string) => authService.revokeMandate(mandateId, reason),
+      updateMandateLimit: (mandateId: string, maxAmount: MoneyInput) => authService.updateMandateLimit(mandateId, maxAmount),
+      renewMandate: (mandateId: string, expiresAt: string) => authService.renewMandate(mandateId, expiresAt),
+      getMandateBalance: (mandateId: string) => authService.getMandateBalance(mandateId),
+      generateToken: (request: TokenRequest) => authService.generateToken(request),
+      pay: (request: AgentPaymentRequest) => authService.pay(request),
+      verifyTrust: (request: TrustVerificationRequest) => authService.verifyTrust(request),
+      getTrustStatus: () => authService.getTrustStatus(),
     };
 
  this.security = createSecurityEnhancement({
- encryptionKey: this.config.encryptionKey || generateEncryptionKey(),
+ encryptionKey: this.config.encryptionKey,
+ encryptionKeys: this.config.encryptionKeys,
+ activeEncryptionKeyId: this.config.activeEncryptionKeyId,
+ paymentTokenTtl: this.config.paymentTokenTtl,
+ nonceStore: this.config.nonceStore,
  auditLogEndpoint: this.config.auditLogEndpoint,
+ auditSinks: this.config.auditSinks,
+ auditLogMaxEntries: this.config.auditLogMaxEntries,
+ auditRetryQueuePath: this.config.auditRetryQueuePath,
+ onAuditError: this.config.onAuditError,
+ auditChainKey: this.config.auditChainKey,
+ auditChainHead: this.config.auditChainHead,
  enableAuditLogging: this.config.enableAuditLogging || false,
  tenantId: this.config.tenantId || 'default',
- sdkVersion: pkg.version,
+ sdkVersion: SDK_VERSION,
+ transport,
  });
+
+ this.webhooks = new WebhookService({
+ secret: this.config.webhookSecret,
+ tolerance: this.config.webhookTolerance,
+ });
+ }
+
+ get rateLimit(): RateLimitState | undefined {
+ return this.rateLimitState;
+ }
+
+ private trackRateLimit(headers: any): void {
+ const state = parseRateLimitHeaders(headers);
+ if (!state) return;
+ this.rateLimitState = state;
+ if (this.rateLimiter && state.remaining === 0 && state.reset) {
+ this.rateLimiter.pauseUntil(state.reset);
+ }
  }
 
  async healthCheck(): Promise<{ status: string }> {
  return this.payments.healthCheck();
  }
 
- async createACPCheckout(request: ACPCheckoutRequest): Promise<ACPCheckoutResponse> {
- return this.payments.createACPCheckout(request);
+ async createACPCheckout(request: ACPCheckoutRequest, options?: { idempotencyKey?: string }): Promise<ACPCheckoutResponse> {
+ return this.payments.createACPCheckout(request, options);
  }
 
  async createPaymentSession(request: PaymentRequest, options?: { idempotencyKey?: string }): Promise<PaymentResponse> {
  return this.payments.createPaymentSession(request, options);
  }
 
-  async processPayment(sessionId: string, paymentMethod: string, cardToken?: string): Promise<PaymentResponse> {
-    return this.payments.processPayment(sessionId, paymentMethod, cardToken);
+  async processPayment(
+    sessionId: string,
+    paymentMethod: string,
+    cardToken?: string,
+    options?: { idempotencyKey?: string }
+  ): Promise<PaymentResponse> {
+    return this.payments.processPayment(sessionId, paymentMethod, cardToken, options);
   }
 
   async createCheckoutIntent(request: CheckoutIntentRequest, options?: { idempotencyKey?: string }): Promise<CheckoutIntentResponse> {
@@ -188,6 +597,32 @@ class ShoraSDK {
     return this.payments.getPaymentSession(sessionId);
   }
 
+  async getCheckoutIntent(intentId: string): Promise<CheckoutIntentResponse> {
+    return this.payments.getCheckoutIntent(intentId);
+  }
+
+  /**
+   * Resolves once the session leaves `pending`, using webhook events when they are being received and polling otherwise.
+   */
+  async waitForPaymentCompletion(sessionId: string, options?: WaitOptions): Promise<PaymentWaitOutcome> {
+    return waitForPaymentCompletion(this.payments, sessionId, options, this.webhooks);
+  }
+
+  /**
+   * Orchestrates createCheckoutIntent -> method selection -> confirmCheckout -> getReceipt; drive it with `flow.run()`.
+   */
+  createCheckoutFlow(request: CheckoutIntentRequest, options?: CheckoutFlowOptions): CheckoutFlow {
+    return new CheckoutFlow(this.payments, request, { webhooks: this.webhooks, ...options });
+  }
+
+  resumeCheckoutFlow(state: CheckoutFlowState | string, options?: CheckoutFlowOptions): CheckoutFlow {
+    return CheckoutFlow.resume(this.payments, state, { webhooks: this.webhooks, ...options });
+  }
+
+  async waitForCheckoutIntent(intentId: string, options?: WaitOptions): Promise<CheckoutIntentWaitOutcome> {
+    return waitForCheckoutIntent(this.payments, intentId, options, this.webhooks);
+  }
+
   async getReceipt(receiptId: string): Promise<ReceiptResponse> {
     return this.payments.getReceipt(receiptId);
   }
@@ -196,20 +631,48 @@ class ShoraSDK {
     return this.payments.getSupportedMethods();
   }
 
+  async refundPayment(request: RefundRequest, options?: { idempotencyKey?: string }): Promise<RefundResponse> {
+    return this.payments.refundPayment(request, options);
+  }
+
+  async listRefunds(request?: RefundListRequest): Promise<RefundListResponse> {
+    return this.payments.listRefunds(request);
+  }
+
+  async cancelPaymentSession(sessionId: string, options?: CancelPaymentSessionOptions): Promise<PaymentResponse> {
+    return this.payments.cancelPaymentSession(sessionId, options);
+  }
+
  encryptToken(token: string, additionalData?: string): EncryptedToken {
  return this.security.encryptToken(token, additionalData);
  }
 
- decryptToken(encryptedToken: EncryptedToken): string | null {
- return this.security.decryptToken(encryptedToken);
+ encryptTokenAsync(token: string, additionalData?: string): Promise<EncryptedToken> {
+ return this.security.encryptTokenAsync(token, additionalData);
+ }
+
+ decryptTokenAsync(encryptedToken: EncryptedToken, additionalData?: string): Promise<string | null> {
+ return this.security.decryptTokenAsync(encryptedToken, additionalData);
  }
 
- generateSecurePaymentToken(paymentData: { amount: number; currency: string; userId: string; agentId?: string }): EncryptedToken {
- return this.security.generateSecurePaymentToken(paymentData);
+ decryptToken(encryptedToken: EncryptedToken, additionalData?: string): string | null {
+ return this.security.decryptToken(encryptedToken, additionalData);
  }
 
- validatePaymentToken(encryptedToken: EncryptedToken) {
- return this.security.validatePaymentToken(encryptedToken);
+ reencryptToken(encryptedToken: EncryptedToken, additionalData?: string): EncryptedToken | null {
+ return this.security.reencryptToken(encryptedToken, additionalData);
+ }
+
+ generateSecurePaymentToken(paymentData: SecurePaymentTokenData, options?: { ttl?: number }): EncryptedToken {
+ return this.security.generateSecurePaymentToken(paymentData, options);
+ }
+
+ generateSecurePaymentTokenAsync(paymentData: SecurePaymentTokenData, options?: { ttl?: number }): Promise<EncryptedToken> {
+ return this.security.generateSecurePaymentTokenAsync(paymentData, options);
+ }
+
+ validatePaymentToken(encryptedToken: EncryptedToken, options?: { consume?: boolean }): Promise<PaymentTokenValidation> {
+ return this.security.validatePaymentToken(encryptedToken, options);
  }
 
  setRequestContext(context: { ip?: string; userAgent?: string }) {
@@ -234,9 +697,34 @@ class ShoraSDK {
  return this.security.getAuditLogs(startDate, endDate, action);
  }
 
+ verifyAuditChain(entries?: AuditLogEntry[]): AuditChainVerification {
+ return this.security.verifyAuditChain(entries);
+ }
+
+ getAuditChainHead(): AuditChainHead {
+ return this.security.getAuditChainHead();
+ }
+
+ /**
+ * Middleware for merchant servers that verifies incoming agent signatures, backed by `auth.verifyTrust`.
+ */
+ createAgentTrustMiddleware(options: AgentTrustOptions) {
+ return createAgentTrustMiddleware({ verifyTrust: this.auth.verifyTrust, ...options });
+ }
+
+ async flushAuditLogs(): Promise<void> {
+ return this.security.flushAuditLogs();
+ }
+
+ async shutdown(): Promise<void> {
+ this.telemetry.shutdown();
+ await this.cassette?.flush();
+ return this.security.close();
+ }
+
  async payWithACP(request: {
  woo_product_id: number;
- amount: number;
+ amount: MoneyInput;
  currency: string;
  customer_email: string;
  order_id: string;
@@ -0,0 +1,267 @@
+/**
+ * Client-side mandate spend guard for agent payments
+ */
+
+import { ShoraMandateGuardError } from './error-handling';
+import { requireNodeFs } from './runtime';
+import type { MandateResponse, TokenRequest, TokenResponse, AgentPaymentRequest, AgentPaymentResponse } from './auth';
+import { Money, Wire } from './money';
+
+const fs = () => requireNodeFs('FileMandateLedgerStore').promises;
+
+const toMinor = (amount: number, currency: string): number => Money.of(amount, currency).minor;
+const toMajor = (minor: number, currency: string): number => Money.fromMinor(minor, currency).toMajor();
+
+// Only a 4xx means the API answered and refused the payment; timeouts, network errors and 5xx leave it unknown
+function isDeclined(error: any): boolean {
+  const status = error?.status ?? error?.response?.status;
+  return typeof status === 'number' && status >= 400 && status < 500;
+}
+
+// Amounts are integer minor units of the mandate currency, so repeated bookings do not drift
+export interface MandateLedgerMandate {
+  mandate_id: string;
+  max_minor: number;
+  currency: string;
+  expires_at: string;
+  revoked: boolean;
+  spent_minor: number;
+  reserved_minor: number; // Tokens issued or in flight whose spend is not yet known
+}
+
+export interface MandateLedgerToken {
+  mandate_id: string;
+  amount_minor: number;
+  currency: string;
+  expires_at?: string; // Unused tokens release their reservation at this time
+  state: 'issued' | 'pending' | 'spent' | 'expired';
+}
+
+export interface MandateLedger {
+  mandates: Record<string, MandateLedgerMandate>;
+  tokens: Record<string, MandateLedgerToken>;
+}
+
+export interface MandateLedgerStore {
+  load(): Promise<MandateLedger | undefined>;
+  save(ledger: MandateLedger): Promise<void>;
+}
+
+export class InMemoryMandateLedgerStore implements MandateLedgerStore {
+  private snapshot?: string;
+
+  async load(): Promise<MandateLedger | undefined> {
+    return this.snapshot ? JSON.parse(this.snapshot) : undefined;
+  }
+
+  async save(ledger: MandateLedger): Promise<void> {
+    this.snapshot = JSON.stringify(ledger);
+  }
+}
+
+export class FileMandateLedgerStore implements MandateLedgerStore {
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<MandateLedger | undefined> {
+    try {
+      return JSON.parse(await fs().readFile(this.path, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async save(ledger: MandateLedger): Promise<void> {
+    // Write-then-rename so a crash never leaves a truncated ledger behind
+    const tmp = `${this.path}.tmp`;
+    await fs().writeFile(tmp, JSON.stringify(ledger), 'utf8');
+    await fs().rename(tmp, this.path);
+  }
+}
+
+export interface MandateGuardOptions {
+  store?: MandateLedgerStore;
+  strict?: boolean; // Reject payments for mandates or tokens the guard has not seen
+}
+
+export class MandateGuard {
+  private readonly store: MandateLedgerStore;
+  private readonly strict: boolean;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(options: MandateGuardOptions = {}) {
+    this.store = options.store ?? new InMemoryMandateLedgerStore();
+    this.strict = options.strict ?? false;
+  }
+
+  async trackMandate(mandate: MandateResponse): Promise<void> {
+    await this.update((ledger) => {
+      const existing = ledger.mandates[mandate.id];
+      ledger.mandates[mandate.id] = {
+        mandate_id: mandate.id,
+        max_minor: toMinor(mandate.max_amount, mandate.currency),
+        currency: mandate.currency,
+        expires_at: mandate.expires_at,
+        revoked: mandate.status === 'revoked' || mandate.status === 'inactive',
+        spent_minor: Math.max(toMinor(mandate.spent_amount ?? 0, mandate.currency), existing?.spent_minor ?? 0),
+        reserved_minor: existing?.reserved_minor ?? 0,
+      };
+    });
+  }
+
+  async isTracked(mandateId: string): Promise<boolean> {
+    const ledger = await this.store.load();
+    return !!ledger?.mandates[mandateId];
+  }
+
+  async getRemaining(mandateId: string): Promise<number | undefined> {
+    const ledger = await this.store.load();
+    if (ledger) this.releaseExpiredTokens(ledger);
+    const mandate = ledger?.mandates[mandateId];
+    return mandate ? toMajor(this.available(mandate), mandate.currency) : undefined;
+  }
+
+  /**
+   * Checks the limit and reserves the amount in one ledger update, so concurrent token requests cannot all pass
+   * the check before any of them is booked.
+   */
+  async beforeGenerateToken(request: Wire<TokenRequest>): Promise<void> {
+    await this.update((ledger) => {
+      const mandate = ledger.mandates[request.mandate_id];
+      if (!mandate) {
+        if (this.strict) throw this.error(`Mandate ${request.mandate_id} is not tracked`, 'MANDATE_UNKNOWN');
+        return;
+      }
+      this.assertUsable(mandate, request.amount, request.currency);
+      const amount = toMinor(request.amount, mandate.currency);
+      if (amount > this.available(mandate)) {
+        throw this.error(`Amount ${request.amount} exceeds remaining mandate limit`, 'MANDATE_LIMIT_EXCEEDED');
+      }
+      mandate.reserved_minor += amount;
+    });
+  }
+
+  /**
+   * Books the token reserved by `beforeGenerateToken`, or releases the reservation when no token was issued.
+   */
+  async afterGenerateToken(request: Wire<TokenRequest>, token?: TokenResponse): Promise<void> {
+    await this.update((ledger) => {
+      const mandate = ledger.mandates[request.mandate_id];
+      if (!mandate) return;
+      const amount = toMinor(request.amount, mandate.currency);
+      if (!token) {
+        mandate.reserved_minor = Math.max(0, mandate.reserved_minor - amount);
+        return;
+      }
+      ledger.tokens[token.value] = {
+        mandate_id: request.mandate_id,
+        amount_minor: amount,
+        currency: request.currency,
+        expires_at: token.expires_at,
+        state: 'issued',
+      };
+    });
+  }
+
+  async beforePay(request: Wire<AgentPaymentRequest>): Promise<void> {
+    await this.update((ledger) => {
+      const token = ledger.tokens[request.token];
+      if (!token) {
+        if (this.strict) throw this.error('Payment token was not issued through this guard', 'MANDATE_UNKNOWN');
+        return;
+      }
+      if (token.state === 'expired') {
+        throw this.error('Payment token has expired', 'TOKEN_EXPIRED');
+      }
+      if (token.state !== 'issued') {
+        throw this.error('Payment token has already been used', 'TOKEN_ALREADY_USED');
+      }
+      const mandate = ledger.mandates[token.mandate_id];
+      if (mandate) this.assertUsable(mandate, request.amount, request.currency);
+      if (toMinor(request.amount, token.currency) > token.amount_minor) {
+        const limit = toMajor(token.amount_minor, token.currency);
+        throw this.error(`Amount ${request.amount} exceeds the token amount ${limit}`, 'MANDATE_LIMIT_EXCEEDED');
+      }
+      // The limit may have been lowered, or spend reported by the API, since the token was issued
+      if (mandate && toMinor(request.amount, mandate.currency) > this.available(mandate) + token.amount_minor) {
+        throw this.error(`Amount ${request.amount} exceeds remaining mandate limit`, 'MANDATE_LIMIT_EXCEEDED');
+      }
+      token.state = 'pending';
+    });
+  }
+
+  /**
+   * Books the outcome of `pay`. A payment that failed or was refused frees the token for another attempt; when
+   * the outcome is unknown (timeout, network or server error) the token stays pending and its amount reserved,
+   * since the payment may have gone through.
+   */
+  async afterPay(request: Wire<AgentPaymentRequest>, response?: AgentPaymentResponse, error?: unknown): Promise<void> {
+    await this.update((ledger) => {
+      const token = ledger.tokens[request.token];
+      if (!token || token.state !== 'pending') return;
+      if (response?.status !== 'completed') {
+        if (response?.status === 'failed' || isDeclined(error)) token.state = 'issued';
+        return;
+      }
+      token.state = 'spent';
+      const mandate = ledger.mandates[token.mandate_id];
+      if (mandate) {
+        mandate.reserved_minor = Math.max(0, mandate.reserved_minor - token.amount_minor);
+        mandate.spent_minor += toMinor(request.amount, mandate.currency);
+      }
+    });
+  }
+
+  async revoke(mandateId: string): Promise<void> {
+    await this.update((ledger) => {
+      const mandate = ledger.mandates[mandateId];
+      if (mandate) mandate.revoked = true;
+    });
+  }
+
+  private assertUsable(mandate: MandateLedgerMandate, amount: number, currency: string): void {
+    if (mandate.revoked) {
+      throw this.error(`Mandate ${mandate.mandate_id} has been revoked`, 'MANDATE_REVOKED');
+    }
+    if (Date.now() >= new Date(mandate.expires_at).getTime()) {
+      throw this.error(`Mandate ${mandate.mandate_id} expired at ${mandate.expires_at}`, 'MANDATE_EXPIRED');
+    }
+    if (currency.toUpperCase() !== mandate.currency.toUpperCase()) {
+      throw this.error(`Currency ${currency} does not match mandate currency ${mandate.currency}`, 'MANDATE_CURRENCY_MISMATCH');
+    }
+    if (!(amount > 0)) {
+      throw this.error('Amount must be positive', 'MANDATE_LIMIT_EXCEEDED');
+    }
+  }
+
+  private available(mandate: MandateLedgerMandate): number {
+    return mandate.max_minor - mandate.spent_minor - mandate.reserved_minor;
+  }
+
+  // Tokens never presented for payment stop counting against the mandate once they expire
+  private releaseExpiredTokens(ledger: MandateLedger): void {
+    const now = Date.now();
+    for (const token of Object.values(ledger.tokens)) {
+      if (token.state !== 'issued' || !token.expires_at || new Date(token.expires_at).getTime() > now) continue;
+      token.state = 'expired';
+      const mandate = ledger.mandates[token.mandate_id];
+      if (mandate) mandate.reserved_minor = Math.max(0, mandate.reserved_minor - token.amount_minor);
+    }
+  }
+
+  private error(message: string, code: string): ShoraMandateGuardError {
+    return new ShoraMandateGuardError(message, { code });
+  }
+
+  // Ledger updates are serialized so each one sees the checks and reservations of the updates before it
+  private update(mutate: (ledger: MandateLedger) => void): Promise<void> {
+    const run = this.lock.then(async () => {
+      const ledger = (await this.store.load()) ?? { mandates: {}, tokens: {} };
+      this.releaseExpiredTokens(ledger);
+      mutate(ledger);
+      await this.store.save(ledger);
+    });
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Currency-aware money values held as integer minor units
+ */
+
+import { ShoraValidationError } from './error-handling';
+
+// ISO 4217 minor unit exponents that differ from the default of 2
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0, RWF: 0,
+  UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+// Active ISO 4217 codes, including fund and precious metal codes; XTS (testing) and XXX (no currency) are left out
+const ISO_4217_CODES = new Set(
+  (
+    'AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BOV BRL BSD BTN BWP BYN BZD ' +
+    'CAD CDF CHE CHF CHW CLF CLP CNY COP COU CRC CUC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP ' +
+    'GEL GHS GIP GMD GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR KMF KPW KRW ' +
+    'KWD KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN NAD NGN ' +
+    'NIO NOK NPR NZD OMR PAB PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK SGD SHP SLE SLL ' +
+    'SOS SRD SSP STN SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS UAH UGX USD USN UYI UYU UYW UZS VED VES ' +
+    'VND VUV WST XAF XAG XAU XBA XBB XBC XBD XCD XCG XDR XOF XPD XPF XPT XSU XUA YER ZAR ZMW ZWG ZWL'
+  ).split(' ')
+);
+
+/**
+ * True for a code on the ISO 4217 list, in any letter case.
+ */
+export function isCurrencyCode(code: string): boolean {
+  return ISO_4217_CODES.has(code.toUpperCase());
+}
+
+export type RoundingMode = 'half_up' | 'half_even' | 'floor' | 'ceil';
+
+export type MoneyInput = number | Money; // Raw numbers are major units, as sent on the wire
+
+/**
+ * Request type as sent on the wire: every `Money` field serialized to a major-unit number.
+ */
+export type Wire<T> = { [K in keyof T]: Exclude<T[K], Money> };
+
+export function getCurrencyExponent(currency: string): number {
+  const code = currency.toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new ShoraValidationError(`Invalid ISO 4217 currency code: ${currency}`, { code: 'INVALID_CURRENCY' });
+  }
+  return CURRENCY_EXPONENTS[code] ?? 2;
+}
+
+function assertSafe(minor: number): number {
+  if (!Number.isSafeInteger(minor)) {
+    throw new ShoraValidationError(`Amount ${minor} is outside the safe integer range`, { code: 'INVALID_AMOUNT' });
+  }
+  return minor;
+}
+
+// Integer division with the given rounding; BigInt keeps products of large amounts and fine factors exact
+function roundDivide(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  let floor = numerator / denominator;
+  if (numerator % denominator !== 0n && numerator < 0n) floor -= 1n; // BigInt division truncates toward zero
+  const remainder = numerator - floor * denominator;
+  switch (mode) {
+    case 'floor':
+      return floor;
+    case 'ceil':
+      return remainder === 0n ? floor : floor + 1n;
+    case 'half_even':
+      if (remainder * 2n === denominator) return floor % 2n === 0n ? floor : floor + 1n;
+      return remainder * 2n > denominator ? floor + 1n : floor;
+    default:
+      return remainder * 2n >= denominator ? floor + 1n : floor;
+  }
+}
+
+/**
+ * Exact decimal value of an amount or factor as `numerator / 10^scale`. Parses the text form, since numbers such as
+ * 1e-7 stringify in exponent notation.
+ */
+function decimalRatio(factor: number | string): { numerator: bigint; scale: bigint } {
+  const match = typeof factor === 'number' && !Number.isFinite(factor)
+    ? null
+    : /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(factor).trim());
+  if (!match || !(match[2] || match[3])) {
+    throw new ShoraValidationError(`Invalid factor: ${factor}`, { code: 'INVALID_AMOUNT' });
+  }
+  const [, sign, whole, fraction = '', exponent = '0'] = match;
+  const shift = Number(exponent) - fraction.length;
+  const digits = BigInt(`${sign}${whole}${fraction}`);
+  return shift >= 0
+    ? { numerator: digits * 10n ** BigInt(shift), scale: 1n }
+    : { numerator: digits, scale: 10n ** BigInt(-shift) };
+}
+
+export class Money {
+  readonly currency: string;
+  readonly minor: number;
+
+  private constructor(minor: number, currency: string) {
+    getCurrencyExponent(currency);
+    this.currency = currency.toUpperCase();
+    this.minor = assertSafe(minor === 0 ? 0 : minor); // Normalize -0
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates money from a major-unit amount. Strings are parsed exactly, so prefer `Money.of('19.99', 'USD')`
+   * over floats when the value comes from user input.
+   */
+  static of(amount: number | string, currency: string): Money {
+    const exponent = getCurrencyExponent(currency);
+    const valid = typeof amount === 'number' ? Number.isFinite(amount) : /^[+-]?\d+(?:\.\d+)?$/.test(amount.trim());
+    if (!valid) {
+      throw new ShoraValidationError(`Invalid amount: ${amount}`, { code: 'INVALID_AMOUNT' });
+    }
+    // Numbers are read from their shortest round-trip form, so 1.999999 or 0.1 + 0.2 is rejected, never rounded
+    const { numerator, scale } = decimalRatio(typeof amount === 'number' ? amount : amount.trim());
+    const scaled = numerator * 10n ** BigInt(exponent);
+    if (scaled % scale !== 0n) {
+      throw new ShoraValidationError(`${amount} has more decimal places than ${currency.toUpperCase()} allows (${exponent})`, {
+        code: 'INVALID_AMOUNT',
+      });
+    }
+    return new Money(Number(scaled / scale), currency);
+  }
+
+  static fromMinor(minor: number, currency: string): Money {
+    if (!Number.isInteger(minor)) {
+      throw new ShoraValidationError(`Minor-unit amount must be an integer, got ${minor}`, { code: 'INVALID_AMOUNT' });
+    }
+    return new Money(minor, currency);
+  }
+
+  static zero(currency: string): Money {
+    return new Money(0, currency);
+  }
+
+  static isMoney(value: unknown): value is Money {
+    return value instanceof Money;
+  }
+
+  get exponent(): number {
+    return getCurrencyExponent(this.currency);
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor + other.minor, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor - other.minor, this.currency);
+  }
+
+  /**
+   * Multiplies by a decimal factor, computed exactly before rounding once. Pass a string (e.g. '0.0725')
+   * for factors that come from configuration.
+   */
+  multiply(factor: number | string, rounding: RoundingMode = 'half_up'): Money {
+    const { numerator, scale } = decimalRatio(factor);
+    return new Money(Number(roundDivide(BigInt(this.minor) * numerator, scale, rounding)), this.currency);
+  }
+
+  /**
+   * Splits into parts proportional to `ratios` without losing minor units; leftovers go to the first parts.
+   */
+  allocate(ratios: number[]): Money[] {
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (!ratios.length || total <= 0 || ratios.some((ratio) => ratio < 0)) {
+      throw new ShoraValidationError('Allocation ratios must be non-negative and sum to more than zero', { code: 'INVALID_AMOUNT' });
+    }
+    const parts = ratios.map((ratio) => Math.floor((this.minor * ratio) / total));
+    let remainder = this.minor - parts.reduce((sum, part) => sum + part, 0);
+    for (let i = 0; remainder > 0; i = (i + 1) % parts.length) {
+      if (ratios[i] === 0) continue;
+      parts[i] += 1;
+      remainder -= 1;
+    }
+    return parts.map((part) => new Money(part, this.currency));
+  }
+
+  negate(): Money {
+    return new Money(-this.minor, this.currency);
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency(other);
+    return this.minor === other.minor ? 0 : this.minor < other.minor ? -1 : 1;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minor === other.minor;
+  }
+
+  isZero(): boolean {
+    return this.minor === 0;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0;
+  }
+
+  /**
+   * Major-unit number as sent to the API.
+   */
+  toMajor(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Exact major-unit decimal string, e.g. "19.99", "1000" for JPY or "1.500" for KWD.
+   */
+  toString(): string {
+    const exponent = this.exponent;
+    const digits = String(Math.abs(this.minor)).padStart(exponent + 1, '0');
+    const whole = exponent ? digits.slice(0, -exponent) : digits;
+    const fraction = exponent ? `.${digits.slice(-exponent)}` : '';
+    return `${this.minor < 0 ? '-' : ''}${whole}${fraction}`;
+  }
+
+  format(locale?: string | string[], options: Intl.NumberFormatOptions = {}): string {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: this.currency,
+      minimumFractionDigits: this.exponent,
+      maximumFractionDigits: this.exponent,
+      ...options,
+    }).format(this.toMajor());
+  }
+
+  toJSON(): number {
+    return this.toMajor();
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new ShoraValidationError(`Currency mismatch: ${this.currency} and ${other.currency}`, { code: 'CURRENCY_MISMATCH' });
+    }
+  }
+}
+
+export function toWireAmount(amount: MoneyInput, currency?: string): number {
+  if (!(amount instanceof Money)) return amount;
+  if (currency && currency.toUpperCase() !== amount.currency) {
+    throw new ShoraValidationError(`Amount is in ${amount.currency} but the request currency is ${currency}`, {
+      code: 'CURRENCY_MISMATCH',
+      details: { currency: `Expected ${amount.currency}` },
+    });
+  }
+  return amount.toMajor();
+}
+
+/**
+ * Serializes every `Money` field of a request to major units, checking it against the request's `currency`.
+ */
+export function toWire<T extends object>(request: T): Wire<T> {
+  const currency = (request as { currency?: unknown }).currency;
+  const wire: Record<string, unknown> = { ...(request as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(wire)) {
+    if (value instanceof Money) {
+      wire[key] = toWireAmount(value, typeof currency === 'string' ? currency : undefined);
+    }
+  }
+  return wire as Wire<T>;
+}
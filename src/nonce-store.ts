@@ -0,0 +1,51 @@
+/**
+ * Nonce stores for single-use payment tokens
+ */
+
+import { ShoraError } from './error-handling';
+
+export interface NonceStore {
+  /**
+   * Atomically marks a nonce as used until `expiresAt` (epoch ms).
+   * Resolves false when the nonce was already consumed; Redis-like backends map this to SET NX PX.
+   * Rejects when the store cannot record the nonce; the token is then refused rather than accepted unrecorded.
+   */
+  consume(nonce: string, expiresAt: number): Promise<boolean>;
+}
+
+export interface MemoryNonceStoreOptions {
+  maxSize?: number; // Live nonces held at once; size it above tokens issued per TTL window
+}
+
+/**
+ * Keeps consumed nonces in memory until they expire. Evicting a live nonce would let its token be
+ * replayed, so once the store is full of unexpired nonces it rejects new ones instead.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private readonly used = new Map<string, number>(); // nonce -> expiresAt
+  private readonly maxSize: number;
+
+  constructor(options: MemoryNonceStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? 10000;
+  }
+
+  async consume(nonce: string, expiresAt: number): Promise<boolean> {
+    const now = Date.now();
+    const existing = this.used.get(nonce);
+    if (existing !== undefined && existing > now) return false;
+    if (existing === undefined && this.used.size >= this.maxSize) {
+      for (const [key, expiry] of this.used) {
+        if (expiry <= now) this.used.delete(key);
+      }
+      if (this.used.size >= this.maxSize) {
+        throw new ShoraError('Nonce store is full of unexpired nonces', undefined, 'NONCE_STORE_FULL', 'PAYMENT_TOKEN');
+      }
+    }
+    this.used.set(nonce, expiresAt);
+    return true;
+  }
+
+  size(): number {
+    return this.used.size;
+  }
+}
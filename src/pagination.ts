@@ -0,0 +1,74 @@
+/**
+ * Offset pagination helpers
+ */
+
+export interface PageRequest {
+  limit?: number;
+  offset?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+// `hasMore` is the API's own has_more flag, when it sends one
+export type PageFetcher<T> = (limit: number, offset: number) => Promise<{ items: T[]; total?: number; hasMore?: boolean }>;
+
+// The API accepts `field:value` pairs, comma separated for multiple criteria
+export type ListFilter = string | Record<string, string | number | boolean>;
+
+export function serializeFilter(filter?: ListFilter): string | undefined {
+  if (filter === undefined) return undefined;
+  if (typeof filter === 'string') return filter;
+  const parts = Object.entries(filter).map(([field, value]) => `${field}:${value}`);
+  return parts.length ? parts.join(',') : undefined;
+}
+
+export class Paginator<T> implements AsyncIterable<T> {
+  private readonly limit: number;
+  private readonly offset: number;
+
+  constructor(private readonly fetcher: PageFetcher<T>, request: PageRequest = {}) {
+    this.limit = request.limit ?? 10;
+    this.offset = request.offset ?? 0;
+  }
+
+  async page(offset: number = this.offset): Promise<Page<T>> {
+    const { items, total, hasMore: reported } = await this.fetcher(this.limit, offset);
+    // Without has_more or a total, only an empty page ends the list: servers may cap pages below `limit`
+    const hasMore = items.length > 0 && (reported ?? (total === undefined || offset + items.length < total));
+    return {
+      items,
+      total: total ?? offset + items.length,
+      limit: this.limit,
+      offset,
+      hasMore,
+    };
+  }
+
+  async *pages(): AsyncGenerator<Page<T>> {
+    let offset = this.offset;
+    while (true) {
+      const page = await this.page(offset);
+      yield page;
+      if (!page.hasMore) return;
+      offset += page.items.length;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  async toArray(): Promise<T[]> {
+    const all: T[] = [];
+    for await (const item of this) all.push(item);
+    return all;
+  }
+}
@@ -1,218 +1,364 @@
 import { AxiosInstance } from 'axios';
-import { withRetry, CircuitBreaker } from './retry-logic';
+import { v4 as uuidv4 } from 'uuid';
+import { withRetry, CircuitBreakerRegistry, CircuitBreakerOptions, CircuitState } from './retry-logic';
 import { parseError } from './error-handling';
+import { toWire } from './money';
+import { schema, Infer, Schema, SchemaValidationOptions, validateRequest, validateResponse } from './schema';
+import { ShoraTelemetry, TracedCall } from './telemetry';
 
-export interface PaymentRequest {
- amount: number;
- currency: string;
- description?: string;
- customer?: { email: string; name?: string };
- metadata?: Record<string, any>;
-}
+const AddressSchema = schema.object({
+  line1: schema.string({ minLength: 1 }),
+  line2: schema.string().optional(),
+  city: schema.string({ minLength: 1 }),
+  state: schema.string().optional(),
+  postal_code: schema.string({ minLength: 1 }),
+  country: schema.string({ format: 'country' }),
+});
 
-export interface PaymentResponse {
- id: string;
- status: 'pending' | 'completed' | 'failed' | 'cancelled';
- amount: number;
- currency: string;
- payment_url?: string;
- created_at: string;
- updated_at: string;
-}
+const PaymentStatusSchema = schema.enum(['pending', 'completed', 'failed', 'cancelled'] as const);
 
-export interface ACPCheckoutRequest {
- amount: number;
- currency: string;
- description?: string;
- customer?: { email: string; name?: string; metadata?: Record<string, any> };
- metadata?: Record<string, any>;
- agent_id?: string;
- business_id?: string;
- product_id?: string;
- quantity?: number;
- shipping_address?: {
- line1: string;
- line2?: string;
- city: string;
- state?: string;
- postal_code: string;
- country: string;
- };
-}
+export const PaymentRequestSchema = schema.object({
+  amount: schema.money(),
+  currency: schema.string({ format: 'currency' }),
+  description: schema.string().optional(),
+  customer: schema.object({ email: schema.string({ format: 'email' }), name: schema.string().optional() }).optional(),
+  metadata: schema.record().optional(),
+});
+export type PaymentRequest = Infer<typeof PaymentRequestSchema>;
 
-export interface ACPCheckoutResponse {
-  checkout_id: string;
-  status: 'pending' | 'completed' | 'failed' | 'cancelled';
-  amount: number;
-  currency: string;
-  checkout_url: string;
-  expires_at: string;
-  created_at: string;
-  updated_at: string;
-  agent_id?: string;
-  business_id?: string;
-  payment_token?: string;
-}
+export const PaymentResponseSchema = schema.object({
+  id: schema.string(),
+  status: PaymentStatusSchema,
+  amount: schema.number(),
+  currency: schema.string(),
+  payment_url: schema.string().optional(),
+  receipt_id: schema.string().optional(),
+  created_at: schema.string(),
+  updated_at: schema.string(),
+  idempotency_key: schema.string().optional(),
+});
+export type PaymentResponse = Infer<typeof PaymentResponseSchema>;
 
-export interface CheckoutIntentRequest {
-  amount: number;
-  currency: string;
-  description?: string;
-  buyer?: {
-    email: string;
-    name?: string;
-    metadata?: Record<string, any>;
-  };
-  metadata?: Record<string, any>;
-  agent_id?: string;
-  business_id?: string;
-  product_id?: string;
-  quantity?: number;
-  shipping_address?: {
-    line1: string;
-    line2?: string;
-    city: string;
-    state?: string;
-    postal_code: string;
-    country: string;
-  };
-}
+export const ACPCheckoutRequestSchema = schema.object({
+  amount: schema.money(),
+  currency: schema.string({ format: 'currency' }),
+  description: schema.string().optional(),
+  customer: schema.object({
+    email: schema.string({ format: 'email' }),
+    name: schema.string().optional(),
+    metadata: schema.record().optional(),
+  }).optional(),
+  metadata: schema.record().optional(),
+  agent_id: schema.string().optional(),
+  business_id: schema.string().optional(),
+  product_id: schema.string().optional(),
+  quantity: schema.number({ integer: true, positive: true }).optional(),
+  shipping_address: AddressSchema.optional(),
+});
+export type ACPCheckoutRequest = Infer<typeof ACPCheckoutRequestSchema>;
 
-export interface CheckoutIntentResponse {
-  intent_id: string;
-  status: 'pending' | 'expired';
-  amount: number;
-  currency: string;
-  expires_at: string;
-  created_at: string;
-  buyer?: {
-    email: string;
-    name?: string;
-  };
-  metadata?: Record<string, any>;
-}
+export const ACPCheckoutResponseSchema = schema.object({
+  checkout_id: schema.string(),
+  status: PaymentStatusSchema,
+  amount: schema.number(),
+  currency: schema.string(),
+  checkout_url: schema.string(),
+  expires_at: schema.string(),
+  created_at: schema.string(),
+  updated_at: schema.string(),
+  agent_id: schema.string().optional(),
+  business_id: schema.string().optional(),
+  payment_token: schema.string().optional(),
+});
+export type ACPCheckoutResponse = Infer<typeof ACPCheckoutResponseSchema>;
+
+export const CheckoutIntentRequestSchema = schema.object({
+  amount: schema.money(),
+  currency: schema.string({ format: 'currency' }),
+  description: schema.string().optional(),
+  buyer: schema.object({
+    email: schema.string({ format: 'email' }),
+    name: schema.string().optional(),
+    metadata: schema.record().optional(),
+  }).optional(),
+  metadata: schema.record().optional(),
+  agent_id: schema.string().optional(),
+  business_id: schema.string().optional(),
+  product_id: schema.string().optional(),
+  quantity: schema.number({ integer: true, positive: true }).optional(),
+  shipping_address: AddressSchema.optional(),
+});
+export type CheckoutIntentRequest = Infer<typeof CheckoutIntentRequestSchema>;
+
+export const CheckoutIntentResponseSchema = schema.object({
+  intent_id: schema.string(),
+  status: schema.enum(['pending', 'completed', 'cancelled', 'expired'] as const),
+  amount: schema.number(),
+  currency: schema.string(),
+  expires_at: schema.string(),
+  created_at: schema.string(),
+  buyer: schema.object({ email: schema.string(), name: schema.string().optional() }).optional(),
+  metadata: schema.record().optional(),
+  idempotency_key: schema.string().optional(),
+});
+export type CheckoutIntentResponse = Infer<typeof CheckoutIntentResponseSchema>;
+
+export const CheckoutConfirmRequestSchema = schema.object({
+  intent_id: schema.string({ minLength: 1 }),
+  payment_method: schema.string({ minLength: 1 }),
+  delegate_token: schema.string().optional(),
+  card_token: schema.string().optional(),
+  metadata: schema.record().optional(),
+});
+export type CheckoutConfirmRequest = Infer<typeof CheckoutConfirmRequestSchema>;
+
+export const ReceiptResponseSchema = schema.object({
+  receipt_id: schema.string(),
+  payment_id: schema.string(),
+  amount: schema.number(),
+  currency: schema.string(),
+  status: schema.enum(['completed', 'refunded'] as const),
+  receipt_url: schema.string().optional(),
+  receipt_data: schema.record().optional(),
+  created_at: schema.string(),
+});
+export type ReceiptResponse = Infer<typeof ReceiptResponseSchema>;
+
+export const SupportedMethodsResponseSchema = schema.object({
+  payment_methods: schema.array(
+    schema.object({
+      type: schema.string(),
+      name: schema.string(),
+      supported: schema.boolean(),
+      currencies: schema.array(schema.string()),
+    })
+  ),
+});
+export type SupportedMethodsResponse = Infer<typeof SupportedMethodsResponseSchema>;
 
-export interface CheckoutConfirmRequest {
-  intent_id: string;
-  payment_method: string;
-  delegate_token?: string;
-  card_token?: string;
-  metadata?: Record<string, any>;
+const RefundReasonSchema = schema.enum(['requested_by_customer', 'duplicate', 'fraudulent', 'other'] as const);
+export type RefundReason = Infer<typeof RefundReasonSchema>;
+
+export const RefundRequestSchema = schema.object({
+  payment_id: schema.string({ minLength: 1 }),
+  receipt_id: schema.string().optional(),
+  amount: schema.money().optional(), // Omit for a full refund
+  reason: RefundReasonSchema.optional(),
+  metadata: schema.record().optional(),
+});
+export type RefundRequest = Infer<typeof RefundRequestSchema>;
+
+export const RefundResponseSchema = schema.object({
+  id: schema.string(),
+  payment_id: schema.string(),
+  receipt_id: schema.string().optional(),
+  amount: schema.number(),
+  currency: schema.string(),
+  status: schema.enum(['pending', 'succeeded', 'failed'] as const),
+  reason: RefundReasonSchema.optional(),
+  metadata: schema.record().optional(),
+  created_at: schema.string(),
+  idempotency_key: schema.string().optional(),
+});
+export type RefundResponse = Infer<typeof RefundResponseSchema>;
+
+export const RefundListRequestSchema = schema.object({
+  payment_id: schema.string().optional(),
+  receipt_id: schema.string().optional(),
+  limit: schema.number({ integer: true, positive: true }).optional(),
+  offset: schema.number({ integer: true, min: 0 }).optional(),
+});
+export type RefundListRequest = Infer<typeof RefundListRequestSchema>;
+
+export const RefundListResponseSchema = schema.object({
+  refunds: schema.array(RefundResponseSchema),
+  total: schema.number(),
+  limit: schema.number(),
+  offset: schema.number(),
+});
+export type RefundListResponse = Infer<typeof RefundListResponseSchema>;
+
+export interface CancelPaymentSessionOptions extends IdempotencyOptions {
+  reason?: string;
 }
 
-export interface ReceiptResponse {
-  receipt_id: string;
-  payment_id: string;
-  amount: number;
-  currency: string;
-  status: 'completed' | 'refunded';
-  receipt_url?: string;
-  receipt_data?: Record<string, any>;
-  created_at: string;
+export interface IdempotencyOptions {
+  idempotencyKey?: string;
 }
 
-export interface SupportedMethodsResponse {
-  payment_methods: Array<{
-    type: string;
-    name: string;
-    supported: boolean;
-    currencies: string[];
-  }>;
+export interface PaymentServiceOptions extends SchemaValidationOptions {
+  circuitBreaker?: CircuitBreakerOptions;
+  telemetry?: ShoraTelemetry;
 }
 
+// Circuit breaker groups: each backend route trips independently
+const ROUTE_GROUPS = {
+  sessions: 'payments.sessions',
+  process: 'payments.process',
+  checkout: 'acp.checkout',
+  refunds: 'payments.refunds',
+} as const;
+
 export class PaymentService {
  private client: AxiosInstance;
- private circuitBreaker: CircuitBreaker;
+ private circuitBreakers: CircuitBreakerRegistry;
+ private validation: SchemaValidationOptions;
+ private telemetry: ShoraTelemetry;
 
- constructor(client: AxiosInstance) {
+ constructor(client: AxiosInstance, options: PaymentServiceOptions = {}) {
  this.client = client;
- this.circuitBreaker = new CircuitBreaker();
+ this.validation = options;
+ const telemetry = options.telemetry ?? new ShoraTelemetry();
+ this.telemetry = telemetry;
+ const onStateChange = options.circuitBreaker?.onStateChange;
+ this.circuitBreakers = new CircuitBreakerRegistry({
+ ...options.circuitBreaker,
+ onStateChange: (change) => {
+ telemetry.recordCircuitStateChange(change);
+ onStateChange?.(change);
+ },
+ });
+ this.telemetry.observeCircuitStates(() => this.getCircuitStates());
  }
 
- async createPaymentSession(request: PaymentRequest, options?: { idempotencyKey?: string }): Promise<PaymentResponse> {
- return withRetry(async () =>
- this.circuitBreaker.execute(async () => {
- const headers: Record<string, string> = {};
- if (options?.idempotencyKey) headers['Idempotency-Key'] = options.idempotencyKey;
- const response = await this.client.post('/v2/payments/sessions', request, { headers });
- return response.data;
- })
- );
+ getCircuitStates(): Record<string, CircuitState> {
+ return this.circuitBreakers.getStates();
  }
 
- async processPayment(sessionId: string, paymentMethod: string, cardToken?: string): Promise<PaymentResponse> {
- return withRetry(async () =>
- this.circuitBreaker.execute(async () => {
- const response = await this.client.post('/v2/payments/process', { sessionId, paymentMethod, cardToken });
- return response.data;
- })
- );
+ async createPaymentSession(request: PaymentRequest, options?: IdempotencyOptions): Promise<PaymentResponse> {
+ return this.traced('createPaymentSession', 'POST', '/v2/payments/sessions', async (call) => {
+ const body = toWire(validateRequest(PaymentRequestSchema, request, this.validation));
+ return this.idempotentPost(call, ROUTE_GROUPS.sessions, '/v2/payments/sessions', body, options, PaymentResponseSchema);
+ });
  }
 
- async createACPCheckout(request: ACPCheckoutRequest): Promise<ACPCheckoutResponse> {
- try {
- const response = await this.client.post('/v2/acp/checkout', request);
- return response.data;
- } catch (error: any) {
- throw parseError(error);
+ async processPayment(
+ sessionId: string,
+ paymentMethod: string,
+ cardToken?: string,
+ options?: IdempotencyOptions
+ ): Promise<PaymentResponse> {
+ return this.traced('processPayment', 'POST', '/v2/payments/process', async (call) => {
+ const body = { sessionId, paymentMethod, cardToken };
+ return this.idempotentPost(call, ROUTE_GROUPS.process, '/v2/payments/process', body, options, PaymentResponseSchema);
+ });
  }
+
+ async createACPCheckout(request: ACPCheckoutRequest, options?: IdempotencyOptions): Promise<ACPCheckoutResponse> {
+ return this.traced('createACPCheckout', 'POST', '/v2/acp/checkout', async (call) => {
+ const body = toWire(validateRequest(ACPCheckoutRequestSchema, request, this.validation));
+ return this.idempotentPost(call, ROUTE_GROUPS.checkout, '/v2/acp/checkout', body, options, ACPCheckoutResponseSchema);
+ });
  }
 
   async healthCheck(): Promise<{ status: string }> {
-    try {
-      const response = await this.client.get('/v2/test/health');
-      return response.data;
-    } catch (error: any) {
-      throw parseError(error);
-    }
+    return this.traced('healthCheck', 'GET', '/v2/test/health', async () => {
+      try {
+        const response = await this.client.get('/v2/test/health');
+        return response.data;
+      } catch (error: any) {
+        throw parseError(error);
+      }
+    });
   }
 
-  async createCheckoutIntent(request: CheckoutIntentRequest, options?: { idempotencyKey?: string }): Promise<CheckoutIntentResponse> {
-    return withRetry(async () =>
-      this.circuitBreaker.execute(async () => {
-        const headers: Record<string, string> = {};
-        if (options?.idempotencyKey) headers['Idempotency-Key'] = options.idempotencyKey;
-        const response = await this.client.post('/v1/acp/checkout-intent', request, { headers });
-        return response.data;
-      })
-    );
+  async createCheckoutIntent(request: CheckoutIntentRequest, options?: IdempotencyOptions): Promise<CheckoutIntentResponse> {
+    return this.traced('createCheckoutIntent', 'POST', '/v1/acp/checkout-intent', async (call) => {
+      const body = toWire(validateRequest(CheckoutIntentRequestSchema, request, this.validation));
+      return this.idempotentPost(call, ROUTE_GROUPS.checkout, '/v1/acp/checkout-intent', body, options, CheckoutIntentResponseSchema);
+    });
   }
 
-  async confirmCheckout(request: CheckoutConfirmRequest, options?: { idempotencyKey?: string }): Promise<PaymentResponse> {
-    return withRetry(async () =>
-      this.circuitBreaker.execute(async () => {
-        const headers: Record<string, string> = {};
-        if (options?.idempotencyKey) headers['Idempotency-Key'] = options.idempotencyKey;
-        const response = await this.client.post('/v1/acp/checkout-confirm', request, { headers });
-        return response.data;
-      })
+  async getCheckoutIntent(intentId: string): Promise<CheckoutIntentResponse> {
+    return this.traced('getCheckoutIntent', 'GET', '/v1/acp/checkout-intent/{intentId}', (call) =>
+      this.guardedGet(call, ROUTE_GROUPS.checkout, `/v1/acp/checkout-intent/${intentId}`, CheckoutIntentResponseSchema)
     );
   }
 
+  async confirmCheckout(request: CheckoutConfirmRequest, options?: IdempotencyOptions): Promise<PaymentResponse> {
+    return this.traced('confirmCheckout', 'POST', '/v1/acp/checkout-confirm', async (call) => {
+      const body = validateRequest(CheckoutConfirmRequestSchema, request, this.validation);
+      return this.idempotentPost(call, ROUTE_GROUPS.checkout, '/v1/acp/checkout-confirm', body, options, PaymentResponseSchema);
+    });
+  }
+
   async getPaymentSession(sessionId: string): Promise<PaymentResponse> {
-    return withRetry(async () =>
-      this.circuitBreaker.execute(async () => {
-        const response = await this.client.get(`/v2/payments/sessions/${sessionId}`);
-        return response.data;
-      })
+    return this.traced('getPaymentSession', 'GET', '/v2/payments/sessions/{sessionId}', (call) =>
+      this.guardedGet(call, ROUTE_GROUPS.sessions, `/v2/payments/sessions/${sessionId}`, PaymentResponseSchema)
     );
   }
 
   async getReceipt(receiptId: string): Promise<ReceiptResponse> {
-    try {
-      const response = await this.client.get(`/v1/acp/receipts/${receiptId}`);
-      return response.data;
-    } catch (error: any) {
-      throw parseError(error);
-    }
+    return this.traced('getReceipt', 'GET', '/v1/acp/receipts/{receiptId}', (call) =>
+      this.guardedGet(call, ROUTE_GROUPS.checkout, `/v1/acp/receipts/${receiptId}`, ReceiptResponseSchema)
+    );
   }
 
   async getSupportedMethods(): Promise<SupportedMethodsResponse> {
-    try {
-      const response = await this.client.get('/v1/acp/supported-methods');
-      return response.data;
-    } catch (error: any) {
-      throw parseError(error);
-    }
+    return this.traced('getSupportedMethods', 'GET', '/v1/acp/supported-methods', (call) =>
+      this.guardedGet(call, ROUTE_GROUPS.checkout, '/v1/acp/supported-methods', SupportedMethodsResponseSchema)
+    );
+  }
+
+  async refundPayment(request: RefundRequest, options?: IdempotencyOptions): Promise<RefundResponse> {
+    return this.traced('refundPayment', 'POST', '/v2/payments/refunds', async (call) => {
+      const body = toWire(validateRequest(RefundRequestSchema, request, this.validation));
+      return this.idempotentPost(call, ROUTE_GROUPS.refunds, '/v2/payments/refunds', body, options, RefundResponseSchema);
+    });
+  }
+
+  async listRefunds(request: RefundListRequest = {}): Promise<RefundListResponse> {
+    return this.traced('listRefunds', 'GET', '/v2/payments/refunds', async (call) => {
+      const params = validateRequest(RefundListRequestSchema, request, this.validation);
+      return this.guardedGet(call, ROUTE_GROUPS.refunds, '/v2/payments/refunds', RefundListResponseSchema, params);
+    });
+  }
+
+  async cancelPaymentSession(sessionId: string, options?: CancelPaymentSessionOptions): Promise<PaymentResponse> {
+    return this.traced('cancelPaymentSession', 'POST', '/v2/payments/sessions/{sessionId}/cancel', async (call) => {
+      const body = options?.reason ? { reason: options.reason } : {};
+      const path = `/v2/payments/sessions/${sessionId}/cancel`;
+      return this.idempotentPost(call, ROUTE_GROUPS.sessions, path, body, options, PaymentResponseSchema);
+    });
+  }
+
+  private traced<T>(operation: string, method: string, route: string, fn: (call: TracedCall) => Promise<T>): Promise<T> {
+    return this.telemetry.trace(`payments.${operation}`, { method, route }, fn);
+  }
+
+  // GETs are safe to retry; each route group has its own circuit breaker
+  private async guardedGet<T>(call: TracedCall, group: string, path: string, responseSchema: Schema<T>, params?: object): Promise<T> {
+    const data = await withRetry(
+      async () =>
+        this.circuitBreakers.get(group).execute(async () => {
+          const response = await (params ? this.client.get(path, { params }) : this.client.get(path));
+          return response.data;
+        }),
+      { telemetry: call }
+    );
+    return validateResponse(responseSchema, data, this.validation);
+  }
+
+  // One key per logical call, reused by every retry attempt so the backend can deduplicate
+  private async idempotentPost<T>(
+    call: TracedCall,
+    group: string,
+    path: string,
+    body: unknown,
+    options: IdempotencyOptions | undefined,
+    responseSchema: Schema<T>
+  ): Promise<T & { idempotency_key: string }> {
+    const idempotencyKey = options?.idempotencyKey || uuidv4();
+    const headers = { 'Idempotency-Key': idempotencyKey };
+    call.setAttributes({ 'shora.idempotency_key': idempotencyKey });
+    const data = await withRetry(
+      async () =>
+        this.circuitBreakers.get(group).execute(async () => {
+          const response = await this.client.post(path, body, { headers });
+          return response.data as T;
+        }),
+      { method: 'POST', idempotencyKey, telemetry: call }
+    );
+    return { ...validateResponse(responseSchema, data, this.validation), idempotency_key: idempotencyKey };
   }
 }
@@ -0,0 +1,149 @@
+/**
+ * Waiting for payment sessions and checkout intents to settle, via webhooks or polling
+ */
+
+import type { PaymentService, PaymentResponse, CheckoutIntentResponse } from './payments';
+import type { WebhookService, WebhookEvent, WebhookEventType } from './webhooks';
+
+export interface WaitOptions {
+  timeout?: number; // Milliseconds, defaults to 5 minutes
+  interval?: number; // First poll delay in milliseconds, defaults to 1 second
+  maxInterval?: number; // Polling backs off exponentially up to this, defaults to 10 seconds
+  signal?: AbortSignal;
+  preferWebhooks?: boolean; // Defaults to true when a handler for the awaited events is registered with sdk.webhooks.on()
+}
+
+export type WaitSource = 'webhook' | 'poll';
+
+export type PaymentWaitOutcome =
+  | { status: 'completed' | 'failed' | 'cancelled'; session: PaymentResponse; source: WaitSource }
+  | { status: 'timeout'; session?: PaymentResponse };
+
+export type CheckoutIntentWaitOutcome =
+  | { status: 'completed' | 'cancelled' | 'expired'; intent: CheckoutIntentResponse; source: WaitSource }
+  | { status: 'timeout'; intent?: CheckoutIntentResponse };
+
+const BACKOFF_FACTOR = 1.5;
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+}
+
+interface WaitTarget<T> {
+  fetch(): Promise<T>;
+  isTerminal(resource: T): boolean;
+  events: WebhookEventType[]; // Event types matchesEvent accepts, to look for the application's handlers
+  matchesEvent(event: WebhookEvent): boolean;
+  deadline?(resource: T): number | undefined; // Stop polling once the resource can no longer settle
+}
+
+async function waitFor<T>(
+  target: WaitTarget<T>,
+  options: WaitOptions,
+  webhooks?: WebhookService
+): Promise<{ resource?: T; source?: WaitSource }> {
+  const { signal } = options;
+  if (signal?.aborted) throw abortError(signal);
+
+  const maxInterval = options.maxInterval ?? 10000;
+  const deadline = Date.now() + (options.timeout ?? 5 * 60 * 1000);
+  // The subscription below goes through observe(), so neither this wait nor a concurrent one counts here
+  const useWebhooks = !!webhooks && (options.preferWebhooks ?? webhooks.hasListeners(...target.events));
+  // With webhooks flowing, polling is only a slow safety net
+  let interval = useWebhooks ? maxInterval : options.interval ?? 1000;
+
+  let notify: (() => void) | undefined;
+  let eventSeen = false;
+  const unsubscribe = useWebhooks
+    ? webhooks!.observe((event) => {
+      if (target.matchesEvent(event)) {
+        eventSeen = true;
+        notify?.();
+      }
+    })
+    : undefined;
+
+  try {
+    let resource: T | undefined;
+    for (;;) {
+      if (signal?.aborted) throw abortError(signal);
+      // An event is consumed by the fetch that follows it; one arriving during the fetch triggers another
+      const fromWebhook = eventSeen;
+      eventSeen = false;
+      resource = await target.fetch();
+      if (signal?.aborted) throw abortError(signal);
+      if (target.isTerminal(resource)) return { resource, source: fromWebhook ? 'webhook' : 'poll' };
+
+      const remaining = Math.min(deadline, target.deadline?.(resource) ?? Infinity) - Date.now();
+      if (remaining <= 0) return { resource };
+
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => finish(() => reject(abortError(signal!)));
+        const timer = setTimeout(() => finish(resolve), Math.min(interval, remaining));
+        const finish = (settle: () => void) => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          notify = undefined;
+          settle();
+        };
+        notify = () => finish(resolve);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        if (eventSeen) finish(resolve);
+      });
+      interval = Math.min(maxInterval, interval * BACKOFF_FACTOR);
+    }
+  } finally {
+    unsubscribe?.();
+  }
+}
+
+export async function waitForPaymentCompletion(
+  payments: PaymentService,
+  sessionId: string,
+  options: WaitOptions = {},
+  webhooks?: WebhookService
+): Promise<PaymentWaitOutcome> {
+  const { resource, source } = await waitFor<PaymentResponse>(
+    {
+      fetch: () => payments.getPaymentSession(sessionId),
+      isTerminal: (session) => session.status !== 'pending',
+      events: ['payment.completed', 'payment.failed', 'payment.cancelled'],
+      matchesEvent: (event) =>
+        (event.event === 'payment.completed' || event.event === 'payment.failed' || event.event === 'payment.cancelled') &&
+        (event.data.session_id === sessionId || event.data.payment_id === sessionId),
+    },
+    options,
+    webhooks
+  );
+  if (!resource || resource.status === 'pending' || !source) return { status: 'timeout', session: resource };
+  return { status: resource.status, session: resource, source };
+}
+
+export async function waitForCheckoutIntent(
+  payments: PaymentService,
+  intentId: string,
+  options: WaitOptions = {},
+  webhooks?: WebhookService
+): Promise<CheckoutIntentWaitOutcome> {
+  const { resource, source } = await waitFor<CheckoutIntentResponse>(
+    {
+      fetch: () => payments.getCheckoutIntent(intentId),
+      isTerminal: (intent) => intent.status !== 'pending',
+      events: ['checkout.completed', 'checkout.expired'],
+      matchesEvent: (event) =>
+        (event.event === 'checkout.completed' || event.event === 'checkout.expired') && event.data.intent_id === intentId,
+      deadline: (intent) => {
+        const expiresAt = Date.parse(intent.expires_at);
+        return Number.isNaN(expiresAt) ? undefined : expiresAt;
+      },
+    },
+    options,
+    webhooks
+  );
+  if (resource?.status === 'pending' && Date.now() >= Date.parse(resource.expires_at)) {
+    // Past expires_at the server may not have flipped the status yet; the intent cannot complete either way
+    return { status: 'expired', intent: { ...resource, status: 'expired' }, source: 'poll' };
+  }
+  if (!resource || resource.status === 'pending' || !source) return { status: 'timeout', intent: resource };
+  return { status: resource.status, intent: resource, source };
+}
@@ -0,0 +1,126 @@
+/**
+ * Rate limit header parsing and client-side token bucket limiter
+ */
+
+export interface RateLimitState {
+  limit?: number;
+  remaining?: number;
+  reset?: Date;
+  updatedAt: Date;
+}
+
+export interface RateLimitOptions {
+  capacity: number; // Maximum burst size
+  interval: number; // Refill window in milliseconds
+  refill?: number; // Tokens added per interval, defaults to capacity
+}
+
+export function getHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const lower = name.toLowerCase();
+  const value = typeof headers.get === 'function'
+    ? headers.get(name)
+    : headers[lower] ?? headers[name] ?? headers[Object.keys(headers).find((key) => key.toLowerCase() === lower) ?? ''];
+  if (value === undefined || value === null || value === '') return undefined;
+  return Array.isArray(value) ? String(value[0]) : String(value);
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parses a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(headers: any, now: number = Date.now()): number | undefined {
+  const value = getHeader(headers, 'Retry-After');
+  if (value === undefined) return undefined;
+  const seconds = toNumber(value);
+  if (seconds !== undefined) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function parseReset(value: string | undefined, now: number): Date | undefined {
+  if (value === undefined) return undefined;
+  const numeric = toNumber(value);
+  if (numeric === undefined) {
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : new Date(date);
+  }
+  if (numeric > 1e12) return new Date(numeric); // epoch milliseconds
+  if (numeric > 1e9) return new Date(numeric * 1000); // epoch seconds
+  return new Date(now + numeric * 1000); // seconds until reset
+}
+
+export function parseRateLimitHeaders(headers: any, now: number = Date.now()): RateLimitState | undefined {
+  const limit = toNumber(getHeader(headers, 'X-RateLimit-Limit'));
+  const remaining = toNumber(getHeader(headers, 'X-RateLimit-Remaining'));
+  const reset = parseReset(getHeader(headers, 'X-RateLimit-Reset'), now);
+  if (limit === undefined && remaining === undefined && reset === undefined) return undefined;
+  return { limit, remaining, reset, updatedAt: new Date(now) };
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly capacity: number;
+  private readonly refillRate: number; // tokens per millisecond
+
+  constructor(options: RateLimitOptions) {
+    this.capacity = options.capacity;
+    this.tokens = options.capacity;
+    this.refillRate = (options.refill ?? options.capacity) / options.interval;
+  }
+
+  acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Holds queued calls until the given time, e.g. when the server reports no quota left.
+   */
+  pauseUntil(time: Date): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time.getTime());
+  }
+
+  available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  pending(): number {
+    return this.queue.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillRate);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+    this.refill();
+    while (this.queue.length && this.tokens >= 1 && Date.now() >= this.pausedUntil) {
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+    if (!this.queue.length) return;
+
+    const waitForToken = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillRate);
+    const wait = Math.max(waitForToken, this.pausedUntil - Date.now(), 1);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, wait);
+  }
+}
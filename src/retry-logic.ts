@@ -2,59 +2,157 @@
  * Retry logic and circuit breaker implementation
  */
 
+import { isRetryableError, ShoraCircuitOpenError } from './error-handling';
+import { parseRetryAfter } from './rate-limit';
+
 export interface RetryOptions {
  maxAttempts?: number;
  baseDelay?: number;
  maxDelay?: number;
  backoffMultiplier?: number;
+ jitter?: boolean;
+ maxRetryAfter?: number; // Give up when the server asks us to wait longer than this
  retryCondition?: (error: any) => boolean;
+ method?: string;
+ idempotencyKey?: string;
+ telemetry?: RetryTelemetry;
+}
+
+// Hooks for tracing each attempt; see ShoraTelemetry
+export interface RetryTelemetry {
+ attempt<T>(attempt: number, fn: () => Promise<T>): Promise<T>;
+ retry(attempt: number, error: any): void;
+}
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitStateChange {
+ name: string;
+ from: CircuitState;
+ to: CircuitState;
+ failureCount: number;
+}
+
+export interface CircuitBreakerOptions {
+ failureThreshold?: number;
+ resetTimeout?: number; // Time in OPEN before probing, in milliseconds
+ halfOpenMaxRequests?: number;
+ isFailure?: (error: any) => boolean;
+ onStateChange?: (change: CircuitStateChange) => void;
+}
+
+export function isCircuitFailure(error: any): boolean {
+ // Client errors mean the backend answered; they say nothing about its health
+ const status = error?.response?.status ?? error?.status;
+ return !(status >= 400 && status < 500);
 }
 
 export class CircuitBreaker {
  private failureCount = 0;
  private lastFailureTime = 0;
- private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED';
- private readonly failureThreshold = 5;
- private readonly timeout = 60000; // 1 minute
+ private halfOpenInFlight = 0;
+ private state: CircuitState = 'CLOSED';
+ private readonly failureThreshold: number;
+ private readonly resetTimeout: number;
+ private readonly halfOpenMaxRequests: number;
+ private readonly isFailure: (error: any) => boolean;
+ private readonly onStateChange?: (change: CircuitStateChange) => void;
+
+ constructor(private readonly name: string = 'default', options: CircuitBreakerOptions = {}) {
+ this.failureThreshold = options.failureThreshold ?? 5;
+ this.resetTimeout = options.resetTimeout ?? 60000; // 1 minute
+ this.halfOpenMaxRequests = options.halfOpenMaxRequests ?? 1;
+ this.isFailure = options.isFailure ?? isCircuitFailure;
+ this.onStateChange = options.onStateChange;
+ }
 
  async execute<T>(fn: () => Promise<T>): Promise<T> {
  if (this.state === 'OPEN') {
- if (Date.now() - this.lastFailureTime > this.timeout) {
- this.state = 'HALF_OPEN';
+ if (Date.now() - this.lastFailureTime >= this.resetTimeout) {
+ this.transition('HALF_OPEN');
  } else {
- throw new Error('Circuit breaker is OPEN');
+ throw new ShoraCircuitOpenError(this.name);
  }
  }
 
+ const probing = this.state === 'HALF_OPEN';
+ if (probing) {
+ if (this.halfOpenInFlight >= this.halfOpenMaxRequests) {
+ throw new ShoraCircuitOpenError(this.name);
+ }
+ this.halfOpenInFlight++;
+ }
+
  try {
  const result = await fn();
  this.onSuccess();
  return result;
  } catch (error) {
+ if (this.isFailure(error)) {
  this.onFailure();
+ } else {
+ this.onSuccess();
+ }
  throw error;
+ } finally {
+ if (probing) this.halfOpenInFlight--;
  }
  }
 
  private onSuccess(): void {
  this.failureCount = 0;
- this.state = 'CLOSED';
+ if (this.state !== 'CLOSED') this.transition('CLOSED');
  }
 
  private onFailure(): void {
  this.failureCount++;
  this.lastFailureTime = Date.now();
  
- if (this.failureCount >= this.failureThreshold) {
- this.state = 'OPEN';
+ if (this.state === 'HALF_OPEN' || (this.state === 'CLOSED' && this.failureCount >= this.failureThreshold)) {
+ this.transition('OPEN');
  }
  }
 
- getState(): string {
+ private transition(to: CircuitState): void {
+ const from = this.state;
+ this.state = to;
+ if (this.onStateChange) {
+ try {
+ this.onStateChange({ name: this.name, from, to, failureCount: this.failureCount });
+ } catch {
+ // A failing listener must not change how the breaker behaves; report it from inside the handler
+ }
+ }
+ }
+
+ getState(): CircuitState {
  return this.state;
  }
 }
 
+export class CircuitBreakerRegistry {
+ private breakers = new Map<string, CircuitBreaker>();
+
+ constructor(private readonly options: CircuitBreakerOptions = {}) {}
+
+ get(name: string): CircuitBreaker {
+ let breaker = this.breakers.get(name);
+ if (!breaker) {
+ breaker = new CircuitBreaker(name, this.options);
+ this.breakers.set(name, breaker);
+ }
+ return breaker;
+ }
+
+ getStates(): Record<string, CircuitState> {
+ const states: Record<string, CircuitState> = {};
+ for (const [name, breaker] of this.breakers.entries()) {
+ states[name] = breaker.getState();
+ }
+ return states;
+ }
+}
+
 export async function withRetry<T>(
  fn: () => Promise<T>,
  options: RetryOptions = {}
@@ -64,30 +162,42 @@ export async function withRetry<T>(
  baseDelay = 1000,
  maxDelay = 10000,
  backoffMultiplier = 2,
- retryCondition = (error: any) => {
- // Retry on network errors and 5xx status codes
- return !error.response || error.response.status >= 500;
- }
+ jitter = true,
+ maxRetryAfter = 60000,
+ retryCondition = isRetryableError,
+ method,
+ idempotencyKey,
+ telemetry,
  } = options;
 
+ // A POST without an idempotency key could be applied twice by the backend
+ const attempts = method?.toUpperCase() === 'POST' && !idempotencyKey ? 1 : maxAttempts;
  let lastError: any;
  
- for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+ for (let attempt = 1; attempt <= attempts; attempt++) {
  try {
- return await fn();
- } catch (error) {
+ return await (telemetry ? telemetry.attempt(attempt, fn) : fn());
+ } catch (error: any) {
  lastError = error;
  
- if (attempt === maxAttempts || !retryCondition(error)) {
+ const retryAfter = error?.retryAfter ?? parseRetryAfter(error?.response?.headers);
+ const exhausted = attempt === attempts || (retryAfter !== undefined && retryAfter > maxRetryAfter);
+ if (exhausted || !retryCondition(error)) {
+ if (idempotencyKey && error && typeof error === 'object') {
+ error.idempotencyKey = idempotencyKey;
+ }
  throw error;
  }
  
- const delay = Math.min(
+ const backoff = Math.min(
  baseDelay * Math.pow(backoffMultiplier, attempt - 1),
  maxDelay
  );
+ // Equal jitter keeps at least half the backoff while spreading concurrent retries
+ const wait = retryAfter ?? (jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff);
+ telemetry?.retry(attempt, error);
  
- await new Promise(resolve => setTimeout(resolve, delay));
+ await delay(wait);
  }
  }
  
@@ -0,0 +1,110 @@
+/**
+ * Runtime detection and lazy access to Node built-ins, so the SDK also loads on edge runtimes and in browsers
+ */
+
+import type * as NodeCrypto from 'crypto';
+import type * as NodeFs from 'fs';
+import type * as NodeHttp from 'http';
+import { ShoraConfigurationError } from './error-handling';
+
+declare const require: ((id: string) => any) | undefined;
+
+type NodeRequire = (id: string) => any;
+
+// The CommonJS build has require; the ES module entry registers one made with createRequire(import.meta.url)
+let nodeRequire: NodeRequire | undefined = typeof require === 'function' ? require : undefined;
+
+const nodeProcess = (): any => (globalThis as any).process;
+
+export function isNodeRuntime(): boolean {
+  return typeof nodeProcess()?.versions?.node === 'string';
+}
+
+export function getEnv(name: string): string | undefined {
+  return nodeProcess()?.env?.[name];
+}
+
+const builtins = new Map<string, unknown>();
+const optionalModules = new Map<string, unknown>();
+
+/**
+ * Supplies `require` where the module system has none (ES modules). Lookups that failed before are retried.
+ */
+export function registerNodeRequire(fn: NodeRequire): void {
+  nodeRequire = fn;
+  for (const cache of [builtins, optionalModules]) {
+    for (const [name, loaded] of cache) {
+      if (loaded === undefined) cache.delete(name);
+    }
+  }
+}
+
+function loadBuiltin<T>(name: string): T | undefined {
+  if (!builtins.has(name)) {
+    let loaded: unknown;
+    try {
+      const proc = nodeProcess();
+      // getBuiltinModule also works from ES modules, but only exists since Node 20.16 / 22.3
+      loaded = typeof proc?.getBuiltinModule === 'function'
+        ? proc.getBuiltinModule(name)
+        : isNodeRuntime() && nodeRequire ? nodeRequire(name) : undefined;
+    } catch {
+      loaded = undefined;
+    }
+    builtins.set(name, loaded);
+  }
+  return builtins.get(name) as T | undefined;
+}
+
+export function nodeCrypto(): typeof NodeCrypto | undefined {
+  return loadBuiltin('crypto');
+}
+
+export function nodeFs(): typeof NodeFs | undefined {
+  return loadBuiltin('fs');
+}
+
+export function nodeHttp(): typeof NodeHttp | undefined {
+  return loadBuiltin('http');
+}
+
+export function requireNodeCrypto(feature: string): typeof NodeCrypto {
+  const crypto = nodeCrypto();
+  if (!crypto) {
+    throw new ShoraConfigurationError(`${feature} requires the Node.js crypto module`, { code: 'NODE_CRYPTO_UNAVAILABLE' });
+  }
+  return crypto;
+}
+
+export function requireNodeFs(feature: string): typeof NodeFs {
+  const fs = nodeFs();
+  if (!fs) {
+    throw new ShoraConfigurationError(`${feature} requires the Node.js fs module`, { code: 'NODE_FS_UNAVAILABLE' });
+  }
+  return fs;
+}
+
+export function requireNodeHttp(feature: string): typeof NodeHttp {
+  const http = nodeHttp();
+  if (!http) {
+    throw new ShoraConfigurationError(`${feature} requires the Node.js http module`, { code: 'NODE_HTTP_UNAVAILABLE' });
+  }
+  return http;
+}
+
+/**
+ * An optional dependency such as `@opentelemetry/api`, or undefined when it is not installed or cannot be
+ * required synchronously (edge runtimes, ES modules loaded without the ES module entry)
+ */
+export function optionalModule<T>(name: string): T | undefined {
+  if (!optionalModules.has(name)) {
+    let loaded: unknown;
+    try {
+      loaded = nodeRequire ? nodeRequire(name) : undefined;
+    } catch {
+      loaded = undefined;
+    }
+    optionalModules.set(name, loaded);
+  }
+  return optionalModules.get(name) as T | undefined;
+}
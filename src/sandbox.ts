@@ -0,0 +1,113 @@
+/**
+ * Sandbox magic values: card tokens and amounts that make the sandbox (and FakeShoraServer) produce a
+ * specific decline or failure, so decline-handling paths can be tested deterministically
+ */
+
+import {
+  ShoraAuthenticationRequiredError,
+  ShoraCardDeclinedError,
+  ShoraError,
+  ShoraNetworkError,
+} from './error-handling';
+import { Money } from './money';
+
+export type SandboxScenario =
+  | 'success'
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'authentication_required'
+  | 'network_timeout'
+  | 'fraud_block';
+
+export interface SandboxScenarioDefinition {
+  cardToken: string;
+  amountMinor: number; // Any amount with these minor units triggers the scenario, in any currency
+  description: string;
+  /** What the API answers with; absent for scenarios without an error response */
+  response?: { status: number; code: string; declineCode?: string; message: string };
+  timeout?: boolean; // The API never answers and the request times out
+  error?: new (...args: any[]) => ShoraError; // The typed error the SDK throws
+}
+
+export const SANDBOX_SCENARIOS: Readonly<Record<SandboxScenario, SandboxScenarioDefinition>> = {
+  success: {
+    cardToken: 'tok_sandbox_success',
+    amountMinor: 4000,
+    description: 'Payment succeeds',
+  },
+  insufficient_funds: {
+    cardToken: 'tok_sandbox_insufficient_funds',
+    amountMinor: 4051,
+    description: 'Card is declined for insufficient funds',
+    response: { status: 402, code: 'CARD_DECLINED', declineCode: 'insufficient_funds', message: 'Your card has insufficient funds.' },
+    error: ShoraCardDeclinedError,
+  },
+  expired_card: {
+    cardToken: 'tok_sandbox_expired_card',
+    amountMinor: 4054,
+    description: 'Card is declined because it has expired',
+    response: { status: 402, code: 'CARD_DECLINED', declineCode: 'expired_card', message: 'Your card has expired.' },
+    error: ShoraCardDeclinedError,
+  },
+  authentication_required: {
+    cardToken: 'tok_sandbox_3ds_required',
+    amountMinor: 4030,
+    description: 'Issuer requires 3-D Secure authentication before the payment can complete',
+    response: { status: 402, code: 'AUTHENTICATION_REQUIRED', message: 'This payment requires 3-D Secure authentication.' },
+    error: ShoraAuthenticationRequiredError,
+  },
+  network_timeout: {
+    cardToken: 'tok_sandbox_network_timeout',
+    amountMinor: 4080,
+    description: 'The processor never answers and the request times out',
+    timeout: true,
+    error: ShoraNetworkError,
+  },
+  fraud_block: {
+    cardToken: 'tok_sandbox_fraud_block',
+    amountMinor: 4059,
+    description: 'Payment is blocked by fraud screening',
+    response: { status: 402, code: 'CARD_DECLINED', declineCode: 'fraudulent', message: 'Your card was declined.' },
+    error: ShoraCardDeclinedError,
+  },
+};
+
+export const SANDBOX_CARD_TOKENS = Object.fromEntries(
+  Object.entries(SANDBOX_SCENARIOS).map(([scenario, definition]) => [scenario, definition.cardToken])
+) as Readonly<Record<SandboxScenario, string>>;
+
+/**
+ * The magic amount for `scenario` in `currency`, e.g. `sandboxAmount('insufficient_funds', 'USD')` is 40.51 USD.
+ */
+export function sandboxAmount(scenario: SandboxScenario, currency = 'USD'): Money {
+  return Money.fromMinor(SANDBOX_SCENARIOS[scenario].amountMinor, currency);
+}
+
+/**
+ * The scenario a card token or amount triggers; the card token wins when both match.
+ */
+export function getSandboxScenario(input: { cardToken?: string; amount?: number | Money; currency?: string }): SandboxScenario | undefined {
+  const entries = Object.entries(SANDBOX_SCENARIOS) as [SandboxScenario, SandboxScenarioDefinition][];
+  const byToken = input.cardToken && entries.find(([, definition]) => definition.cardToken === input.cardToken);
+  if (byToken) return byToken[0];
+  if (input.amount === undefined) return undefined;
+
+  let minor: number;
+  try {
+    minor = Money.isMoney(input.amount) ? input.amount.minor : Money.of(input.amount, input.currency ?? 'USD').minor;
+  } catch {
+    return undefined;
+  }
+  return entries.find(([scenario, definition]) => scenario !== 'success' && definition.amountMinor === minor)?.[0];
+}
+
+/**
+ * True when `error` is the typed error the SDK throws for `scenario`.
+ */
+export function isSandboxScenarioError(error: unknown, scenario: SandboxScenario): boolean {
+  const definition = SANDBOX_SCENARIOS[scenario];
+  if (!definition.error || !(error instanceof definition.error)) return false;
+  if (definition.timeout) return (error as ShoraError).code === 'TIMEOUT';
+  if (definition.response?.declineCode) return (error as ShoraCardDeclinedError).declineCode === definition.response.declineCode;
+  return true;
+}
@@ -0,0 +1,244 @@
+/**
+ * Minimal runtime schemas for request and response types; TypeScript types are derived with `Infer`
+ */
+
+import { ShoraValidationError } from './error-handling';
+import { Money, isCurrencyCode } from './money';
+
+export interface SchemaIssue {
+  path: string; // Dotted field path, e.g. "shipping_address.country" or "refunds.0.amount"
+  message: string;
+}
+
+export type SchemaValidationResult<T> = { success: true; data: T } | { success: false; issues: SchemaIssue[] };
+
+export abstract class Schema<T> {
+  declare readonly _output: T; // Type-level only
+
+  abstract check(value: unknown, path: string, issues: SchemaIssue[]): void;
+
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+
+  validate(value: unknown): SchemaValidationResult<T> {
+    const issues: SchemaIssue[] = [];
+    this.check(value, '', issues);
+    return issues.length ? { success: false, issues } : { success: true, data: value as T };
+  }
+
+  /**
+   * Throws `ShoraValidationError` whose `details` maps each invalid field path to its message.
+   */
+  assert(value: unknown, options: { message?: string; code?: string; context?: string } = {}): T {
+    const result = this.validate(value);
+    if (result.success) return result.data;
+    throw schemaError(result.issues, options);
+  }
+}
+
+export type Infer<S extends Schema<unknown>> = S['_output'];
+
+export function schemaError(
+  issues: SchemaIssue[],
+  options: { message?: string; code?: string; context?: string } = {}
+): ShoraValidationError {
+  const details: Record<string, string> = {};
+  for (const issue of issues) {
+    details[issue.path || '_'] ??= issue.message;
+  }
+  const summary = issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ');
+  return new ShoraValidationError(`${options.message ?? 'Invalid request'}: ${summary}`, {
+    code: options.code ?? 'VALIDATION_ERROR',
+    context: options.context ?? 'REQUEST_VALIDATION',
+    details,
+  });
+}
+
+function join(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+function typeName(value: unknown): string {
+  return value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+}
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional = true;
+
+  constructor(readonly inner: Schema<T>) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (value !== undefined) this.inner.check(value, path, issues);
+  }
+}
+
+class Refined<T> extends Schema<T> {
+  constructor(
+    private readonly expected: string,
+    private readonly test: (value: unknown) => boolean,
+    private readonly rules: Array<{ test: (value: T) => boolean; message: string }> = []
+  ) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!this.test(value)) {
+      issues.push({ path, message: `Expected ${this.expected}, received ${typeName(value)}` });
+      return;
+    }
+    const failed = this.rules.find((rule) => !rule.test(value as T));
+    if (failed) issues.push({ path, message: failed.message });
+  }
+}
+
+export type ObjectShape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends ObjectShape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+type Flatten<T> = { [K in keyof T]: T[K] };
+export type InferObject<S extends ObjectShape> = Flatten<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+export class ObjectSchema<S extends ObjectShape> extends Schema<InferObject<S>> {
+  constructor(readonly shape: S) {
+    super();
+  }
+
+  // Unknown keys are allowed so newer API fields do not break older SDK versions
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `Expected object, received ${typeName(value)}` });
+      return;
+    }
+    for (const [key, field] of Object.entries(this.shape)) {
+      const fieldValue = (value as Record<string, unknown>)[key];
+      if (fieldValue === undefined && !(field instanceof OptionalSchema)) {
+        issues.push({ path: join(path, key), message: 'Required' });
+        continue;
+      }
+      field.check(fieldValue, join(path, key), issues);
+    }
+  }
+}
+
+class ArraySchema<T> extends Schema<T[]> {
+  constructor(private readonly item: Schema<T>) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `Expected array, received ${typeName(value)}` });
+      return;
+    }
+    value.forEach((item, index) => this.item.check(item, join(path, index), issues));
+  }
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+let regionNames: { of(code: string): string | undefined } | null | undefined;
+
+function isCountryCode(value: string): boolean {
+  if (!/^[A-Z]{2}$/.test(value)) return false;
+  if (regionNames === undefined) {
+    const DisplayNames = (Intl as any).DisplayNames;
+    regionNames = DisplayNames ? new DisplayNames(['en'], { type: 'region', fallback: 'none' }) : null;
+  }
+  // Without Intl.DisplayNames (some edge runtimes) only the shape is checked
+  return !regionNames || (value !== 'ZZ' && regionNames.of(value) !== undefined);
+}
+
+export interface StringSchemaOptions {
+  format?: 'email' | 'currency' | 'country' | 'date-time';
+  minLength?: number;
+  future?: boolean; // For date-time: must be later than now
+}
+
+export interface NumberSchemaOptions {
+  integer?: boolean;
+  min?: number;
+  positive?: boolean;
+}
+
+export const schema = {
+  string(options: StringSchemaOptions = {}): Schema<string> {
+    const rules: Array<{ test: (value: string) => boolean; message: string }> = [];
+    if (options.minLength !== undefined) {
+      rules.push({ test: (value) => value.length >= options.minLength!, message: `Must be at least ${options.minLength} characters` });
+    }
+    if (options.format === 'email') rules.push({ test: (value) => EMAIL.test(value), message: 'Invalid email address' });
+    if (options.format === 'currency') {
+      rules.push({ test: isCurrencyCode, message: 'Invalid ISO 4217 currency code' });
+    }
+    if (options.format === 'country') {
+      rules.push({ test: isCountryCode, message: 'Invalid ISO 3166-1 alpha-2 country code' });
+    }
+    if (options.format === 'date-time' || options.future) {
+      rules.push({ test: (value) => !Number.isNaN(Date.parse(value)), message: 'Invalid ISO 8601 date-time' });
+    }
+    if (options.future) rules.push({ test: (value) => Date.parse(value) > Date.now(), message: 'Must be in the future' });
+    return new Refined('string', (value) => typeof value === 'string', rules);
+  },
+
+  number(options: NumberSchemaOptions = {}): Schema<number> {
+    const rules: Array<{ test: (value: number) => boolean; message: string }> = [];
+    if (options.integer) rules.push({ test: Number.isInteger, message: 'Must be an integer' });
+    if (options.positive) rules.push({ test: (value) => value > 0, message: 'Must be greater than 0' });
+    if (options.min !== undefined) {
+      rules.push({ test: (value) => value >= options.min!, message: `Must be at least ${options.min}` });
+    }
+    return new Refined('number', (value) => typeof value === 'number' && Number.isFinite(value), rules);
+  },
+
+  boolean(): Schema<boolean> {
+    return new Refined('boolean', (value) => typeof value === 'boolean');
+  },
+
+  /**
+   * Major-unit number or `Money`; amounts are always checked to be positive.
+   */
+  money(): Schema<number | Money> {
+    return new Refined<number | Money>(
+      'number or Money',
+      (value) => value instanceof Money || (typeof value === 'number' && Number.isFinite(value)),
+      [{ test: (value) => (value instanceof Money ? value.minor > 0 : value > 0), message: 'Must be greater than 0' }]
+    );
+  },
+
+  enum<const V extends readonly string[]>(values: V): Schema<V[number]> {
+    return new Refined<V[number]>(
+      values.map((value) => `"${value}"`).join(' | '),
+      (value) => typeof value === 'string',
+      [{ test: (value) => values.includes(value), message: `Must be one of ${values.join(', ')}` }]
+    );
+  },
+
+  object<S extends ObjectShape>(shape: S): ObjectSchema<S> {
+    return new ObjectSchema(shape);
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return new ArraySchema(item);
+  },
+
+  record(): Schema<Record<string, any>> {
+    return new Refined('object', (value) => typeof value === 'object' && value !== null && !Array.isArray(value));
+  },
+};
+
+export interface SchemaValidationOptions {
+  validateRequests?: boolean; // Check requests before sending, defaults to true
+  validateResponses?: boolean; // Check API responses against their schema, defaults to false
+}
+
+export function validateRequest<T>(requestSchema: Schema<T>, request: T, options: SchemaValidationOptions = {}): T {
+  return options.validateRequests === false ? request : requestSchema.assert(request);
+}
+
+export function validateResponse<T>(responseSchema: Schema<T>, data: T, options: SchemaValidationOptions = {}): T {
+  if (!options.validateResponses) return data;
+  return responseSchema.assert(data, { message: 'Unexpected API response', code: 'INVALID_RESPONSE', context: 'RESPONSE_VALIDATION' });
+}
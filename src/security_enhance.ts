@@ -1,7 +1,26 @@
 import CryptoJS from 'crypto-js';
 import axios from 'axios';
-
-const pkg: { version?: string } = require('../package.json');
+import { AuditSink, MemoryAuditSink, HttpAuditSink, FileAuditRetryQueue } from './audit-sinks';
+import { ShoraConfigurationError } from './error-handling';
+import { NonceStore, MemoryNonceStore } from './nonce-store';
+import { AuditChain, AuditChainHead, AuditChainVerification, verifyAuditChain } from './audit-chain';
+import { SDK_VERSION } from './version';
+import { getEnv, requireNodeCrypto } from './runtime';
+import { ShoraTransport, createTransportAdapter } from './transport';
+import {
+  aesGcmDecrypt,
+  aesGcmEncrypt,
+  base64ToBytes,
+  bytesToBase64,
+  bytesToHex,
+  GCM_TAG_LENGTH,
+  hexToBytes,
+  hkdfSha256,
+  pbkdf2Sha256,
+  randomBytes,
+  utf8Decode,
+  utf8Encode,
+} from './crypto-runtime';
 
 export interface AuditLogEntry {
  timestamp: string;
@@ -16,31 +35,110 @@ export interface AuditLogEntry {
  metadata?: Record<string, any>;
  ipAddress?: string;
  userAgent?: string;
+ sequence?: number;
+ previousHash?: string;
+ hash?: string;
 }
 
 export interface EncryptedToken {
+ version?: 1 | 2; // Absent on legacy v1 (AES-CBC) tokens
+ alg?: 'aes-256-gcm' | 'aes-256-cbc';
  encrypted: string;
  iv: string;
  salt: string;
+ tag?: string; // GCM authentication tag, hex
+ kid?: string; // Keyring id of the encryption key; absent on tokens written before key ids
  timestamp: number;
 }
 
+const DEFAULT_KEY_ID = 'default';
+const TOKEN_KEY_SALT = 'shora-ai-payment-sdk/token-key';
+const TOKEN_KEY_INFO = 'shora-token-v2';
+
+function tokenAAD(additionalData?: string): Uint8Array {
+ return utf8Encode(`${TOKEN_KEY_INFO}:${additionalData ?? ''}`);
+}
+
+type OpenedToken = { token: string } | { failure: 'tampered' | 'tenant_mismatch' };
+
+export interface SecurePaymentTokenData {
+ amount: number;
+ currency: string;
+ userId: string;
+ agentId?: string;
+}
+
+export interface PaymentTokenData extends SecurePaymentTokenData {
+ tenantId: string;
+ nonce: string;
+ expires: number;
+}
+
+export type PaymentTokenFailureReason = 'expired' | 'replayed' | 'tampered' | 'tenant_mismatch' | 'malformed' | 'nonce_store_unavailable';
+
+export type PaymentTokenValidation =
+ | { valid: true; data: PaymentTokenData }
+ | { valid: false; reason: PaymentTokenFailureReason; error: string };
+
+const DEFAULT_PAYMENT_TOKEN_TTL = 30 * 60 * 1000;
+
 export interface SecurityConfig {
- encryptionKey: string;
+ encryptionKey?: string; // Single key, registered in the keyring as 'default'
+ encryptionKeys?: Record<string, string>; // Keyring: key id -> key; all ids can decrypt
+ activeEncryptionKeyId?: string; // Key id used for new tokens
  auditLogEndpoint?: string;
  enableAuditLogging?: boolean;
  tenantId: string;
  sdkVersion?: string;
  pbkdf2Iterations?: number;
+ auditSinks?: AuditSink[];
+ auditLogMaxEntries?: number;
+ auditRetryQueuePath?: string;
+ onAuditError?: (error: unknown) => void; // Sink write and background delivery failures
+ auditChainKey?: string; // HMAC key for the audit hash chain; plain SHA-256 when omitted
+ auditChainHead?: AuditChainHead; // Resume a chain persisted by a previous process
+ paymentTokenTtl?: number; // Milliseconds, defaults to 30 minutes
+ nonceStore?: NonceStore; // Records consumed payment token nonces, in-memory by default
+ transport?: ShoraTransport; // Used for audit log delivery; axios by default
 }
 
 export class SecurityEnhancement {
  private config: SecurityConfig;
- private auditLogs: AuditLogEntry[] = [];
+ private auditLogs: MemoryAuditSink;
+ private auditSinks: AuditSink[];
+ private auditChain: AuditChain;
+ private encryptionKeys: Record<string, string>;
+ private activeKeyId?: string;
+ private masterKeys = new Map<string, Uint8Array>();
+ private nonceStore: NonceStore;
  private requestContext: { ip?: string; userAgent?: string } | null = null;
 
  constructor(config: SecurityConfig) {
  this.config = { pbkdf2Iterations: 100000, ...config };
+ this.encryptionKeys = {
+ ...(this.config.encryptionKey ? { [DEFAULT_KEY_ID]: this.config.encryptionKey } : {}),
+ ...this.config.encryptionKeys,
+ };
+ const keyIds = Object.keys(this.encryptionKeys);
+ this.activeKeyId = this.config.activeEncryptionKeyId ?? (keyIds.length === 1 ? keyIds[0] : undefined);
+ if (this.activeKeyId && !this.encryptionKeys[this.activeKeyId]) {
+ throw new ShoraConfigurationError(`Active encryption key "${this.activeKeyId}" is not in the keyring`, { code: 'ENCRYPTION_KEY_MISSING' });
+ }
+ if (!this.activeKeyId && keyIds.length > 1) {
+ throw new ShoraConfigurationError('activeEncryptionKeyId is required when several encryption keys are configured', { code: 'ENCRYPTION_KEY_MISSING' });
+ }
+ this.nonceStore = this.config.nonceStore ?? new MemoryNonceStore();
+ this.auditLogs = new MemoryAuditSink(this.config.auditLogMaxEntries);
+ this.auditChain = new AuditChain(this.config.auditChainKey, this.config.auditChainHead);
+ this.auditSinks = [this.auditLogs, ...(this.config.auditSinks || [])];
+ if (this.config.auditLogEndpoint) {
+ this.auditSinks.push(new HttpAuditSink({
+ endpoint: this.config.auditLogEndpoint,
+ client: this.config.transport ? axios.create({ adapter: createTransportAdapter(this.config.transport) }) : axios,
+ retryQueue: this.config.auditRetryQueuePath ? new FileAuditRetryQueue(this.config.auditRetryQueuePath) : undefined,
+ onError: this.config.onAuditError,
+ }));
+ }
  }
 
  setRequestContext(ctx: { ip?: string; userAgent?: string }) {
@@ -52,77 +150,218 @@ export class SecurityEnhancement {
  }
 
   private getUserAgent(): string {
-    const sdkVersion = this.config.sdkVersion || pkg.version || 'unknown';
+    const sdkVersion = this.config.sdkVersion || SDK_VERSION;
     return this.requestContext?.userAgent || `ShoraAI-PaymentSDK/${sdkVersion}`;
   }
 
+  /**
+   * Requires Node's crypto module; use `encryptTokenAsync` on edge runtimes and in browsers.
+   */
   encryptToken(token: string, additionalData?: string): EncryptedToken {
-    const salt = CryptoJS.lib.WordArray.random(256 / 8);
-    const iv = CryptoJS.lib.WordArray.random(128 / 8);
+    const { createCipheriv } = requireNodeCrypto('encryptToken');
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const kid = this.requireActiveKeyId();
+    const cipher = createCipheriv('aes-256-gcm', this.deriveTokenKey(kid, salt), iv);
+    cipher.setAAD(tokenAAD(additionalData));
+    const encrypted = Buffer.concat([cipher.update(JSON.stringify(this.tokenPayload(token)), 'utf8'), cipher.final()]);
+    return this.sealedToken(kid, salt, iv, encrypted, cipher.getAuthTag());
+  }
+
+  /**
+   * Same token format as `encryptToken`, using Web Crypto when Node's crypto module is unavailable.
+   */
+  async encryptTokenAsync(token: string, additionalData?: string): Promise<EncryptedToken> {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const kid = this.requireActiveKeyId();
+    const plaintext = utf8Encode(JSON.stringify(this.tokenPayload(token)));
+    const { ciphertext, tag } = await aesGcmEncrypt(await this.deriveTokenKeyAsync(kid, salt), iv, plaintext, tokenAAD(additionalData));
+    return this.sealedToken(kid, salt, iv, ciphertext, tag);
+  }
+
+  /**
+   * `additionalData` must match the value given to `encryptToken`; it is ignored for legacy v1 tokens.
+   */
+  decryptToken(encryptedToken: EncryptedToken, additionalData?: string): string | null {
+    const opened = this.openToken(encryptedToken, additionalData);
+    return 'token' in opened ? opened.token : null;
+  }
+
+  async decryptTokenAsync(encryptedToken: EncryptedToken, additionalData?: string): Promise<string | null> {
+    const opened = await this.openTokenAsync(encryptedToken, additionalData);
+    return 'token' in opened ? opened.token : null;
+  }
+
+  private tokenPayload(token: string) {
+    return { token, tenantId: this.config.tenantId, ts: Date.now() };
+  }
+
+  private sealedToken(kid: string, salt: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array, tag: Uint8Array): EncryptedToken {
+    return {
+      version: 2,
+      alg: 'aes-256-gcm',
+      encrypted: bytesToBase64(ciphertext),
+      iv: bytesToHex(iv),
+      salt: bytesToHex(salt),
+      tag: bytesToHex(tag),
+      kid,
+      timestamp: Date.now(),
+    };
+  }
+
+  private openToken(encryptedToken: EncryptedToken, additionalData?: string): OpenedToken {
+    const kid = this.tokenKeyId(encryptedToken);
+    if (!kid) return { failure: 'tampered' };
+    try {
+      return this.readTokenPayload((encryptedToken.version ?? 1) >= 2
+        ? this.decryptV2(encryptedToken, kid, additionalData)
+        : this.decryptLegacyV1(encryptedToken, kid));
+    } catch (error) {
+      this.logAudit('decrypt_error', 'Token decryption error: ' + String(error));
+      return { failure: 'tampered' };
+    }
+  }
+
+  private async openTokenAsync(encryptedToken: EncryptedToken, additionalData?: string): Promise<OpenedToken> {
+    const kid = this.tokenKeyId(encryptedToken);
+    if (!kid) return { failure: 'tampered' };
+    try {
+      return this.readTokenPayload((encryptedToken.version ?? 1) >= 2
+        ? await this.decryptV2Async(encryptedToken, kid, additionalData)
+        : this.decryptLegacyV1(encryptedToken, kid));
+    } catch (error) {
+      this.logAudit('decrypt_error', 'Token decryption error: ' + String(error));
+      return { failure: 'tampered' };
+    }
+  }
+
+  private tokenKeyId(encryptedToken: EncryptedToken): string | undefined {
+    this.requireActiveKeyId();
+    // Tokens without a key id predate the keyring and were written with the single configured key
+    const kid = encryptedToken.kid ?? (this.encryptionKeys[DEFAULT_KEY_ID] ? DEFAULT_KEY_ID : this.activeKeyId!);
+    if (!this.encryptionKeys[kid]) {
+      this.logAudit('decrypt_failed', `Token decryption failed - unknown key id ${kid}`);
+      return undefined;
+    }
+    return kid;
+  }
+
+  private readTokenPayload(decryptedString: string | null): OpenedToken {
+    if (!decryptedString) {
+      this.logAudit('decrypt_failed', 'Token decryption failed - invalid data');
+      return { failure: 'tampered' };
+    }
+    const payload = JSON.parse(decryptedString);
+    if (!payload || payload.tenantId !== this.config.tenantId) {
+      this.logAudit('decrypt_failed', 'Token decryption failed - tenant mismatch');
+      return { failure: 'tenant_mismatch' };
+    }
+    this.logAudit('decrypt_success', 'Token decrypted successfully');
+    return { token: payload.token };
+  }
+
+  /**
+   * Re-encrypts a stored token under the active key, e.g. after rotating keys or to upgrade v1 tokens.
+   * Returns null when the token cannot be decrypted.
+   */
+  reencryptToken(encryptedToken: EncryptedToken, additionalData?: string): EncryptedToken | null {
+    if (encryptedToken.version === 2 && encryptedToken.kid === this.requireActiveKeyId()) {
+      return encryptedToken;
+    }
+    const token = this.decryptToken(encryptedToken, additionalData);
+    if (token === null) return null;
+    const reencrypted = this.encryptToken(token, additionalData);
+    this.logAudit('token_reencrypted', `Token re-encrypted with key ${reencrypted.kid}`, undefined, undefined, undefined, undefined, undefined, 'success', {
+      fromKeyId: encryptedToken.kid ?? null,
+      fromVersion: encryptedToken.version ?? 1,
+    });
+    return reencrypted;
+  }
+
+  getActiveEncryptionKeyId(): string | undefined {
+    return this.activeKeyId;
+  }
+
+  private decryptV2(encryptedToken: EncryptedToken, kid: string, additionalData?: string): string | null {
+    if (encryptedToken.alg !== 'aes-256-gcm' || !encryptedToken.tag) return null;
+    const tag = Buffer.from(encryptedToken.tag, 'hex');
+    // GCM accepts tags as short as 4 bytes, which would make forging one far cheaper
+    if (tag.length !== GCM_TAG_LENGTH) throw new Error(`AES-GCM tag must be ${GCM_TAG_LENGTH} bytes`);
+    const { createDecipheriv } = requireNodeCrypto('decryptToken');
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.deriveTokenKey(kid, Buffer.from(encryptedToken.salt, 'hex')),
+      Buffer.from(encryptedToken.iv, 'hex'),
+      { authTagLength: GCM_TAG_LENGTH }
+    );
+    decipher.setAAD(tokenAAD(additionalData));
+    decipher.setAuthTag(tag);
+    // final() throws if the ciphertext, tag or AAD was altered
+    return Buffer.concat([
+      decipher.update(Buffer.from(encryptedToken.encrypted, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private async decryptV2Async(encryptedToken: EncryptedToken, kid: string, additionalData?: string): Promise<string | null> {
+    if (encryptedToken.alg !== 'aes-256-gcm' || !encryptedToken.tag) return null;
+    const plaintext = await aesGcmDecrypt(
+      await this.deriveTokenKeyAsync(kid, hexToBytes(encryptedToken.salt)),
+      hexToBytes(encryptedToken.iv),
+      base64ToBytes(encryptedToken.encrypted),
+      hexToBytes(encryptedToken.tag),
+      tokenAAD(additionalData)
+    );
+    return utf8Decode(plaintext);
+  }
+
+  private decryptLegacyV1(encryptedToken: EncryptedToken, kid: string): string {
+    const salt = CryptoJS.enc.Hex.parse(encryptedToken.salt);
+    const iv = CryptoJS.enc.Hex.parse(encryptedToken.iv);
     const iterations = this.config.pbkdf2Iterations || 100000;
-    const key = CryptoJS.PBKDF2(this.config.encryptionKey, salt, {
+    const key = CryptoJS.PBKDF2(this.encryptionKeys[kid], salt, {
       keySize: 256 / 32,
       iterations,
       hasher: CryptoJS.algo.SHA256 as any,
     });
-    const payload: {
-      token: string;
-      tenantId: string;
-      ts: number;
-      additionalData?: string | null;
-    } = {
-      token,
-      tenantId: this.config.tenantId,
-      ts: Date.now(),
-    };
-    if (additionalData !== undefined) {
-      payload.additionalData = additionalData || null;
-    }
-    const encrypted = CryptoJS.AES.encrypt(JSON.stringify(payload), key, {
+    const decrypted = CryptoJS.AES.decrypt(encryptedToken.encrypted, key, {
       iv,
       mode: CryptoJS.mode.CBC,
       padding: CryptoJS.pad.Pkcs7,
     });
-    return {
-      encrypted: encrypted.toString(),
-      iv: iv.toString(CryptoJS.enc.Hex),
-      salt: salt.toString(CryptoJS.enc.Hex),
-      timestamp: Date.now(),
-    };
+    return decrypted.toString(CryptoJS.enc.Utf8);
   }
 
- decryptToken(encryptedToken: EncryptedToken): string | null {
- try {
- const salt = CryptoJS.enc.Hex.parse(encryptedToken.salt);
- const iv = CryptoJS.enc.Hex.parse(encryptedToken.iv);
- const iterations = this.config.pbkdf2Iterations || 100000;
- const key = CryptoJS.PBKDF2(this.config.encryptionKey, salt, {
- keySize: 256 / 32,
- iterations,
- hasher: CryptoJS.algo.SHA256 as any,
- });
- const decrypted = CryptoJS.AES.decrypt(encryptedToken.encrypted, key, {
- iv,
- mode: CryptoJS.mode.CBC,
- padding: CryptoJS.pad.Pkcs7,
- });
- const decryptedString = decrypted.toString(CryptoJS.enc.Utf8);
- if (!decryptedString) {
- this.logAudit('decrypt_failed', 'Token decryption failed - invalid data');
- return null;
- }
- const payload = JSON.parse(decryptedString);
- if (!payload || payload.tenantId !== this.config.tenantId) {
- this.logAudit('decrypt_failed', 'Token decryption failed - tenant mismatch');
- return null;
- }
- this.logAudit('decrypt_success', 'Token decrypted successfully');
- return payload.token;
- } catch (error) {
- this.logAudit('decrypt_error', 'Token decryption error: ' + String(error));
- return null;
- }
- }
+  // PBKDF2 runs once per instance; each token then gets its own key via HKDF over its random salt
+  private deriveTokenKey(kid: string, salt: Uint8Array): Buffer {
+    const { hkdfSync, pbkdf2Sync } = requireNodeCrypto('Token encryption');
+    let masterKey = this.masterKeys.get(kid);
+    if (!masterKey) {
+      masterKey = pbkdf2Sync(this.encryptionKeys[kid], TOKEN_KEY_SALT, this.config.pbkdf2Iterations || 100000, 32, 'sha256');
+      this.masterKeys.set(kid, masterKey);
+    }
+    return Buffer.from(hkdfSync('sha256', masterKey, salt, TOKEN_KEY_INFO, 32));
+  }
+
+  private async deriveTokenKeyAsync(kid: string, salt: Uint8Array): Promise<Uint8Array> {
+    let masterKey = this.masterKeys.get(kid);
+    if (!masterKey) {
+      masterKey = await pbkdf2Sha256(this.encryptionKeys[kid], TOKEN_KEY_SALT, this.config.pbkdf2Iterations || 100000, 32);
+      this.masterKeys.set(kid, masterKey);
+    }
+    return hkdfSha256(masterKey, salt, TOKEN_KEY_INFO, 32);
+  }
+
+  // Encrypting with a random key would make every token unreadable after a restart, so fail instead
+  private requireActiveKeyId(): string {
+    if (!this.activeKeyId) {
+      throw new ShoraConfigurationError('Token encryption requires encryptionKey or encryptionKeys in the SDK config', {
+        code: 'ENCRYPTION_KEY_MISSING',
+      });
+    }
+    return this.activeKeyId;
+  }
 
  logAudit(
  action: string,
@@ -136,7 +375,7 @@ export class SecurityEnhancement {
  metadata?: Record<string, any>
  ): void {
  if (!this.config.enableAuditLogging) return;
- const auditEntry: AuditLogEntry = {
+ const auditEntry: AuditLogEntry = this.auditChain.append({
  timestamp: new Date().toISOString(),
  tenantId: this.config.tenantId,
  transactionId,
@@ -149,23 +388,58 @@ export class SecurityEnhancement {
       metadata: {
         ...metadata,
         details,
-        sdkVersion: this.config.sdkVersion || pkg.version || 'unknown',
+        sdkVersion: this.config.sdkVersion || SDK_VERSION,
         pbkdf2Iterations: this.config.pbkdf2Iterations || 100000,
-        environment: process.env.NODE_ENV || 'production',
+        environment: getEnv('NODE_ENV') || 'production',
       },
  ipAddress: this.getClientIP(),
  userAgent: this.getUserAgent(),
- };
- this.auditLogs.push(auditEntry);
- if (this.config.auditLogEndpoint) {
- this.sendAuditLog(auditEntry).catch((error) => {
- console.warn('sendAuditLog failed', error);
  });
+ const onError = this.config.onAuditError ?? (() => undefined);
+ for (const sink of this.auditSinks) {
+ try {
+ Promise.resolve(sink.write(auditEntry)).catch(onError);
+ } catch (error) {
+ onError(error);
+ }
+ }
  }
+
+ /**
+  * @deprecated logAudit() already delivers every entry to the configured sinks. Kept for callers that send
+  * entries of their own: writes the entry to every sink except the in-memory log and flushes them. Failures go
+  * to onAuditError, as before they were only logged.
+  */
+ async sendAuditLog(auditEntry: AuditLogEntry): Promise<void> {
+ const onError = this.config.onAuditError ?? (() => undefined);
+ await Promise.all(this.auditSinks.filter((sink) => sink !== this.auditLogs).map(async (sink) => {
+ try {
+ await sink.write(auditEntry);
+ await sink.flush?.();
+ } catch (error) {
+ onError(error);
+ }
+ }));
+ }
+
+ getAuditChainHead(): AuditChainHead {
+ return this.auditChain.getHead();
+ }
+
+ verifyAuditChain(entries: AuditLogEntry[] = this.auditLogs.entries()): AuditChainVerification {
+ return verifyAuditChain(entries, { key: this.config.auditChainKey });
+ }
+
+ async flushAuditLogs(): Promise<void> {
+ await Promise.all(this.auditSinks.map((sink) => sink.flush?.()));
+ }
+
+ async close(): Promise<void> {
+ await Promise.all(this.auditSinks.map((sink) => (sink.close ? sink.close() : sink.flush?.())));
  }
 
  getAuditLogs(startDate?: string, endDate?: string, action?: string): AuditLogEntry[] {
- let filtered = this.auditLogs.filter((log) => log.tenantId === this.config.tenantId);
+ let filtered = this.auditLogs.entries().filter((log) => log.tenantId === this.config.tenantId);
  if (startDate) {
  const start = new Date(startDate).getTime();
  filtered = filtered.filter((log) => new Date(log.timestamp).getTime() >= start);
@@ -177,57 +451,83 @@ export class SecurityEnhancement {
  if (action) {
  filtered = filtered.filter((log) => log.action === action);
  }
- return filtered.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+ return filtered.sort(
+ (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime() || (b.sequence ?? 0) - (a.sequence ?? 0)
+ );
  }
 
- async sendAuditLog(auditEntry: AuditLogEntry): Promise<void> {
- if (!this.config.auditLogEndpoint) return;
- try {
- await axios.post(this.config.auditLogEndpoint, auditEntry, {
- headers: { 'Content-Type': 'application/json' },
- });
- } catch (error) {
- console.warn('Failed to POST audit log:', error);
+ generateSecurePaymentToken(paymentData: SecurePaymentTokenData, options: { ttl?: number } = {}): EncryptedToken {
+ const tokenData = this.paymentTokenData(paymentData, options.ttl);
+ const encrypted = this.encryptToken(JSON.stringify(tokenData));
+ this.logPaymentTokenGenerated(tokenData);
+ return encrypted;
  }
+
+ async generateSecurePaymentTokenAsync(paymentData: SecurePaymentTokenData, options: { ttl?: number } = {}): Promise<EncryptedToken> {
+ const tokenData = this.paymentTokenData(paymentData, options.ttl);
+ const encrypted = await this.encryptTokenAsync(JSON.stringify(tokenData));
+ this.logPaymentTokenGenerated(tokenData);
+ return encrypted;
  }
 
- generateSecurePaymentToken(paymentData: { amount: number; currency: string; userId: string; agentId?: string }): EncryptedToken {
- const tokenData = {
+ private paymentTokenData(paymentData: SecurePaymentTokenData, ttl?: number): PaymentTokenData {
+ return {
  ...paymentData,
  tenantId: this.config.tenantId,
- nonce: CryptoJS.lib.WordArray.random(128 / 8).toString(),
- expires: Date.now() + 30 * 60 * 1000,
+ nonce: bytesToHex(randomBytes(16)),
+ expires: Date.now() + (ttl ?? this.config.paymentTokenTtl ?? DEFAULT_PAYMENT_TOKEN_TTL),
  };
- const encrypted = this.encryptToken(JSON.stringify(tokenData));
+ }
+
+ private logPaymentTokenGenerated(tokenData: PaymentTokenData): void {
  this.logAudit(
  'payment_token_generated',
- `Secure payment token generated for ${paymentData.amount} ${paymentData.currency}`,
+ `Secure payment token generated for ${tokenData.amount} ${tokenData.currency}`,
  undefined,
- paymentData.userId,
- paymentData.agentId,
- paymentData.amount,
- paymentData.currency,
+ tokenData.userId,
+ tokenData.agentId,
+ tokenData.amount,
+ tokenData.currency,
  'success',
- { tokenExpires: new Date(Date.now() + 30 * 60 * 1000).toISOString() }
+ { tokenExpires: new Date(tokenData.expires).toISOString() }
  );
- return encrypted;
  }
 
- validatePaymentToken(encryptedToken: EncryptedToken) {
- const decrypted = this.decryptToken(encryptedToken);
- if (!decrypted) {
- this.logAudit('payment_token_validation_failed', 'Token decryption failed');
- return { valid: false, error: 'Invalid token' };
+ /**
+ * Validates a payment token and, unless `consume` is false, marks its nonce as used so it cannot be replayed.
+ */
+ async validatePaymentToken(encryptedToken: EncryptedToken, options: { consume?: boolean } = {}): Promise<PaymentTokenValidation> {
+ const fail = (reason: PaymentTokenFailureReason, error: string): PaymentTokenValidation => {
+ this.logAudit('payment_token_validation_failed', error, undefined, undefined, undefined, undefined, undefined, 'failed', { reason });
+ return { valid: false, reason, error };
+ };
+ const opened = await this.openTokenAsync(encryptedToken);
+ if ('failure' in opened) {
+ return opened.failure === 'tenant_mismatch' ? fail('tenant_mismatch', 'Tenant mismatch') : fail('tampered', 'Invalid token');
  }
+ let data: PaymentTokenData;
  try {
- const data = JSON.parse(decrypted);
- if (data.expires && Date.now() > data.expires) {
- this.logAudit('payment_token_validation_failed', 'Token expired');
- return { valid: false, error: 'Token expired' };
+ data = JSON.parse(opened.token);
+ } catch (error) {
+ return fail('malformed', 'Token parsing error: ' + String(error));
+ }
+ if (!data || typeof data.nonce !== 'string' || typeof data.expires !== 'number') {
+ return fail('malformed', 'Invalid token format');
  }
  if (data.tenantId !== this.config.tenantId) {
- this.logAudit('payment_token_validation_failed', 'Tenant mismatch');
- return { valid: false, error: 'Tenant mismatch' };
+ return fail('tenant_mismatch', 'Tenant mismatch');
+ }
+ if (Date.now() > data.expires) {
+ return fail('expired', 'Token expired');
+ }
+ if (options.consume !== false) {
+ let fresh: boolean;
+ try {
+ fresh = await this.nonceStore.consume(`${data.tenantId}:${data.nonce}`, data.expires);
+ } catch (error) {
+ return fail('nonce_store_unavailable', 'Nonce could not be recorded: ' + String(error));
+ }
+ if (!fresh) return fail('replayed', 'Token already used');
  }
  this.logAudit(
  'payment_token_validated',
@@ -239,10 +539,6 @@ export class SecurityEnhancement {
  data.currency
  );
  return { valid: true, data };
- } catch (error) {
- this.logAudit('payment_token_validation_failed', 'Token parsing error: ' + String(error));
- return { valid: false, error: 'Invalid token format' };
- }
  }
 }
 
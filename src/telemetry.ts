@@ -0,0 +1,329 @@
+/**
+ * Optional OpenTelemetry instrumentation. Spans and metrics go to whatever tracer and meter providers the host
+ * app registered with `@opentelemetry/api`; without the package, or with no providers registered, every hook
+ * is a no-op.
+ */
+
+import type { CircuitState, CircuitStateChange, RetryTelemetry } from './retry-logic';
+import type { RateLimitState } from './rate-limit';
+import { optionalModule } from './runtime';
+import { SDK_VERSION } from './version';
+
+export type TelemetryAttributeValue = string | number | boolean;
+export type TelemetryAttributes = Record<string, TelemetryAttributeValue | undefined>;
+
+// The subset of @opentelemetry/api the SDK uses, so the package stays an optional peer dependency
+
+export interface TelemetryContext {
+  getValue(key: symbol): unknown;
+  setValue(key: symbol, value: unknown): TelemetryContext;
+}
+
+export interface TelemetrySpan {
+  spanContext(): { traceId: string; spanId: string; traceFlags: number };
+  setAttribute(key: string, value: TelemetryAttributeValue): unknown;
+  setAttributes(attributes: TelemetryAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: any): void;
+  end(): void;
+}
+
+export interface TelemetryTracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: TelemetryAttributes }, context?: TelemetryContext): TelemetrySpan;
+}
+
+export interface TelemetryObservableResult {
+  observe(value: number, attributes?: TelemetryAttributes): void;
+}
+
+export interface TelemetryObservableGauge {
+  addCallback(callback: (result: TelemetryObservableResult) => void): void;
+  removeCallback(callback: (result: TelemetryObservableResult) => void): void;
+}
+
+export interface TelemetryMeter {
+  createHistogram(name: string, options?: { description?: string; unit?: string }): {
+    record(value: number, attributes?: TelemetryAttributes): void;
+  };
+  createCounter(name: string, options?: { description?: string; unit?: string }): {
+    add(value: number, attributes?: TelemetryAttributes): void;
+  };
+  createObservableGauge(name: string, options?: { description?: string; unit?: string }): TelemetryObservableGauge;
+}
+
+export interface OpenTelemetryApi {
+  trace: {
+    getTracer(name: string, version?: string): TelemetryTracer;
+    getSpan(context: TelemetryContext): TelemetrySpan | undefined;
+    setSpan(context: TelemetryContext, span: TelemetrySpan): TelemetryContext;
+  };
+  context: {
+    active(): TelemetryContext;
+    with<T>(context: TelemetryContext, fn: () => T): T;
+  };
+  propagation: {
+    inject(context: TelemetryContext, carrier: Record<string, string>): void;
+  };
+  metrics: {
+    getMeter(name: string, version?: string): TelemetryMeter;
+  };
+}
+
+export interface TelemetryOptions {
+  api?: OpenTelemetryApi | false; // Defaults to @opentelemetry/api when it can be required; pass it explicitly from ES modules
+  tenantId?: string;
+}
+
+export interface TracedRequest {
+  method: string;
+  route: string; // Path template, e.g. /v2/payments/sessions/{sessionId}
+  attributes?: TelemetryAttributes;
+}
+
+export interface TracedCall extends RetryTelemetry {
+  setAttributes(attributes: TelemetryAttributes): void;
+}
+
+export const INSTRUMENTATION_NAME = 'shora-ai-payment-sdk';
+
+// Numeric values of the SpanKind and SpanStatusCode enums in @opentelemetry/api
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+const CALL_KEY = Symbol.for('shora.telemetry.call');
+const INVALID_TRACE_ID = '00000000000000000000000000000000';
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { CLOSED: 0, HALF_OPEN: 1, OPEN: 2 };
+
+const NOOP_CALL: TracedCall = {
+  attempt: (_attempt, fn) => fn(),
+  retry: () => undefined,
+  setAttributes: () => undefined,
+};
+
+function errorType(error: any): string {
+  return error?.code ?? error?.name ?? 'Error';
+}
+
+function compact(attributes: TelemetryAttributes): Record<string, TelemetryAttributeValue> {
+  const result: Record<string, TelemetryAttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+class Call implements TracedCall {
+  status?: number;
+  error?: string;
+
+  constructor(
+    private readonly telemetry: ShoraTelemetry,
+    private readonly api: OpenTelemetryApi,
+    private readonly tracer: TelemetryTracer,
+    readonly span: TelemetrySpan,
+    readonly request: TracedRequest
+  ) {}
+
+  async attempt<T>(attempt: number, fn: () => Promise<T>): Promise<T> {
+    const parent = this.api.context.active();
+    const span = this.tracer.startSpan(`${this.request.method} ${this.request.route}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: compact({
+        'http.request.method': this.request.method,
+        'url.template': this.request.route,
+        'http.request.resend_count': attempt > 1 ? attempt - 1 : undefined,
+      }),
+    }, parent);
+    try {
+      return await this.api.context.with(this.api.trace.setSpan(parent, span), fn);
+    } catch (error: any) {
+      failSpan(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  retry(attempt: number, error: any): void {
+    this.span.setAttribute('shora.retry.count', attempt);
+    this.telemetry.recordRetry(this.request, error);
+  }
+
+  setAttributes(attributes: TelemetryAttributes): void {
+    this.span.setAttributes(compact(attributes));
+  }
+}
+
+function failSpan(span: TelemetrySpan, error: any): void {
+  const status = error?.status ?? error?.response?.status;
+  if (typeof status === 'number') span.setAttribute('http.response.status_code', status);
+  span.setAttribute('error.type', errorType(error));
+  span.recordException(error);
+  span.setStatus({ code: SPAN_STATUS_ERROR, message: error?.message });
+}
+
+/**
+ * Traces SDK calls and records client metrics:
+ *
+ * - `shora.client.operation.duration` (histogram, seconds) per SDK call
+ * - `shora.client.retries` (counter) per retried attempt
+ * - `shora.client.circuit_breaker.state` (gauge, 0 closed, 1 half-open, 2 open) per route group
+ * - `shora.client.circuit_breaker.transitions` (counter) per breaker state change
+ * - `shora.client.rate_limit.remaining` (gauge) from the last X-RateLimit-Remaining header
+ */
+export class ShoraTelemetry {
+  private readonly api?: OpenTelemetryApi;
+  private readonly tenantId?: string;
+  private tracer?: TelemetryTracer;
+  private duration?: ReturnType<TelemetryMeter['createHistogram']>;
+  private retries?: ReturnType<TelemetryMeter['createCounter']>;
+  private circuitState?: TelemetryObservableGauge;
+  private circuitTransitions?: ReturnType<TelemetryMeter['createCounter']>;
+  private rateLimitRemaining?: TelemetryObservableGauge;
+  private readonly observers: Array<() => void> = [];
+
+  constructor(options: TelemetryOptions = {}) {
+    this.api = options.api === false ? undefined : options.api ?? optionalModule<OpenTelemetryApi>('@opentelemetry/api');
+    this.tenantId = options.tenantId;
+    if (!this.api) return;
+
+    this.tracer = this.api.trace.getTracer(INSTRUMENTATION_NAME, SDK_VERSION);
+    const meter = this.api.metrics.getMeter(INSTRUMENTATION_NAME, SDK_VERSION);
+    this.duration = meter.createHistogram('shora.client.operation.duration', {
+      description: 'Duration of SDK calls, including retries',
+      unit: 's',
+    });
+    this.retries = meter.createCounter('shora.client.retries', { description: 'Attempts retried by the SDK', unit: '{retry}' });
+    this.circuitTransitions = meter.createCounter('shora.client.circuit_breaker.transitions', {
+      description: 'Circuit breaker state changes per route group',
+      unit: '{transition}',
+    });
+    this.circuitState = meter.createObservableGauge('shora.client.circuit_breaker.state', {
+      description: 'Circuit breaker state per route group: 0 closed, 1 half-open, 2 open',
+    });
+    this.rateLimitRemaining = meter.createObservableGauge('shora.client.rate_limit.remaining', {
+      description: 'Requests left in the current rate limit window',
+      unit: '{request}',
+    });
+  }
+
+  get enabled(): boolean {
+    return !!this.api;
+  }
+
+  /**
+   * Runs `fn` inside a span for one SDK call. Retry attempts started through the `call` hooks become child spans.
+   */
+  async trace<T>(operation: string, request: TracedRequest, fn: (call: TracedCall) => Promise<T>): Promise<T> {
+    if (!this.api || !this.tracer) return fn(NOOP_CALL);
+
+    const attributes = compact({
+      'shora.operation': operation,
+      'http.request.method': request.method,
+      'url.template': request.route,
+      'shora.tenant_id': this.tenantId,
+    });
+    const parent = this.api.context.active();
+    const span = this.tracer.startSpan(`shora.${operation}`, {
+      kind: SPAN_KIND_INTERNAL,
+      attributes: { ...attributes, ...compact(request.attributes ?? {}) },
+    }, parent);
+    const call = new Call(this, this.api, this.tracer, span, request);
+    const started = Date.now();
+    try {
+      return await this.api.context.with(this.api.trace.setSpan(parent, span).setValue(CALL_KEY, call), () => fn(call));
+    } catch (error: any) {
+      failSpan(span, error);
+      call.error = errorType(error);
+      call.status = call.status ?? error?.status ?? error?.response?.status;
+      throw error;
+    } finally {
+      span.end();
+      this.duration?.record((Date.now() - started) / 1000, {
+        ...attributes,
+        'http.response.status_code': call.status,
+        'error.type': call.error,
+      });
+    }
+  }
+
+  /**
+   * Adds the active span's W3C trace context to outgoing request headers. Falls back to formatting
+   * `traceparent` directly when the host registered no propagator.
+   */
+  injectHeaders(headers: { set(name: string, value: string): unknown }): void {
+    if (!this.api) return;
+    const active = this.api.context.active();
+    const carrier: Record<string, string> = {};
+    this.api.propagation.inject(active, carrier);
+    if (!carrier.traceparent) {
+      const spanContext = this.api.trace.getSpan(active)?.spanContext();
+      if (spanContext && spanContext.traceId !== INVALID_TRACE_ID) {
+        const flags = (spanContext.traceFlags & 0xff).toString(16).padStart(2, '0');
+        carrier.traceparent = `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`;
+      }
+    }
+    for (const [name, value] of Object.entries(carrier)) headers.set(name, value);
+  }
+
+  /**
+   * Records the HTTP status of a response on the current attempt and call spans.
+   */
+  recordResponse(status: number | undefined): void {
+    if (!this.api || status === undefined) return;
+    const active = this.api.context.active();
+    this.api.trace.getSpan(active)?.setAttribute('http.response.status_code', status);
+    const call = active.getValue(CALL_KEY) as Call | undefined;
+    if (call) {
+      call.status = status;
+      call.span.setAttribute('http.response.status_code', status);
+    }
+  }
+
+  recordRetry(request: TracedRequest, error: any): void {
+    this.retries?.add(1, compact({
+      'http.request.method': request.method,
+      'url.template': request.route,
+      'error.type': errorType(error),
+      'shora.tenant_id': this.tenantId,
+    }));
+  }
+
+  recordCircuitStateChange(change: CircuitStateChange): void {
+    this.circuitTransitions?.add(1, compact({
+      'shora.circuit_breaker': change.name,
+      'shora.circuit_breaker.from': change.from,
+      'shora.circuit_breaker.to': change.to,
+      'shora.tenant_id': this.tenantId,
+    }));
+  }
+
+  observeCircuitStates(read: () => Record<string, CircuitState>): void {
+    this.observe(this.circuitState, (result) => {
+      for (const [name, state] of Object.entries(read())) {
+        result.observe(CIRCUIT_STATE_VALUES[state], compact({ 'shora.circuit_breaker': name, 'shora.tenant_id': this.tenantId }));
+      }
+    });
+  }
+
+  observeRateLimit(read: () => RateLimitState | undefined): void {
+    this.observe(this.rateLimitRemaining, (result) => {
+      const remaining = read()?.remaining;
+      if (remaining !== undefined) result.observe(remaining, compact({ 'shora.tenant_id': this.tenantId }));
+    });
+  }
+
+  /**
+   * Detaches the gauge callbacks, so a shut-down client stops reporting.
+   */
+  shutdown(): void {
+    for (const remove of this.observers.splice(0)) remove();
+  }
+
+  private observe(gauge: TelemetryObservableGauge | undefined, callback: (result: TelemetryObservableResult) => void): void {
+    if (!gauge) return;
+    gauge.addCallback(callback);
+    this.observers.push(() => gauge.removeCallback(callback));
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Pluggable HTTP transport. Services keep talking to an axios instance; a transport replaces only the
+ * network layer underneath it, so interceptors, retries and error parsing behave the same everywhere.
+ */
+
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ShoraConfigurationError, ShoraError } from './error-handling';
+import { isNodeRuntime } from './runtime';
+
+export interface TransportRequest {
+  method: string;
+  url: string; // Absolute, including query string
+  headers: Record<string, string>;
+  body?: string | Uint8Array;
+  timeout?: number; // Milliseconds, 0 or undefined for none
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface ShoraTransport {
+  /**
+   * Resolves with any HTTP status; rejects only when no response was received, with an error whose
+   * `code` is 'ETIMEDOUT', 'ERR_CANCELED' or 'ERR_NETWORK'.
+   */
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+// 'axios' uses axios' own Node http adapter; 'fetch' works on Cloudflare Workers, Deno, Vercel Edge and browsers
+export type TransportOption = 'axios' | 'fetch' | ShoraTransport;
+
+/**
+ * Builds the rejection a `ShoraTransport` uses when no response was received.
+ */
+export function transportError(message: string, code: string, cause?: unknown): Error {
+  return Object.assign(new Error(message), { code, cause });
+}
+
+export interface FetchTransportOptions {
+  fetch?: typeof fetch;
+}
+
+export class FetchTransport implements ShoraTransport {
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    const fetchImpl = options.fetch ?? (globalThis as any).fetch;
+    if (typeof fetchImpl !== 'function') {
+      throw new ShoraConfigurationError('FetchTransport requires a global fetch or options.fetch', { code: 'FETCH_UNAVAILABLE' });
+    }
+    // Some runtimes throw "Illegal invocation" when fetch is called detached from the global object
+    this.fetchImpl = options.fetch ?? ((input, init) => fetchImpl.call(globalThis, input, init));
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(request.signal?.reason);
+    if (request.signal?.aborted) onAbort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = request.timeout
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, request.timeout)
+      : undefined;
+
+    try {
+      const response = await this.fetchImpl(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+      return { status: response.status, statusText: response.statusText, headers, body: await response.text() };
+    } catch (error) {
+      if (timedOut) throw transportError(`timeout of ${request.timeout}ms exceeded`, 'ETIMEDOUT', error);
+      if (request.signal?.aborted) throw transportError('Request aborted', 'ERR_CANCELED', error);
+      throw transportError((error as Error)?.message || 'Network Error', 'ERR_NETWORK', error);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+function flattenHeaders(headers: unknown): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [key, value] of Object.entries((headers as any)?.toJSON?.() ?? headers ?? {})) {
+    if (value !== undefined && value !== null) flat[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return flat;
+}
+
+export class AxiosTransport implements ShoraTransport {
+  constructor(private readonly client: AxiosInstance = axios.create()) {}
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.client.request({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      data: request.body,
+      timeout: request.timeout,
+      signal: request.signal,
+      responseType: 'text',
+      transformResponse: [(data) => data],
+      validateStatus: () => true,
+    });
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: flattenHeaders(response.headers),
+      body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data ?? ''),
+    };
+  }
+}
+
+export function resolveTransport(option?: TransportOption): ShoraTransport | undefined {
+  if (option === 'axios') return undefined;
+  if (option === 'fetch' || (option === undefined && !isNodeRuntime())) return new FetchTransport();
+  return option;
+}
+
+function requestBody(data: unknown): string | Uint8Array | undefined {
+  if (data === undefined || data === null) return undefined;
+  if (typeof data === 'string' || data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return typeof data === 'object' ? JSON.stringify(data) : String(data);
+}
+
+/**
+ * Axios adapter that sends every request through `transport`, settling responses the way axios does.
+ */
+export function createTransportAdapter(transport: ShoraTransport): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const request: TransportRequest = {
+      method: (config.method || 'get').toUpperCase(),
+      url: axios.getUri(config),
+      headers: flattenHeaders(config.headers),
+      body: requestBody(config.data),
+      timeout: config.timeout || undefined,
+      signal: config.signal as AbortSignal | undefined,
+    };
+
+    let result: TransportResponse;
+    try {
+      result = await transport.request(request);
+    } catch (error: any) {
+      // SDK errors raised by the transport itself (e.g. a cassette miss) pass through untouched
+      if (axios.isAxiosError(error) || error instanceof ShoraError) throw error;
+      throw new AxiosError(error?.message || 'Network Error', error?.code || AxiosError.ERR_NETWORK, config, request);
+    }
+
+    // Raw body; axios' transformResponse parses JSON as it does for its own adapters
+    const response: AxiosResponse = {
+      data: result.body,
+      status: result.status,
+      statusText: result.statusText,
+      headers: result.headers,
+      config,
+      request,
+    };
+    if (!config.validateStatus || config.validateStatus(result.status)) return response;
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      request,
+      response
+    );
+  };
+}
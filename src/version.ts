@@ -0,0 +1,2 @@
+// Kept in sync with package.json (checked by the test suite); importing package.json breaks bundlers for edge runtimes
+export const SDK_VERSION = '2.2.0';
@@ -0,0 +1,215 @@
+/**
+ * Webhook signature verification and event dispatching
+ */
+
+import { hmacSha256Hex, timingSafeEqualStrings, utf8Decode } from './crypto-runtime';
+import { MemoryCache } from './caching';
+import { ShoraWebhookError } from './error-handling';
+import type { MandateStatus } from './auth';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+export interface PaymentEventData {
+  payment_id: string;
+  session_id?: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'completed' | 'failed' | 'cancelled';
+  metadata?: Record<string, any>;
+}
+
+export interface CheckoutEventData {
+  checkout_id?: string;
+  intent_id?: string;
+  amount: number;
+  currency: string;
+  status: string;
+  expires_at?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface RefundEventData {
+  refund_id: string;
+  payment_id: string;
+  receipt_id?: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+export interface MandateEventData {
+  mandate_id: string;
+  agent_id: string;
+  status: MandateStatus;
+  max_amount?: number;
+  currency?: string;
+}
+
+export interface AuditTxEventData {
+  payment_id: string;
+  amount: number;
+  currency: string;
+  status: string;
+}
+
+interface WebhookEventBase<T extends string, D> {
+  id?: string;
+  event: T;
+  data: D;
+  timestamp: string;
+  tenant_id?: string;
+}
+
+export type PaymentCompletedEvent = WebhookEventBase<'payment.completed', PaymentEventData>;
+export type PaymentFailedEvent = WebhookEventBase<'payment.failed', PaymentEventData>;
+export type PaymentCancelledEvent = WebhookEventBase<'payment.cancelled', PaymentEventData>;
+export type CheckoutCompletedEvent = WebhookEventBase<'checkout.completed', CheckoutEventData>;
+export type CheckoutExpiredEvent = WebhookEventBase<'checkout.expired', CheckoutEventData>;
+export type RefundSucceededEvent = WebhookEventBase<'refund.succeeded', RefundEventData>;
+export type RefundFailedEvent = WebhookEventBase<'refund.failed', RefundEventData>;
+export type MandateRevokedEvent = WebhookEventBase<'mandate.revoked', MandateEventData>;
+export type MandateExpiredEvent = WebhookEventBase<'mandate.expired', MandateEventData>;
+export type AuditTxEvent = WebhookEventBase<'audit_tx', AuditTxEventData>;
+
+export type WebhookEvent =
+  | PaymentCompletedEvent
+  | PaymentFailedEvent
+  | PaymentCancelledEvent
+  | CheckoutCompletedEvent
+  | CheckoutExpiredEvent
+  | RefundSucceededEvent
+  | RefundFailedEvent
+  | MandateRevokedEvent
+  | MandateExpiredEvent
+  | AuditTxEvent;
+
+export type WebhookEventType = WebhookEvent['event'];
+
+export type WebhookEventOf<T extends WebhookEventType | '*'> = T extends WebhookEventType
+  ? Extract<WebhookEvent, { event: T }>
+  : WebhookEvent;
+
+export type WebhookHandler<T extends WebhookEventType | '*'> = (event: WebhookEventOf<T>) => void | Promise<void>;
+
+export interface WebhookOptions {
+  secret?: string;
+  tolerance?: number; // Maximum event age in milliseconds
+  replayCacheSize?: number;
+}
+
+export class WebhookService {
+  private readonly secret?: string;
+  private readonly tolerance: number;
+  private readonly seen: MemoryCache<true>;
+  private handlers = new Map<string, Array<WebhookHandler<any>>>();
+  private observers = new Set<WebhookHandler<'*'>>(); // The SDK's own subscriptions, invisible to hasListeners()
+
+  constructor(options: WebhookOptions = {}) {
+    this.secret = options.secret;
+    this.tolerance = options.tolerance ?? 300000; // 5 minutes default
+    this.seen = new MemoryCache<true>({ ttl: this.tolerance * 2, maxSize: options.replayCacheSize ?? 10000 });
+  }
+
+  sign(payload: string | Uint8Array): string {
+    return `sha256=${hmacSha256Hex(this.requireSecret(), payload)}`;
+  }
+
+  verifySignature(payload: string | Uint8Array, signatureHeader: string | undefined): boolean {
+    if (!signatureHeader) return false;
+    const [scheme, received] = signatureHeader.trim().split('=', 2);
+    if (scheme !== 'sha256' || !received) return false;
+
+    return timingSafeEqualStrings(received.toLowerCase(), this.sign(payload).slice('sha256='.length));
+  }
+
+  constructEvent(payload: string | Uint8Array, signatureHeader: string | undefined): WebhookEvent {
+    if (!this.verifySignature(payload, signatureHeader)) {
+      throw new ShoraWebhookError('Webhook signature verification failed', { code: 'WEBHOOK_SIGNATURE_INVALID' });
+    }
+
+    const event = this.parse(payload);
+    const sentAt = new Date(event.timestamp).getTime();
+    if (Number.isNaN(sentAt) || Math.abs(Date.now() - sentAt) > this.tolerance) {
+      throw new ShoraWebhookError('Webhook timestamp outside of tolerance', { code: 'WEBHOOK_TIMESTAMP_INVALID' });
+    }
+
+    const replayKey = event.id || signatureHeader!.trim();
+    if (this.seen.get(replayKey)) {
+      throw new ShoraWebhookError('Webhook event has already been received', { code: 'WEBHOOK_REPLAYED', status: 409 });
+    }
+    this.seen.set(replayKey, true);
+
+    return event;
+  }
+
+  /**
+   * True when a handler is registered for any of `eventTypes` (any event when omitted) or for '*'.
+   * Only handlers added with on() count; the SDK's own subscriptions through observe() do not.
+   */
+  hasListeners(...eventTypes: WebhookEventType[]): boolean {
+    if (this.handlers.has('*')) return true;
+    return eventTypes.length ? eventTypes.some((type) => this.handlers.has(type)) : this.handlers.size > 0;
+  }
+
+  on<T extends WebhookEventType | '*'>(eventType: T, handler: WebhookHandler<T>): () => void {
+    const list = this.handlers.get(eventType) || [];
+    list.push(handler);
+    this.handlers.set(eventType, list);
+    return () => this.off(eventType, handler);
+  }
+
+  /**
+   * Receives every dispatched event after the handlers, without counting as a handler for hasListeners().
+   * Used by waits, which must not mistake each other's subscriptions for webhooks the application handles.
+   */
+  observe(handler: WebhookHandler<'*'>): () => void {
+    this.observers.add(handler);
+    return () => {
+      this.observers.delete(handler);
+    };
+  }
+
+  off<T extends WebhookEventType | '*'>(eventType: T, handler: WebhookHandler<T>): void {
+    const list = this.handlers.get(eventType);
+    if (!list) return;
+    const remaining = list.filter((h) => h !== handler);
+    if (remaining.length) {
+      this.handlers.set(eventType, remaining);
+    } else {
+      this.handlers.delete(eventType);
+    }
+  }
+
+  async dispatch(event: WebhookEvent): Promise<void> {
+    const handlers = [...(this.handlers.get(event.event) || []), ...(this.handlers.get('*') || []), ...this.observers];
+    for (const handler of handlers) {
+      await handler(event);
+    }
+  }
+
+  async handle(payload: string | Uint8Array, signatureHeader: string | undefined): Promise<WebhookEvent> {
+    const event = this.constructEvent(payload, signatureHeader);
+    await this.dispatch(event);
+    return event;
+  }
+
+  private parse(payload: string | Uint8Array): WebhookEvent {
+    let body: any;
+    try {
+      body = JSON.parse(typeof payload === 'string' ? payload : utf8Decode(payload));
+    } catch (error) {
+      throw new ShoraWebhookError('Webhook payload is not valid JSON', { code: 'WEBHOOK_INVALID_PAYLOAD' });
+    }
+    if (!body || typeof body.event !== 'string' || typeof body.data !== 'object' || typeof body.timestamp !== 'string') {
+      throw new ShoraWebhookError('Webhook payload is missing event, data or timestamp', { code: 'WEBHOOK_INVALID_PAYLOAD' });
+    }
+    return body as WebhookEvent;
+  }
+
+  private requireSecret(): string {
+    if (!this.secret) {
+      throw new ShoraWebhookError('Webhook secret is not configured', { code: 'WEBHOOK_SECRET_MISSING', status: 0 });
+    }
+    return this.secret;
+  }
+}